@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+// Launches the TypeScript CLI through tsx so it shares the app's source and path aliases
+import { fileURLToPath } from "node:url";
+import { register as registerCjs } from "tsx/cjs/api";
+import { register as registerEsm } from "tsx/esm/api";
+
+// tsx maps the "@/" aliases from the tsconfig it finds in the working directory
+// unless this points it at the package's own, so the CLI works from anywhere
+const tsconfig = fileURLToPath(new URL("../tsconfig.json", import.meta.url));
+process.env.TSX_TSCONFIG_PATH = tsconfig;
+registerCjs({ tsconfig });
+registerEsm({ tsconfig });
+
+await import("../src/cli/index.ts");
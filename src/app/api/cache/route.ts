@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as fs from "fs/promises";
+import { isCacheKey } from "@/lib/cacheKey";
+import { readCachedResult, writeCachedResult } from "@/lib/resultCache";
+import { CacheResponse, JobKind } from "@/types";
+
+export const dynamic = 'force-dynamic';
+
+// GET: Look up a cached result (entry is null on a miss)
+export async function GET(request: NextRequest) {
+  const directoryPath = request.nextUrl.searchParams.get("directoryPath");
+  const key = request.nextUrl.searchParams.get("key");
+
+  if (!directoryPath || !key) {
+    return NextResponse.json<CacheResponse>(
+      { success: false, error: "directoryPath and key parameters required" },
+      { status: 400 }
+    );
+  }
+
+  if (!isCacheKey(key)) {
+    return NextResponse.json<CacheResponse>(
+      { success: false, error: "Invalid cache key" },
+      { status: 400 }
+    );
+  }
+
+  const entry = await readCachedResult(directoryPath, key);
+  return NextResponse.json<CacheResponse>({ success: true, entry });
+}
+
+// POST: Store a result
+export async function POST(request: NextRequest) {
+  try {
+    const { directoryPath, key, kind, result }: {
+      directoryPath: string;
+      key: string;
+      kind: JobKind;
+      result: string;
+    } = await request.json();
+
+    if (!directoryPath || !key || !kind || !result) {
+      return NextResponse.json<CacheResponse>(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (!isCacheKey(key)) {
+      return NextResponse.json<CacheResponse>(
+        { success: false, error: "Invalid cache key" },
+        { status: 400 }
+      );
+    }
+
+    // Validate directory exists
+    try {
+      const stats = await fs.stat(directoryPath);
+      if (!stats.isDirectory()) {
+        return NextResponse.json<CacheResponse>(
+          { success: false, error: "Path is not a directory" },
+          { status: 400 }
+        );
+      }
+    } catch {
+      return NextResponse.json<CacheResponse>(
+        { success: false, error: "Directory does not exist" },
+        { status: 400 }
+      );
+    }
+
+    const entry = await writeCachedResult(directoryPath, key, kind, result);
+    return NextResponse.json<CacheResponse>({ success: true, entry });
+  } catch (error) {
+    console.error("Failed to write cache entry:", error);
+    return NextResponse.json<CacheResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to write cache entry",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/generate/stream/route";
+import { runImageGenerateFlow } from "@/lib/flows";
+import { readEventStream } from "@/lib/sse";
+import { GenerationStreamEvent } from "@/types";
+
+vi.mock("@/lib/flows", () => ({ runImageGenerateFlow: vi.fn() }));
+
+const FAST_RETRIES = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, jitter: 0 };
+
+const post = (body: unknown) =>
+  POST(new NextRequest("http://localhost/api/generate/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }));
+
+const streamEvents = async (body: unknown) => {
+  const response = await post(body);
+  const events: GenerationStreamEvent[] = [];
+  await readEventStream(response.body!, (data) => events.push(JSON.parse(data)));
+  return { response, events };
+};
+
+describe("POST /api/generate/stream", () => {
+  it("streams each attempt and retry before the image", async () => {
+    vi.mocked(runImageGenerateFlow)
+      .mockImplementationOnce(async (_request, _requestId, options) => {
+        options?.onModelCalled?.("mock");
+        throw Object.assign(new Error("Service unavailable"), { status: 503 });
+      })
+      .mockImplementationOnce(async (_request, _requestId, options) => {
+        options?.onModelCalled?.("mock");
+        return "data:image/png;base64,AAAA";
+      });
+
+    const { response, events } = await streamEvents({ prompt: "a red fox", retryPolicy: FAST_RETRIES });
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(events).toEqual([
+      { type: "queued" },
+      { type: "model-called", model: "mock", attempt: 1 },
+      { type: "retrying", attempt: 2, maxAttempts: 3, delayMs: 0, error: "Service unavailable" },
+      { type: "model-called", model: "mock", attempt: 2 },
+      { type: "image", image: "data:image/png;base64,AAAA" },
+    ]);
+  });
+
+  it("ends with an error event that says whether it can be retried", async () => {
+    vi.mocked(runImageGenerateFlow).mockRejectedValueOnce(Object.assign(new Error("Invalid prompt"), { status: 400 }));
+
+    const { events } = await streamEvents({ prompt: "a red fox", retryPolicy: FAST_RETRIES });
+
+    expect(events).toEqual([{ type: "queued" }, { type: "error", error: "Invalid prompt", retryable: false }]);
+  });
+
+  it("answers a missing prompt with JSON instead of a stream", async () => {
+    const response = await post({});
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ success: false, error: "Prompt is required" });
+  });
+});
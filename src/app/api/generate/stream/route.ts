@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runImageGenerateFlow } from "@/lib/flows";
+import { isRetryableError, resolveRetryPolicy, withRetry } from "@/lib/retry";
+import { createEventStream, EVENT_STREAM_HEADERS } from "@/lib/sse";
+import { GenerateRequest, GenerateResponse, GenerationStreamEvent } from "@/types";
+
+export const maxDuration = 300; // 5 minute timeout
+export const dynamic = 'force-dynamic';
+
+// Streams generation progress as Server-Sent Events, ending with an image or error event
+export async function POST(request: NextRequest) {
+  const requestId = Math.random().toString(36).substring(7);
+  console.log(`\n[API:${requestId}] ========== NEW STREAMING GENERATE REQUEST ==========`);
+
+  let body: GenerateRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<GenerateResponse>(
+      { success: false, error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
+
+  if (!body.prompt) {
+    return NextResponse.json<GenerateResponse>(
+      { success: false, error: "Prompt is required" },
+      { status: 400 }
+    );
+  }
+
+  const retryPolicy = resolveRetryPolicy(body.retryPolicy);
+
+  const stream = createEventStream<GenerationStreamEvent>(async (send) => {
+    send({ type: "queued" });
+
+    try {
+      const image = await withRetry(
+        (attempt) =>
+          runImageGenerateFlow(body, requestId, {
+            signal: request.signal,
+            onModelCalled: (model) => send({ type: "model-called", model, attempt }),
+          }),
+        retryPolicy,
+        (attempt, error, delayMs) => {
+          console.warn(`[API:${requestId}] Retrying (attempt ${attempt}/${retryPolicy.maxAttempts}) in ${delayMs}ms:`, error);
+          send({
+            type: "retrying",
+            attempt,
+            maxAttempts: retryPolicy.maxAttempts,
+            delayMs,
+            error: error instanceof Error ? error.message : "Generation failed",
+          });
+        },
+        request.signal
+      );
+
+      send({ type: "image", image });
+    } catch (error) {
+      if (request.signal.aborted) {
+        console.log(`[API:${requestId}] Cancelled by client`);
+        return;
+      }
+      console.error(`[API:${requestId}] Error:`, error);
+      send({
+        type: "error",
+        error: error instanceof Error ? error.message : "Generation failed",
+        retryable: isRetryableError(error, retryPolicy),
+      });
+    }
+  });
+
+  return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+}
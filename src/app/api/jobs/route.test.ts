@@ -0,0 +1,60 @@
+import * as os from "os";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/jobs/route";
+import { submitJob } from "@/lib/jobQueue";
+
+vi.mock("@/lib/jobQueue", () => ({
+  submitJob: vi.fn(async ({ runId, nodeId, kind }) => ({ id: "job_1", runId, nodeId, kind, status: "queued" })),
+  getJob: vi.fn(),
+  cancelJob: vi.fn(),
+}));
+
+const post = (body: unknown, contentType = "application/json") =>
+  POST(new NextRequest("http://localhost/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body: JSON.stringify(body),
+  }));
+
+const llmJob = (baseUrl?: string) => ({
+  directoryPath: os.tmpdir(),
+  runId: "run_1",
+  nodeId: "llm-1",
+  kind: "llm",
+  request: { prompt: "Describe a fox", provider: "openaiCompatible", model: "llama3", ...(baseUrl && { baseUrl }) },
+});
+
+beforeEach(() => {
+  vi.mocked(submitJob).mockClear();
+  delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+});
+
+describe("POST /api/jobs", () => {
+  it("queues JSON requests", async () => {
+    const response = await post(llmJob());
+
+    expect(response.status).toBe(200);
+    expect(submitJob).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects form posts, which other sites can send", async () => {
+    const response = await post(llmJob(), "text/plain");
+
+    expect(response.status).toBe(415);
+    expect(submitJob).not.toHaveBeenCalled();
+  });
+
+  it("rejects base URLs other than the server's own", async () => {
+    const response = await post(llmJob("http://169.254.169.254/latest"));
+
+    expect(response.status).toBe(400);
+    expect(submitJob).not.toHaveBeenCalled();
+  });
+
+  it("accepts the server's own base URL", async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:1234/v1";
+
+    expect((await post(llmJob("http://localhost:1234/v1/"))).status).toBe(200);
+  });
+});
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as fs from "fs/promises";
+import { isServerBaseUrl } from "@/lib/generation";
+import { cancelJob, getJob, submitJob } from "@/lib/jobQueue";
+import { isJsonRequest } from "@/lib/llmProviders";
+import { JobResponse, LLMGenerateRequest, SubmitJobRequest } from "@/types";
+
+export const dynamic = 'force-dynamic';
+
+// POST: Queue a generate / LLM call for a node (re-attaches if the node already has a job in this run)
+export async function POST(request: NextRequest) {
+  // Jobs call providers from the server, so only same-site JSON requests are taken
+  if (!isJsonRequest(request)) {
+    return NextResponse.json<JobResponse>(
+      { success: false, error: "Expected a JSON request body" },
+      { status: 415 }
+    );
+  }
+
+  try {
+    const body: SubmitJobRequest = await request.json();
+    const { directoryPath, runId, nodeId, kind, request: jobRequest } = body;
+
+    if (!directoryPath || !runId || !nodeId || !jobRequest) {
+      return NextResponse.json<JobResponse>(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (kind !== "generate" && kind !== "llm") {
+      return NextResponse.json<JobResponse>(
+        { success: false, error: `Unknown job kind: ${kind}` },
+        { status: 400 }
+      );
+    }
+
+    // Queued jobs are saved and replayed after restarts, so they only reach the server's own LLM endpoint
+    const { baseUrl } = jobRequest as LLMGenerateRequest;
+    if (baseUrl && !isServerBaseUrl(baseUrl)) {
+      return NextResponse.json<JobResponse>(
+        { success: false, error: "Queued jobs can only use the server's OpenAI-compatible base URL" },
+        { status: 400 }
+      );
+    }
+
+    // Validate directory exists
+    try {
+      const stats = await fs.stat(directoryPath);
+      if (!stats.isDirectory()) {
+        return NextResponse.json<JobResponse>(
+          { success: false, error: "Path is not a directory" },
+          { status: 400 }
+        );
+      }
+    } catch {
+      return NextResponse.json<JobResponse>(
+        { success: false, error: "Directory does not exist" },
+        { status: 400 }
+      );
+    }
+
+    const job = await submitJob(body);
+
+    return NextResponse.json<JobResponse>({ success: true, job });
+  } catch (error) {
+    console.error("Failed to submit job:", error);
+    return NextResponse.json<JobResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to submit job",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// GET: Poll a node's job in a run
+export async function GET(request: NextRequest) {
+  const directoryPath = request.nextUrl.searchParams.get("directoryPath");
+  const runId = request.nextUrl.searchParams.get("runId");
+  const nodeId = request.nextUrl.searchParams.get("nodeId");
+
+  if (!directoryPath || !runId || !nodeId) {
+    return NextResponse.json<JobResponse>(
+      { success: false, error: "directoryPath, runId and nodeId parameters required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = await getJob(directoryPath, runId, nodeId);
+    if (!job) {
+      return NextResponse.json<JobResponse>(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<JobResponse>({ success: true, job });
+  } catch (error) {
+    console.error("Failed to read job:", error);
+    return NextResponse.json<JobResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to read job",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Cancel a node's job in a run (aborts the provider call if it is in flight)
+export async function DELETE(request: NextRequest) {
+  const directoryPath = request.nextUrl.searchParams.get("directoryPath");
+  const runId = request.nextUrl.searchParams.get("runId");
+  const nodeId = request.nextUrl.searchParams.get("nodeId");
+
+  if (!directoryPath || !runId || !nodeId) {
+    return NextResponse.json<JobResponse>(
+      { success: false, error: "directoryPath, runId and nodeId parameters required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = await cancelJob(directoryPath, runId, nodeId);
+    if (!job) {
+      return NextResponse.json<JobResponse>(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<JobResponse>({ success: true, job });
+  } catch (error) {
+    console.error("Failed to cancel job:", error);
+    return NextResponse.json<JobResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to cancel job",
+      },
+      { status: 500 }
+    );
+  }
+}
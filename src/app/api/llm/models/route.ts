@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listLLMModels } from "@/lib/generation";
+import { isJsonRequest, isLLMProvider } from "@/lib/llmProviders";
+import { LLMModelsRequest, LLMModelsResponse } from "@/types";
+
+export const dynamic = 'force-dynamic';
+
+// Lists the models a provider's endpoint serves, for providers without a fixed model list.
+// A POST with a JSON body, so other sites can't make the server fetch a base URL of their choosing.
+export async function POST(request: NextRequest) {
+  if (!isJsonRequest(request)) {
+    return NextResponse.json<LLMModelsResponse>(
+      { success: false, error: "Expected a JSON request body" },
+      { status: 415 }
+    );
+  }
+
+  let body: LLMModelsRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<LLMModelsResponse>(
+      { success: false, error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
+
+  const { provider, baseUrl } = body;
+  if (!isLLMProvider(provider)) {
+    return NextResponse.json<LLMModelsResponse>(
+      { success: false, error: `Unknown provider: ${provider}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const models = await listLLMModels(provider, baseUrl || undefined, request.signal);
+    return NextResponse.json<LLMModelsResponse>({ success: true, models });
+  } catch (error) {
+    console.error("Failed to list LLM models:", error);
+    return NextResponse.json<LLMModelsResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list models",
+      },
+      { status: 502 }
+    );
+  }
+}
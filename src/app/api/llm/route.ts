@@ -1,93 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
-import { ai } from "@/lib/genkit";
-import { LLMGenerateRequest, LLMGenerateResponse, LLMModelType } from "@/types";
+import { runLLMGenerateFlow } from "@/lib/flows";
+import { isJsonRequest, isLLMProvider } from "@/lib/llmProviders";
+import {
+  DEFAULT_RETRY_POLICY,
+  getErrorStatusCode,
+  isRetryableError,
+  resolveRetryPolicy,
+  withRetry,
+} from "@/lib/retry";
+import { LLMGenerateRequest, LLMGenerateResponse } from "@/types";
 
 export const maxDuration = 60; // 1 minute timeout
 
-// Map model types to actual API model IDs
-const GOOGLE_MODEL_MAP: Record<string, string> = {
-  "gemini-2.5-flash": "googleai/gemini-2.5-flash",
-  "gemini-3-flash-preview": "googleai/gemini-3-flash-preview",
-  "gemini-3-pro-preview": "googleai/gemini-3-pro-preview",
-};
-
-const OPENAI_MODEL_MAP: Record<string, string> = {
-  "gpt-4.1-mini": "gpt-4.1-mini",
-  "gpt-4.1-nano": "gpt-4.1-nano",
-};
-
-async function generateWithGoogle(
-  prompt: string,
-  model: LLMModelType,
-  temperature: number,
-  maxTokens: number
-): Promise<string> {
-  const modelId = GOOGLE_MODEL_MAP[model];
-
-  const response = await ai.generate({
-    model: modelId,
-    prompt: prompt,
-    config: {
-      temperature,
-      maxOutputTokens: maxTokens,
-    },
-  });
-
-  return response.text;
-}
-
-async function generateWithOpenAI(
-  prompt: string,
-  model: LLMModelType,
-  temperature: number,
-  maxTokens: number
-): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY not configured");
-  }
-
-  const modelId = OPENAI_MODEL_MAP[model];
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: modelId,
-      messages: [{ role: "user", content: prompt }],
-      temperature,
-      max_tokens: maxTokens,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({}));
-    throw new Error(error.error?.message || `OpenAI API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content;
+export async function POST(request: NextRequest) {
+  let retryPolicy = DEFAULT_RETRY_POLICY;
 
-  if (!text) {
-    throw new Error("No text in OpenAI response");
+  // Requests can carry a base URL to fetch, so only same-site JSON requests are taken
+  if (!isJsonRequest(request)) {
+    return NextResponse.json<LLMGenerateResponse>(
+      { success: false, error: "Expected a JSON request body" },
+      { status: 415 }
+    );
   }
 
-  return text;
-}
-
-export async function POST(request: NextRequest) {
   try {
     const body: LLMGenerateRequest = await request.json();
-    const {
-      prompt,
-      provider,
-      model,
-      temperature = 0.7,
-      maxTokens = 1024
-    } = body;
+    const { prompt, provider } = body;
 
     if (!prompt) {
       return NextResponse.json<LLMGenerateResponse>(
@@ -96,19 +34,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let text: string;
-
-    if (provider === "google") {
-      text = await generateWithGoogle(prompt, model, temperature, maxTokens);
-    } else if (provider === "openai") {
-      text = await generateWithOpenAI(prompt, model, temperature, maxTokens);
-    } else {
+    if (!isLLMProvider(provider)) {
       return NextResponse.json<LLMGenerateResponse>(
         { success: false, error: `Unknown provider: ${provider}` },
         { status: 400 }
       );
     }
 
+    retryPolicy = resolveRetryPolicy(body.retryPolicy);
+
+    const text = await withRetry(
+      () => runLLMGenerateFlow(body, { signal: request.signal }),
+      retryPolicy,
+      (attempt, error, delayMs) => {
+        console.warn(`LLM generation retrying (attempt ${attempt}/${retryPolicy.maxAttempts}) in ${delayMs}ms:`, error);
+      },
+      request.signal
+    );
+
     return NextResponse.json<LLMGenerateResponse>({
       success: true,
       text,
@@ -116,10 +59,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("LLM generation error:", error);
 
+    const statusCode = getErrorStatusCode(error);
+    const retryable = isRetryableError(error, retryPolicy);
+
     // Handle rate limiting
-    if (error instanceof Error && error.message.includes("429")) {
+    if (statusCode === 429) {
       return NextResponse.json<LLMGenerateResponse>(
-        { success: false, error: "Rate limit reached. Please wait and try again." },
+        { success: false, error: "Rate limit reached. Please wait and try again.", retryable },
         { status: 429 }
       );
     }
@@ -128,8 +74,9 @@ export async function POST(request: NextRequest) {
       {
         success: false,
         error: error instanceof Error ? error.message : "LLM generation failed",
+        retryable,
       },
-      { status: 500 }
+      { status: statusCode && statusCode >= 500 ? statusCode : 500 }
     );
   }
 }
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runLLMGenerateFlow } from "@/lib/flows";
+import { isJsonRequest, isLLMProvider } from "@/lib/llmProviders";
+import { isRetryableError, resolveRetryPolicy, withRetry } from "@/lib/retry";
+import { createEventStream, EVENT_STREAM_HEADERS } from "@/lib/sse";
+import { GenerationStreamEvent, LLMGenerateRequest, LLMGenerateResponse } from "@/types";
+
+export const maxDuration = 60; // 1 minute timeout
+export const dynamic = 'force-dynamic';
+
+// Streams LLM output token by token as Server-Sent Events, ending with a text or error event
+export async function POST(request: NextRequest) {
+  // Requests can carry a base URL to fetch, so only same-site JSON requests are taken
+  if (!isJsonRequest(request)) {
+    return NextResponse.json<LLMGenerateResponse>(
+      { success: false, error: "Expected a JSON request body" },
+      { status: 415 }
+    );
+  }
+
+  let body: LLMGenerateRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<LLMGenerateResponse>(
+      { success: false, error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
+
+  if (!body.prompt) {
+    return NextResponse.json<LLMGenerateResponse>(
+      { success: false, error: "Prompt is required" },
+      { status: 400 }
+    );
+  }
+
+  if (!isLLMProvider(body.provider)) {
+    return NextResponse.json<LLMGenerateResponse>(
+      { success: false, error: `Unknown provider: ${body.provider}` },
+      { status: 400 }
+    );
+  }
+
+  const retryPolicy = resolveRetryPolicy(body.retryPolicy);
+
+  const stream = createEventStream<GenerationStreamEvent>(async (send) => {
+    send({ type: "queued" });
+
+    try {
+      const text = await withRetry(
+        (attempt) =>
+          runLLMGenerateFlow(body, {
+            signal: request.signal,
+            onModelCalled: (model) => send({ type: "model-called", model, attempt }),
+            onToken: (delta) => send({ type: "token", text: delta }),
+          }),
+        retryPolicy,
+        (attempt, error, delayMs) => {
+          console.warn(`LLM generation retrying (attempt ${attempt}/${retryPolicy.maxAttempts}) in ${delayMs}ms:`, error);
+          send({
+            type: "retrying",
+            attempt,
+            maxAttempts: retryPolicy.maxAttempts,
+            delayMs,
+            error: error instanceof Error ? error.message : "LLM generation failed",
+          });
+        },
+        request.signal
+      );
+
+      send({ type: "text", text });
+    } catch (error) {
+      if (request.signal.aborted) {
+        console.log("LLM generation cancelled by client");
+        return;
+      }
+      console.error("LLM generation error:", error);
+      send({
+        type: "error",
+        error: error instanceof Error ? error.message : "LLM generation failed",
+        retryable: isRetryableError(error, retryPolicy),
+      });
+    }
+  });
+
+  return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+// POST: Read an image file (absolute, or relative to the project folder) as a data URL
+export async function POST(request: NextRequest) {
+  try {
+    const { filePath, directoryPath } = await request.json();
+
+    if (!filePath) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const resolvedPath = path.resolve(directoryPath || process.cwd(), filePath);
+    const mimeType = IMAGE_MIME_TYPES[path.extname(resolvedPath).toLowerCase()];
+    if (!mimeType) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported image type: ${filePath}` },
+        { status: 400 }
+      );
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(resolvedPath);
+    } catch {
+      return NextResponse.json(
+        { success: false, error: `Image not found: ${filePath}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      image: `data:${mimeType};base64,${buffer.toString("base64")}`,
+    });
+  } catch (error) {
+    console.error("Failed to load image:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Load failed",
+      },
+      { status: 500 }
+    );
+  }
+}
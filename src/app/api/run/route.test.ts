@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/run/route";
+import { generateMockText } from "@/lib/mockProvider";
+import { WorkflowServices } from "@/lib/workflowEngine";
+import { WorkflowEdge, WorkflowNode } from "@/types";
+
+const services = vi.hoisted(() => ({}) as WorkflowServices);
+
+vi.mock("@/lib/flows", () => ({ serverServices: services }));
+
+const run = (body: unknown) =>
+  POST(new NextRequest("http://localhost/api/run", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }));
+
+const workflow = (edges: WorkflowEdge[]) => ({
+  version: 1,
+  name: "fox",
+  edgeStyle: "curved",
+  nodes: [
+    { id: "prompt", type: "prompt", position: { x: 0, y: 0 }, data: { prompt: "a red fox" } },
+    { id: "generate", type: "nanoBanana", position: { x: 0, y: 0 }, data: { inputImages: [], inputPrompt: null, outputImage: null, aspectRatio: "1:1", resolution: "1K", model: "mock", useGoogleSearch: false, status: "idle", error: null } },
+    { id: "out", type: "output", position: { x: 0, y: 0 }, data: { image: null } },
+  ] as WorkflowNode[],
+  edges,
+});
+
+const edges = [
+  { id: "e1", source: "prompt", sourceHandle: "text", target: "generate", targetHandle: "text" },
+  { id: "e2", source: "generate", sourceHandle: "image", target: "out", targetHandle: "image" },
+] as WorkflowEdge[];
+
+beforeEach(() => {
+  Object.assign(services, {
+    generateImage: vi.fn(async ({ prompt }) => `image(${prompt})`),
+    generateText: async (request) => generateMockText(request),
+    splitImage: async () => [],
+    flattenImage: async (image) => image,
+    exportImage: async (image) => image,
+  } satisfies WorkflowServices);
+});
+
+describe("POST /api/run", () => {
+  it("runs the workflow and returns every node's output", async () => {
+    const response = await run(workflow(edges));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.outputs.generate).toMatchObject({ type: "nanoBanana", status: "complete", image: "image(a red fox)" });
+    expect(body.outputs.out).toEqual({ type: "output", image: "image(a red fox)" });
+  });
+
+  it("rejects invalid workflows without running them", async () => {
+    const response = await run(workflow(edges.slice(1)));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.errors).toEqual(['Generate node "generate" missing text input']);
+    expect(services.generateImage).not.toHaveBeenCalled();
+  });
+
+  it("reports the nodes that failed", async () => {
+    vi.mocked(services.generateImage).mockRejectedValue(new Error("Quota exceeded"));
+
+    const body = await (await run(workflow(edges))).json();
+
+    expect(body.success).toBe(false);
+    expect(body.errors).toEqual(["generate: Quota exceeded"]);
+  });
+});
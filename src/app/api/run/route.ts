@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { serverServices } from "@/lib/flows";
+import { getNodeOutput, runWorkflowFile, validateWorkflow } from "@/lib/workflowEngine";
+import { NodeOutput, RunWorkflowRequest, RunWorkflowResponse } from "@/types";
+
+export const maxDuration = 300; // 5 minute timeout
+export const dynamic = 'force-dynamic';
+
+// POST: Execute a workflow file server-side and return every node's output
+export async function POST(request: NextRequest) {
+  const runId = Math.random().toString(36).substring(7);
+
+  try {
+    const workflow: RunWorkflowRequest = await request.json();
+
+    if (!workflow || !workflow.version || !Array.isArray(workflow.nodes) || !Array.isArray(workflow.edges)) {
+      return NextResponse.json<RunWorkflowResponse>(
+        { success: false, error: "Invalid workflow file format" },
+        { status: 400 }
+      );
+    }
+
+    const { valid, errors } = validateWorkflow(workflow.nodes, workflow.edges);
+    if (!valid) {
+      return NextResponse.json<RunWorkflowResponse>(
+        { success: false, error: "Workflow is not valid", errors },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Run:${runId}] Executing workflow "${workflow.name}" (${workflow.nodes.length} nodes)`);
+
+    const { nodes, halted } = await runWorkflowFile(workflow, serverServices, {
+      // Stop generating if the caller disconnects
+      signal: request.signal,
+    });
+
+    const outputs: Record<string, NodeOutput> = {};
+    nodes.forEach((node) => {
+      outputs[node.id] = getNodeOutput(node);
+    });
+
+    const nodeErrors = Object.entries(outputs)
+      .filter(([, output]) => output.status === "error")
+      .map(([nodeId, output]) => `${nodeId}: ${output.error || "Failed"}`);
+
+    console.log(`[Run:${runId}] Finished${halted ? " with errors" : ""}`);
+
+    return NextResponse.json<RunWorkflowResponse>({
+      success: !halted,
+      outputs,
+      errors: nodeErrors.length > 0 ? nodeErrors : undefined,
+    });
+  } catch (error) {
+    console.error(`[Run:${runId}] Error:`, error);
+    return NextResponse.json<RunWorkflowResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Workflow run failed",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as fs from "fs/promises";
+import { createRun, findInterruptedRun, finishRun } from "@/lib/jobQueue";
+import { JobRunResponse } from "@/types";
+
+export const dynamic = 'force-dynamic';
+
+// POST: Start a new run for a workflow
+export async function POST(request: NextRequest) {
+  try {
+    const { directoryPath, workflowId, startFromNodeId, nodeIds } = await request.json();
+
+    if (!directoryPath || !workflowId) {
+      return NextResponse.json<JobRunResponse>(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    // Validate directory exists
+    try {
+      const stats = await fs.stat(directoryPath);
+      if (!stats.isDirectory()) {
+        return NextResponse.json<JobRunResponse>(
+          { success: false, error: "Path is not a directory" },
+          { status: 400 }
+        );
+      }
+    } catch {
+      return NextResponse.json<JobRunResponse>(
+        { success: false, error: "Directory does not exist" },
+        { status: 400 }
+      );
+    }
+
+    const runNodeIds = Array.isArray(nodeIds) && nodeIds.every((id) => typeof id === "string") ? nodeIds : null;
+    const run = await createRun(directoryPath, workflowId, startFromNodeId || null, runNodeIds);
+
+    return NextResponse.json<JobRunResponse>({ success: true, run });
+  } catch (error) {
+    console.error("Failed to create run:", error);
+    return NextResponse.json<JobRunResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to create run",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Mark a run as finished
+export async function PATCH(request: NextRequest) {
+  try {
+    const { directoryPath, runId } = await request.json();
+
+    if (!directoryPath || !runId) {
+      return NextResponse.json<JobRunResponse>(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const run = await finishRun(directoryPath, runId);
+    if (!run) {
+      return NextResponse.json<JobRunResponse>(
+        { success: false, error: "Run not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<JobRunResponse>({ success: true, run });
+  } catch (error) {
+    console.error("Failed to finish run:", error);
+    return NextResponse.json<JobRunResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to finish run",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// GET: Find the latest interrupted run of a workflow (run is null if there is none)
+export async function GET(request: NextRequest) {
+  const directoryPath = request.nextUrl.searchParams.get("directoryPath");
+  const workflowId = request.nextUrl.searchParams.get("workflowId");
+
+  if (!directoryPath || !workflowId) {
+    return NextResponse.json<JobRunResponse>(
+      { success: false, error: "directoryPath and workflowId parameters required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const run = await findInterruptedRun(directoryPath, workflowId);
+    return NextResponse.json<JobRunResponse>({ success: true, run });
+  } catch (error) {
+    console.error("Failed to find interrupted run:", error);
+    return NextResponse.json<JobRunResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to find run",
+      },
+      { status: 500 }
+    );
+  }
+}
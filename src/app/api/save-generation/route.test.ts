@@ -0,0 +1,42 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { POST } from "@/app/api/save-generation/route";
+
+let directoryPath: string;
+
+const save = async (body: Record<string, unknown>) => {
+  const response = await POST(new NextRequest("http://localhost/api/save-generation", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ directoryPath, ...body }),
+  }));
+  return response.json();
+};
+
+beforeEach(async () => {
+  directoryPath = await fs.mkdtemp(path.join(os.tmpdir(), "save-generation-"));
+});
+
+afterEach(async () => {
+  await fs.rm(directoryPath, { recursive: true, force: true });
+});
+
+describe("POST /api/save-generation", () => {
+  it("names the file after the data URL's image type", async () => {
+    const jpeg = await save({ image: "data:image/jpeg;base64,AAAA", filename: "row-1_out" });
+    const webp = await save({ image: "data:image/webp;base64,AAAA", prompt: "a red fox" });
+
+    expect(jpeg.filename).toBe("row-1_out.jpg");
+    expect(webp.filename).toMatch(/_a_red_fox\.webp$/);
+    expect(await fs.readFile(path.join(directoryPath, "row-1_out.jpg"))).toEqual(Buffer.from("AAAA", "base64"));
+  });
+
+  it("falls back to PNG for unknown or missing types", async () => {
+    expect((await save({ image: "data:image/png;base64,AAAA", filename: "a" })).filename).toBe("a.png");
+    expect((await save({ image: "data:image/x-unknown;base64,AAAA", filename: "b" })).filename).toBe("b.png");
+    expect((await save({ image: "AAAA", filename: "c" })).filename).toBe("c.png");
+  });
+});
@@ -2,10 +2,19 @@ import { NextRequest, NextResponse } from "next/server";
 import * as fs from "fs/promises";
 import * as path from "path";
 
+// File extension for each image type a data URL can carry (anything else is saved as PNG)
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  png: "png",
+  jpeg: "jpg",
+  jpg: "jpg",
+  webp: "webp",
+  gif: "gif",
+};
+
 // POST: Save a generated image to the generations folder
 export async function POST(request: NextRequest) {
   try {
-    const { directoryPath, image, prompt } = await request.json();
+    const { directoryPath, image, prompt, filename: requestedName } = await request.json();
 
     if (!directoryPath || !image) {
       return NextResponse.json(
@@ -30,21 +39,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate filename: timestamp + sanitized prompt snippet
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
-    const promptSnippet = prompt
-      ? prompt
-          .slice(0, 30)
-          .replace(/[^a-zA-Z0-9]/g, "_")
-          .replace(/_+/g, "_")
-          .replace(/^_|_$/g, "")
-          .toLowerCase()
-      : "generation";
-    const filename = `${timestamp}_${promptSnippet}.png`;
+    const imageType = /^data:image\/([\w+.-]+);/.exec(image)?.[1].toLowerCase() ?? "png";
+    const extension = IMAGE_EXTENSIONS[imageType] ?? "png";
+
+    // Use the requested name (batch runs) or timestamp + sanitized prompt snippet
+    let filename: string;
+    if (requestedName) {
+      filename = `${String(requestedName).replace(/[^a-zA-Z0-9-_]/g, "_")}.${extension}`;
+    } else {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+      const promptSnippet = prompt
+        ? prompt
+            .slice(0, 30)
+            .replace(/[^a-zA-Z0-9]/g, "_")
+            .replace(/_+/g, "_")
+            .replace(/^_|_$/g, "")
+            .toLowerCase()
+        : "generation";
+      filename = `${timestamp}_${promptSnippet}.${extension}`;
+    }
     const filePath = path.join(directoryPath, filename);
 
     // Extract base64 data and convert to buffer
-    const base64Data = image.replace(/^data:image\/\w+;base64,/, "");
+    const base64Data = image.replace(/^data:image\/[\w+.-]+;base64,/, "");
     const buffer = Buffer.from(base64Data, "base64");
 
     // Write the image file
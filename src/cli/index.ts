@@ -0,0 +1,39 @@
+/**
+ * Node Banana CLI
+ *
+ * Runs saved workflow files from the terminal:
+ *
+ *   node-banana run <workflow.json> [--set <nodeId>=<value>]... [--out <dir>]
+ *
+ * --set overrides a prompt node's text or points an image input node at a
+ * file on disk. Images reaching output nodes are written to the --out
+ * directory (default ./renders).
+ */
+
+import { USAGE, run } from "@/cli/run";
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case "run":
+      return run(args);
+    case undefined:
+    case "-h":
+    case "--help":
+      console.log(USAGE);
+      return command ? 0 : 1;
+    default:
+      console.error(`Unknown command: ${command}\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,76 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { run } from "@/cli/run";
+import { generateMockText } from "@/lib/mockProvider";
+import { WorkflowServices } from "@/lib/workflowEngine";
+
+const services = vi.hoisted(() => ({}) as WorkflowServices);
+
+vi.mock("@/lib/flows", () => ({ serverServices: services }));
+vi.mock("@next/env", () => ({ loadEnvConfig: () => {} }));
+
+const PIXEL = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+
+let dir: string;
+
+const writeWorkflow = async () => {
+  const workflowPath = path.join(dir, "fox.json");
+  await fs.writeFile(workflowPath, JSON.stringify({
+    version: 1,
+    name: "fox",
+    edgeStyle: "curved",
+    nodes: [
+      { id: "subject", type: "prompt", position: { x: 0, y: 0 }, data: { prompt: "a red fox" } },
+      { id: "generate", type: "nanoBanana", position: { x: 0, y: 0 }, data: { inputImages: [], inputPrompt: null, outputImage: null, aspectRatio: "1:1", resolution: "1K", model: "mock", useGoogleSearch: false, status: "idle", error: null } },
+      { id: "final", type: "output", position: { x: 0, y: 0 }, data: { image: null } },
+    ],
+    edges: [
+      { id: "e1", source: "subject", sourceHandle: "text", target: "generate", targetHandle: "text" },
+      { id: "e2", source: "generate", sourceHandle: "image", target: "final", targetHandle: "image" },
+    ],
+  }));
+  return workflowPath;
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "node-banana-cli-"));
+  Object.assign(services, {
+    generateImage: vi.fn(async () => PIXEL),
+    generateText: async (request) => generateMockText(request),
+    splitImage: async () => [],
+    flattenImage: async (image) => image,
+    exportImage: async (image) => image,
+  } satisfies WorkflowServices);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("node-banana run", () => {
+  it("runs the workflow with overrides and writes the output images", async () => {
+    const out = path.join(dir, "renders");
+
+    const code = await run([await writeWorkflow(), "--set", "subject=a grey wolf", "--out", out]);
+
+    expect(code).toBe(0);
+    expect(vi.mocked(services.generateImage).mock.calls[0][0].prompt).toBe("a grey wolf");
+    expect(await fs.readFile(path.join(out, "final.png"))).toEqual(Buffer.from(PIXEL.split(",")[1], "base64"));
+  });
+
+  it("exits with 1 when a node fails", async () => {
+    vi.mocked(services.generateImage).mockRejectedValue(new Error("Quota exceeded"));
+
+    expect(await run([await writeWorkflow(), "--out", path.join(dir, "renders")])).toBe(1);
+    expect(console.error).toHaveBeenCalledWith("  ! generate: Quota exceeded");
+  });
+
+  it("rejects overrides of nodes that aren't in the workflow", async () => {
+    await expect(run([await writeWorkflow(), "--set", "missing=x"])).rejects.toThrow('Node "missing" not found in workflow');
+  });
+});
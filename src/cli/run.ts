@@ -0,0 +1,154 @@
+/**
+ * CLI run command
+ *
+ * Loads a workflow file, applies --set overrides, runs it with the server
+ * services and writes the images that reach output nodes to disk.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parseArgs } from "util";
+import { loadEnvConfig } from "@next/env";
+import { runWorkflowFile, validateWorkflow } from "@/lib/workflowEngine";
+import {
+  ImageInputNodeData,
+  OutputNodeData,
+  PromptNodeData,
+  WorkflowFile,
+  WorkflowNode,
+} from "@/types";
+
+export const USAGE = `Usage: node-banana run <workflow.json> [options]
+
+Options:
+  --set <nodeId>=<value>  Override a prompt node's text or an image input node's file (repeatable)
+  --out <dir>             Directory for output images (default: ./renders)
+  -h, --help              Show this help`;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+// Split "prompt-3=a red fox" into node ID and value (the value may contain "=")
+const parseOverride = (override: string): { nodeId: string; value: string } => {
+  const index = override.indexOf("=");
+  if (index <= 0) {
+    throw new Error(`Invalid --set "${override}" - expected <nodeId>=<value>`);
+  }
+  return { nodeId: override.slice(0, index), value: override.slice(index + 1) };
+};
+
+const readImageAsDataUrl = async (filePath: string): Promise<string> => {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`Unsupported image type: ${filePath} (use PNG, JPEG or WebP)`);
+  }
+  const buffer = await fs.readFile(filePath);
+  return `data:${mimeType};base64,${buffer.toString("base64")}`;
+};
+
+const applyOverride = async (node: WorkflowNode, value: string) => {
+  switch (node.type) {
+    case "prompt":
+      (node.data as PromptNodeData).prompt = value;
+      break;
+    case "imageInput": {
+      const data = node.data as ImageInputNodeData;
+      data.image = await readImageAsDataUrl(path.resolve(value));
+      data.filename = path.basename(value);
+      data.dimensions = null;
+      break;
+    }
+    default:
+      throw new Error(`Node "${node.id}" (${node.type}) cannot be overridden - only prompt and imageInput nodes`);
+  }
+};
+
+// Write a data URL image to <dir>/<name>.<ext> and return the file path
+const writeImage = async (dir: string, name: string, image: string): Promise<string> => {
+  const match = image.match(/^data:image\/([^;]+);base64,(.+)$/);
+  if (!match) {
+    throw new Error(`Output "${name}" is not a base64 image`);
+  }
+  const extension = match[1] === "jpeg" ? "jpg" : match[1];
+  const filePath = path.join(dir, `${name}.${extension}`);
+  await fs.writeFile(filePath, Buffer.from(match[2], "base64"));
+  return filePath;
+};
+
+export async function run(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      set: { type: "string", multiple: true },
+      out: { type: "string", default: "./renders" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const workflowPath = path.resolve(positionals[0]);
+  const workflow: WorkflowFile = JSON.parse(await fs.readFile(workflowPath, "utf-8"));
+
+  if (!workflow || !workflow.version || !Array.isArray(workflow.nodes) || !Array.isArray(workflow.edges)) {
+    console.error(`Invalid workflow file format: ${workflowPath}`);
+    return 1;
+  }
+
+  for (const override of values.set || []) {
+    const { nodeId, value } = parseOverride(override);
+    const node = workflow.nodes.find((n) => n.id === nodeId);
+    if (!node) {
+      throw new Error(`Node "${nodeId}" not found in workflow`);
+    }
+    await applyOverride(node, value);
+  }
+
+  const { valid, errors } = validateWorkflow(workflow.nodes, workflow.edges);
+  if (!valid) {
+    console.error("Workflow is not valid:");
+    errors.forEach((error) => console.error(`  - ${error}`));
+    return 1;
+  }
+
+  // Load .env.local before the Genkit client reads GEMINI_API_KEY
+  loadEnvConfig(process.cwd(), false, { info: () => {}, error: console.error });
+  const { serverServices } = await import("@/lib/flows");
+
+  console.log(`Running "${workflow.name}" (${workflow.nodes.length} nodes)`);
+
+  const { nodes, halted } = await runWorkflowFile(workflow, serverServices, {
+    onNodeStart: (nodeId) => console.log(`  > ${nodeId}`),
+  });
+
+  nodes
+    .filter((node) => "status" in node.data && node.data.status === "error")
+    .forEach((node) => {
+      const error = "error" in node.data ? node.data.error : null;
+      console.error(`  ! ${node.id}: ${error || "Failed"}`);
+    });
+
+  const outDir = path.resolve(values.out);
+  await fs.mkdir(outDir, { recursive: true });
+
+  for (const node of nodes.filter((n) => n.type === "output")) {
+    const image = (node.data as OutputNodeData).image;
+    if (!image) continue;
+    const filePath = await writeImage(outDir, node.id, image);
+    console.log(`Saved ${path.relative(process.cwd(), filePath)}`);
+  }
+
+  return halted ? 1 : 0;
+}
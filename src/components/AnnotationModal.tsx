@@ -1,7 +1,7 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import { Stage, Layer, Image as KonvaImage, Rect, Ellipse, Arrow, Line, Text, Transformer } from "react-konva";
+import { Stage, Layer, Group, Image as KonvaImage, Rect, Ellipse, Circle, Arrow, Line, Text, Transformer } from "react-konva";
 import { useAnnotationStore } from "@/store/annotationStore";
 import { useWorkflowStore } from "@/store/workflowStore";
 import {
@@ -11,8 +11,31 @@ import {
   ArrowShape,
   FreehandShape,
   TextShape,
+  PolygonShape,
+  HighlighterShape,
+  RegionShape,
+  CalloutShape,
+  RegionEffect,
   ToolType,
+  MaskStroke,
+  MaskToolType,
+  AnnotationLayer,
+  AnnotationNodeData,
 } from "@/types";
+import { groupShapesByLayer } from "@/utils/annotationLayers";
+import { renderAnnotationOutputs } from "@/utils/annotationExport";
+import { getExportSettings } from "@/utils/annotationExportSettings";
+import { describeAnnotations } from "@/utils/annotationDescription";
+import {
+  HIGHLIGHTER_OPACITY,
+  HIGHLIGHTER_WIDTH_SCALE,
+  REGION_STRENGTH,
+  getCalloutFontSize,
+  getCalloutRadius,
+  getCalloutTextColor,
+  getNextCalloutNumber,
+  getRegionSource,
+} from "@/utils/annotationShapes";
 import Konva from "konva";
 
 const COLORS = [
@@ -28,6 +51,158 @@ const COLORS = [
 
 const STROKE_WIDTHS = [2, 4, 8];
 
+const MASK_BRUSH_SIZES = [16, 32, 64];
+
+// Mask areas are tinted over the image while editing
+const MASK_PREVIEW_COLOR = "#ec4899";
+
+// Screen distance within which a click closes the polygon being drawn
+const POLYGON_CLOSE_DISTANCE = 8;
+
+const REGION_EFFECTS: { effect: RegionEffect; label: string }[] = [
+  { effect: "blur", label: "Blur" },
+  { effect: "pixelate", label: "Pixelate" },
+];
+
+const ICON_PATHS = {
+  visible: "M2.036 12.322a1.012 1.012 0 010-.639C3.423 7.51 7.36 4.5 12 4.5c4.638 0 8.573 3.007 9.963 7.178.07.207.07.431 0 .639C20.577 16.49 16.64 19.5 12 19.5c-4.638 0-8.573-3.007-9.963-7.178zM15 12a3 3 0 11-6 0 3 3 0 016 0z",
+  hidden: "M3.98 8.223A10.477 10.477 0 001.934 12C3.226 16.338 7.244 19.5 12 19.5c.993 0 1.953-.138 2.863-.395M6.228 6.228A10.45 10.45 0 0112 4.5c4.756 0 8.773 3.162 10.065 7.498a10.523 10.523 0 01-4.293 5.774M6.228 6.228L3 3m3.228 3.228l3.65 3.65m7.894 7.894L21 21m-3.228-3.228l-3.65-3.65m0 0a3 3 0 10-4.243-4.243m4.242 4.242L9.88 9.88",
+  locked: "M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z",
+  unlocked: "M13.5 10.5V6.75a4.5 4.5 0 119 0v3.75M3.75 21.75h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H3.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z",
+  up: "M4.5 15.75l7.5-7.5 7.5 7.5",
+  down: "M19.5 8.25l-7.5 7.5-7.5-7.5",
+  delete: "M6 18L18 6M6 6l12 12",
+};
+
+const Icon = ({ path }: { path: string }) => (
+  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d={path} />
+  </svg>
+);
+
+interface LayersPanelProps {
+  layers: AnnotationLayer[];
+  activeLayerId: string;
+  onAdd: () => void;
+  onDelete: (id: string) => void;
+  onUpdate: (id: string, updates: Partial<Omit<AnnotationLayer, "id">>) => void;
+  onMove: (id: string, direction: "up" | "down") => void;
+  onSelect: (id: string) => void;
+}
+
+// Blurred or pixelated copy of the image under a region, re-cached when the region changes
+function RegionPatch({ region, image }: { region: RegionShape; image: HTMLImageElement }) {
+  const imageRef = useRef<Konva.Image>(null);
+  const source = getRegionSource(region, image.width, image.height);
+
+  useEffect(() => {
+    imageRef.current?.cache();
+    imageRef.current?.getLayer()?.batchDraw();
+  }, [image, region.x, region.y, region.width, region.height, region.effect, region.strength]);
+
+  if (source.width === 0 || source.height === 0) return null;
+  return (
+    <KonvaImage
+      ref={imageRef}
+      image={image}
+      x={source.x - region.x}
+      y={source.y - region.y}
+      width={source.width}
+      height={source.height}
+      crop={source}
+      filters={[region.effect === "blur" ? Konva.Filters.Blur : Konva.Filters.Pixelate]}
+      blurRadius={region.strength}
+      pixelSize={region.strength}
+    />
+  );
+}
+
+// Layer list, top layer first
+function LayersPanel({ layers, activeLayerId, onAdd, onDelete, onUpdate, onMove, onSelect }: LayersPanelProps) {
+  const iconButton = "w-5 h-5 shrink-0 flex items-center justify-center rounded text-neutral-500 hover:text-white disabled:opacity-30 disabled:hover:text-neutral-500";
+
+  return (
+    <div className="w-56 bg-neutral-900 border-l border-neutral-800 flex flex-col">
+      <div className="h-9 flex items-center justify-between px-3 border-b border-neutral-800">
+        <span className="text-[10px] text-neutral-500 uppercase tracking-wide">Layers</span>
+        <button onClick={onAdd} className="text-xs text-neutral-400 hover:text-white">+ Layer</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {[...layers].reverse().map((layer, index) => {
+          const isTop = index === 0;
+          const isBottom = index === layers.length - 1;
+          return (
+            <div
+              key={layer.id}
+              onClick={() => onSelect(layer.id)}
+              className={`px-2 py-1.5 border-b border-neutral-800 cursor-pointer ${
+                layer.id === activeLayerId ? "bg-neutral-800" : "hover:bg-neutral-800/50"
+              }`}
+            >
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { visible: !layer.visible }); }}
+                  className={iconButton}
+                  title={layer.visible ? "Hide layer" : "Show layer"}
+                >
+                  <Icon path={layer.visible ? ICON_PATHS.visible : ICON_PATHS.hidden} />
+                </button>
+                {/* Renames are committed on blur so typing doesn't fill the undo history */}
+                <input
+                  key={layer.name}
+                  defaultValue={layer.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== layer.name) onUpdate(layer.id, { name });
+                    else e.target.value = layer.name;
+                  }}
+                  onKeyDown={(e) => { if (e.key === "Enter") e.currentTarget.blur(); }}
+                  className={`flex-1 min-w-0 bg-transparent text-xs outline-none ${layer.visible ? "text-neutral-200" : "text-neutral-500"}`}
+                />
+                <button
+                  onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { locked: !layer.locked }); }}
+                  className={`${iconButton} ${layer.locked ? "text-amber-400" : ""}`}
+                  title={layer.locked ? "Unlock layer" : "Lock layer"}
+                >
+                  <Icon path={layer.locked ? ICON_PATHS.locked : ICON_PATHS.unlocked} />
+                </button>
+                <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, "up"); }} disabled={isTop} className={iconButton} title="Move up">
+                  <Icon path={ICON_PATHS.up} />
+                </button>
+                <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, "down"); }} disabled={isBottom} className={iconButton} title="Move down">
+                  <Icon path={ICON_PATHS.down} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(layer.id); }}
+                  disabled={layers.length <= 1}
+                  className={`${iconButton} hover:text-red-400`}
+                  title="Delete layer and its shapes"
+                >
+                  <Icon path={ICON_PATHS.delete} />
+                </button>
+              </div>
+              <div className="flex items-center gap-2 mt-1 pl-6">
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={layer.opacity}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => onUpdate(layer.id, { opacity: parseFloat(e.target.value) })}
+                  className="flex-1 h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400"
+                />
+                <span className="text-[9px] text-neutral-500 w-7 text-right">{Math.round(layer.opacity * 100)}%</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 export function AnnotationModal() {
   const {
     isModalOpen,
@@ -35,7 +210,12 @@ export function AnnotationModal() {
     sourceImage,
     annotations,
     selectedShapeId,
+    layers,
+    activeLayerId,
+    maskStrokes,
+    currentLayer,
     currentTool,
+    currentMaskTool,
     toolOptions,
     closeModal,
     addAnnotation,
@@ -43,7 +223,16 @@ export function AnnotationModal() {
     deleteAnnotation,
     clearAnnotations,
     selectShape,
+    addLayer,
+    deleteLayer,
+    updateLayer,
+    moveLayer,
+    setActiveLayer,
+    addMaskStroke,
+    clearMask,
+    setCurrentLayer,
     setCurrentTool,
+    setCurrentMaskTool,
     setToolOptions,
     undo,
     redo,
@@ -61,6 +250,7 @@ export function AnnotationModal() {
   const [isDrawing, setIsDrawing] = useState(false);
   const [drawStart, setDrawStart] = useState({ x: 0, y: 0 });
   const [currentShape, setCurrentShape] = useState<AnnotationShape | null>(null);
+  const [currentMaskStroke, setCurrentMaskStroke] = useState<MaskStroke | null>(null);
   const [editingTextId, setEditingTextId] = useState<string | null>(null);
   const [textInputPosition, setTextInputPosition] = useState<{ x: number; y: number } | null>(null);
   const [pendingTextPosition, setPendingTextPosition] = useState<{ x: number; y: number } | null>(null);
@@ -102,9 +292,32 @@ export function AnnotationModal() {
     }
   }, [selectedShapeId, currentTool]);
 
+  // Adds the polygon being drawn, without the corner following the cursor
+  const finishPolygon = useCallback(() => {
+    if (currentShape?.type !== "polygon") return;
+    const points = currentShape.points.slice(0, -2);
+    if (points.length >= 6) addAnnotation({ ...currentShape, points });
+    setCurrentShape(null);
+    setIsDrawing(false);
+  }, [currentShape, addAnnotation]);
+
+  // Switching tools drops a polygon that's still being drawn
+  useEffect(() => {
+    setCurrentShape(null);
+    setIsDrawing(false);
+  }, [currentTool, currentLayer]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!isModalOpen) return;
+      if (currentShape?.type === "polygon") {
+        if (e.key === "Enter") finishPolygon();
+        if (e.key === "Escape") {
+          setCurrentShape(null);
+          setIsDrawing(false);
+        }
+        return;
+      }
       if (e.key === "Delete" || e.key === "Backspace") {
         if (selectedShapeId && !editingTextId) {
           deleteAnnotation(selectedShapeId);
@@ -132,7 +345,7 @@ export function AnnotationModal() {
     };
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [isModalOpen, selectedShapeId, editingTextId, deleteAnnotation, closeModal, undo, redo]);
+  }, [isModalOpen, selectedShapeId, editingTextId, currentShape, finishPolygon, deleteAnnotation, closeModal, undo, redo]);
 
   const getRelativePointerPosition = useCallback(() => {
     const stage = stageRef.current;
@@ -145,6 +358,19 @@ export function AnnotationModal() {
 
   const handleMouseDown = useCallback(
     (e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (currentLayer === "mask") {
+        const pos = getRelativePointerPosition();
+        const id = `mask-${Date.now()}`;
+        setIsDrawing(true);
+        setDrawStart(pos);
+        setCurrentMaskStroke(
+          currentMaskTool === "rectangle"
+            ? { id, type: "rect", x: pos.x, y: pos.y, width: 0, height: 0 }
+            : { id, type: "line", erase: currentMaskTool === "eraser", points: [pos.x, pos.y], strokeWidth: toolOptions.maskBrushSize }
+        );
+        return;
+      }
+
       if (currentTool === "select") {
         const clickedOnEmpty = e.target === e.target.getStage() || e.target.getClassName() === "Image";
         if (clickedOnEmpty) {
@@ -153,7 +379,27 @@ export function AnnotationModal() {
         return;
       }
 
+      // Nothing can be drawn on a locked or hidden layer
+      const activeLayer = layers.find((layer) => layer.id === activeLayerId);
+      if (activeLayer && (activeLayer.locked || !activeLayer.visible)) return;
+
       const pos = getRelativePointerPosition();
+
+      // Clicks add polygon corners until the first or last corner is clicked again
+      if (currentShape?.type === "polygon") {
+        const corners = currentShape.points.slice(0, -2);
+        const local = { x: pos.x - currentShape.x, y: pos.y - currentShape.y };
+        const isNear = (i: number) =>
+          Math.hypot(corners[i] - local.x, corners[i + 1] - local.y) <= POLYGON_CLOSE_DISTANCE / scale;
+        const lastIndex = corners.length - 2;
+        if (isNear(0) || isNear(lastIndex)) {
+          if (corners.length >= 6) finishPolygon();
+        } else {
+          setCurrentShape({ ...currentShape, points: [...corners, local.x, local.y, local.x, local.y] });
+        }
+        return;
+      }
+
       setIsDrawing(true);
       setDrawStart(pos);
 
@@ -182,6 +428,39 @@ export function AnnotationModal() {
         case "freehand":
           newShape = { ...baseShape, type: "freehand", points: [0, 0] } as FreehandShape;
           break;
+        case "polygon":
+          newShape = { ...baseShape, type: "polygon", points: [0, 0, 0, 0], fill: toolOptions.fillColor } as PolygonShape;
+          break;
+        case "highlighter":
+          newShape = {
+            ...baseShape,
+            type: "highlighter",
+            points: [0, 0],
+            strokeWidth: toolOptions.strokeWidth * HIGHLIGHTER_WIDTH_SCALE,
+            opacity: toolOptions.opacity * HIGHLIGHTER_OPACITY,
+          } as HighlighterShape;
+          break;
+        case "region":
+          newShape = {
+            ...baseShape,
+            type: "region",
+            width: 0,
+            height: 0,
+            effect: toolOptions.regionEffect,
+            strength: REGION_STRENGTH[toolOptions.regionEffect],
+          } as RegionShape;
+          break;
+        case "callout":
+          // Placed with a single click
+          addAnnotation({
+            ...baseShape,
+            type: "callout",
+            number: getNextCalloutNumber(annotations),
+            radius: getCalloutRadius(toolOptions.strokeWidth),
+            fill: toolOptions.strokeColor,
+          } as CalloutShape);
+          setIsDrawing(false);
+          return;
         case "text": {
           // Calculate screen position for the input
           const stage = stageRef.current;
@@ -205,18 +484,35 @@ export function AnnotationModal() {
 
       if (newShape) setCurrentShape(newShape);
     },
-    [currentTool, toolOptions, getRelativePointerPosition, selectShape, addAnnotation, scale, position]
+    [currentLayer, currentMaskTool, currentTool, currentShape, toolOptions, annotations, layers, activeLayerId, getRelativePointerPosition, selectShape, addAnnotation, finishPolygon, scale, position]
   );
 
   const handleMouseMove = useCallback(() => {
+    if (isDrawing && currentMaskStroke) {
+      const pos = getRelativePointerPosition();
+      if (currentMaskStroke.type === "rect") {
+        setCurrentMaskStroke({
+          ...currentMaskStroke,
+          x: Math.min(pos.x, drawStart.x),
+          y: Math.min(pos.y, drawStart.y),
+          width: Math.abs(pos.x - drawStart.x),
+          height: Math.abs(pos.y - drawStart.y),
+        });
+      } else {
+        setCurrentMaskStroke({ ...currentMaskStroke, points: [...currentMaskStroke.points, pos.x, pos.y] });
+      }
+      return;
+    }
+
     if (!isDrawing || !currentShape) return;
     const pos = getRelativePointerPosition();
 
     switch (currentShape.type) {
-      case "rectangle": {
+      case "rectangle":
+      case "region": {
         const width = pos.x - drawStart.x;
         const height = pos.y - drawStart.y;
-        setCurrentShape({ ...currentShape, x: width < 0 ? pos.x : drawStart.x, y: height < 0 ? pos.y : drawStart.y, width: Math.abs(width), height: Math.abs(height) } as RectangleShape);
+        setCurrentShape({ ...currentShape, x: width < 0 ? pos.x : drawStart.x, y: height < 0 ? pos.y : drawStart.y, width: Math.abs(width), height: Math.abs(height) });
         break;
       }
       case "circle": {
@@ -228,22 +524,38 @@ export function AnnotationModal() {
       case "arrow":
         setCurrentShape({ ...currentShape, points: [0, 0, pos.x - drawStart.x, pos.y - drawStart.y] } as ArrowShape);
         break;
-      case "freehand": {
-        const freehand = currentShape as FreehandShape;
-        setCurrentShape({ ...freehand, points: [...freehand.points, pos.x - drawStart.x, pos.y - drawStart.y] } as FreehandShape);
+      case "freehand":
+      case "highlighter":
+        setCurrentShape({ ...currentShape, points: [...currentShape.points, pos.x - drawStart.x, pos.y - drawStart.y] });
+        break;
+      case "polygon":
+        // The last corner follows the cursor until the next click
+        setCurrentShape({ ...currentShape, points: [...currentShape.points.slice(0, -2), pos.x - currentShape.x, pos.y - currentShape.y] });
         break;
-      }
     }
-  }, [isDrawing, currentShape, drawStart, getRelativePointerPosition]);
+  }, [isDrawing, currentShape, currentMaskStroke, drawStart, getRelativePointerPosition]);
 
   const handleMouseUp = useCallback(() => {
-    if (!isDrawing || !currentShape) return;
+    if (isDrawing && currentMaskStroke) {
+      setIsDrawing(false);
+      // A click with the brush leaves a dot; a click with the rectangle leaves nothing
+      if (currentMaskStroke.type === "line") {
+        const { points } = currentMaskStroke;
+        addMaskStroke(points.length === 2 ? { ...currentMaskStroke, points: [...points, ...points] } : currentMaskStroke);
+      } else if (currentMaskStroke.width > 2 && currentMaskStroke.height > 2) {
+        addMaskStroke(currentMaskStroke);
+      }
+      setCurrentMaskStroke(null);
+      return;
+    }
+
+    // Polygons stay open until they're closed with a click or Enter
+    if (!isDrawing || !currentShape || currentShape.type === "polygon") return;
     setIsDrawing(false);
 
     let shouldAdd = true;
-    if (currentShape.type === "rectangle") {
-      const rect = currentShape as RectangleShape;
-      shouldAdd = rect.width > 5 && rect.height > 5;
+    if (currentShape.type === "rectangle" || currentShape.type === "region") {
+      shouldAdd = currentShape.width > 5 && currentShape.height > 5;
     } else if (currentShape.type === "circle") {
       const circle = currentShape as CircleShape;
       shouldAdd = circle.radiusX > 5 && circle.radiusY > 5;
@@ -256,7 +568,7 @@ export function AnnotationModal() {
 
     if (shouldAdd) addAnnotation(currentShape);
     setCurrentShape(null);
-  }, [isDrawing, currentShape, addAnnotation]);
+  }, [isDrawing, currentShape, currentMaskStroke, addAnnotation, addMaskStroke]);
 
   const handleWheel = useCallback((e: Konva.KonvaEventObject<WheelEvent>) => {
     e.evt.preventDefault();
@@ -266,73 +578,43 @@ export function AnnotationModal() {
     setScale(Math.min(Math.max(newScale, 0.1), 5));
   }, [scale]);
 
-  const flattenImage = useCallback((): string => {
-    const stage = stageRef.current;
-    if (!stage || !image) return "";
-
-    const tempStage = new Konva.Stage({
-      container: document.createElement("div"),
-      width: image.width,
-      height: image.height,
-    });
-
-    const tempLayer = new Konva.Layer();
-    tempStage.add(tempLayer);
-
-    const konvaImage = new Konva.Image({ image, width: image.width, height: image.height });
-    tempLayer.add(konvaImage);
-
-    annotations.forEach((shape) => {
-      let konvaShape: Konva.Shape | null = null;
-      switch (shape.type) {
-        case "rectangle": {
-          const rect = shape as RectangleShape;
-          konvaShape = new Konva.Rect({ x: rect.x, y: rect.y, width: rect.width, height: rect.height, stroke: rect.stroke, strokeWidth: rect.strokeWidth, fill: rect.fill || undefined, opacity: rect.opacity });
-          break;
-        }
-        case "circle": {
-          const circle = shape as CircleShape;
-          konvaShape = new Konva.Ellipse({ x: circle.x, y: circle.y, radiusX: circle.radiusX, radiusY: circle.radiusY, stroke: circle.stroke, strokeWidth: circle.strokeWidth, fill: circle.fill || undefined, opacity: circle.opacity });
-          break;
-        }
-        case "arrow": {
-          const arrow = shape as ArrowShape;
-          konvaShape = new Konva.Arrow({ x: arrow.x, y: arrow.y, points: arrow.points, stroke: arrow.stroke, strokeWidth: arrow.strokeWidth, fill: arrow.stroke, opacity: arrow.opacity });
-          break;
-        }
-        case "freehand": {
-          const freehand = shape as FreehandShape;
-          konvaShape = new Konva.Line({ x: freehand.x, y: freehand.y, points: freehand.points, stroke: freehand.stroke, strokeWidth: freehand.strokeWidth, opacity: freehand.opacity, lineCap: "round", lineJoin: "round" });
-          break;
-        }
-        case "text": {
-          const text = shape as TextShape;
-          konvaShape = new Konva.Text({ x: text.x, y: text.y, text: text.text, fontSize: text.fontSize, fill: text.fill, opacity: text.opacity });
-          break;
-        }
-      }
-      if (konvaShape) tempLayer.add(konvaShape);
-    });
-
-    tempLayer.draw();
-    const dataUrl = tempStage.toDataURL({ pixelRatio: 1 });
-    tempStage.destroy();
-    return dataUrl;
-  }, [image, annotations]);
-
   const handleDone = useCallback(() => {
-    if (!sourceNodeId) return;
-    const flattenedImage = flattenImage();
-    updateNodeData(sourceNodeId, { annotations, outputImage: flattenedImage });
+    if (!sourceNodeId || !image) return;
+    const node = useWorkflowStore.getState().nodes.find((n) => n.id === sourceNodeId);
+    const exportSettings = getExportSettings((node?.data as AnnotationNodeData | undefined)?.exportSettings);
+    updateNodeData(sourceNodeId, {
+      annotations,
+      layers,
+      maskStrokes,
+      ...renderAnnotationOutputs(image, annotations, layers, maskStrokes, exportSettings),
+      outputDescription: describeAnnotations(annotations, layers, image.width, image.height) || null,
+    });
     closeModal();
-  }, [sourceNodeId, annotations, flattenImage, updateNodeData, closeModal]);
+  }, [sourceNodeId, image, annotations, layers, maskStrokes, updateNodeData, closeModal]);
 
-  const renderShape = (shape: AnnotationShape, isPreview = false) => {
+  const renderMaskStroke = (stroke: MaskStroke) =>
+    stroke.type === "rect" ? (
+      <Rect key={stroke.id} x={stroke.x} y={stroke.y} width={stroke.width} height={stroke.height} fill={MASK_PREVIEW_COLOR} />
+    ) : (
+      <Line
+        key={stroke.id}
+        points={stroke.points}
+        stroke={MASK_PREVIEW_COLOR}
+        strokeWidth={stroke.strokeWidth}
+        lineCap="round"
+        lineJoin="round"
+        globalCompositeOperation={stroke.erase ? "destination-out" : "source-over"}
+      />
+    );
+
+  const renderShape = (shape: AnnotationShape, isPreview = false, locked = false) => {
+    const isEditable = currentLayer === "annotations" && currentTool === "select" && !locked;
     const commonProps = {
       id: shape.id,
       opacity: shape.opacity,
-      onClick: () => { if (currentTool === "select") selectShape(shape.id); },
-      draggable: currentTool === "select" && !isPreview,
+      listening: !locked,
+      onClick: () => { if (isEditable) selectShape(shape.id); },
+      draggable: isEditable && !isPreview,
       onDragEnd: (e: Konva.KonvaEventObject<DragEvent>) => { updateAnnotation(shape.id, { x: e.target.x(), y: e.target.y() }); },
     };
 
@@ -353,6 +635,39 @@ export function AnnotationModal() {
         const freehand = shape as FreehandShape;
         return <Line key={shape.id} {...commonProps} x={freehand.x} y={freehand.y} points={freehand.points} stroke={freehand.stroke} strokeWidth={freehand.strokeWidth} lineCap="round" lineJoin="round" />;
       }
+      case "highlighter":
+        return <Line key={shape.id} {...commonProps} x={shape.x} y={shape.y} points={shape.points} stroke={shape.stroke} strokeWidth={shape.strokeWidth} lineCap="round" lineJoin="round" />;
+      case "polygon":
+        return <Line key={shape.id} {...commonProps} x={shape.x} y={shape.y} points={shape.points} closed stroke={shape.stroke} strokeWidth={shape.strokeWidth} fill={shape.fill || undefined} lineJoin="round" />;
+      case "region":
+        return (
+          <Group key={shape.id} {...commonProps} x={shape.x} y={shape.y} clipX={0} clipY={0} clipWidth={shape.width} clipHeight={shape.height}>
+            {/* Only the outline while dragging out a region - blurring on every move is slow */}
+            {isPreview || !image ? (
+              <Rect width={shape.width} height={shape.height} stroke="#ffffff" strokeWidth={1 / scale} dash={[6 / scale, 4 / scale]} />
+            ) : (
+              <RegionPatch region={shape} image={image} />
+            )}
+          </Group>
+        );
+      case "callout":
+        return (
+          <Group key={shape.id} {...commonProps} x={shape.x} y={shape.y}>
+            <Circle radius={shape.radius} fill={shape.fill} />
+            <Text
+              x={-shape.radius}
+              y={-shape.radius}
+              width={shape.radius * 2}
+              height={shape.radius * 2}
+              text={String(shape.number)}
+              fontSize={getCalloutFontSize(shape)}
+              fontStyle="bold"
+              align="center"
+              verticalAlign="middle"
+              fill={getCalloutTextColor(shape.fill)}
+            />
+          </Group>
+        );
       case "text": {
         const text = shape as TextShape;
         return (
@@ -379,7 +694,7 @@ export function AnnotationModal() {
               });
             }}
             onDblClick={() => {
-              if (currentTool === "select") {
+              if (isEditable) {
                 const stage = stageRef.current;
                 if (stage) {
                   const stageBox = stage.container().getBoundingClientRect();
@@ -399,12 +714,22 @@ export function AnnotationModal() {
 
   if (!isModalOpen) return null;
 
+  const maskTools: { type: MaskToolType; label: string }[] = [
+    { type: "brush", label: "Brush" },
+    { type: "eraser", label: "Eraser" },
+    { type: "rectangle", label: "Rect" },
+  ];
+
   const tools: { type: ToolType; label: string }[] = [
     { type: "select", label: "Select" },
     { type: "rectangle", label: "Rect" },
     { type: "circle", label: "Circle" },
     { type: "arrow", label: "Arrow" },
     { type: "freehand", label: "Draw" },
+    { type: "polygon", label: "Polygon" },
+    { type: "highlighter", label: "Highlight" },
+    { type: "region", label: "Blur" },
+    { type: "callout", label: "Callout" },
     { type: "text", label: "Text" },
   ];
 
@@ -413,19 +738,52 @@ export function AnnotationModal() {
       {/* Top Bar */}
       <div className="h-14 bg-neutral-900 flex items-center justify-between px-4 border-b border-neutral-800">
         <div className="flex items-center gap-1.5">
-          {tools.map((tool) => (
-            <button
-              key={tool.type}
-              onClick={() => setCurrentTool(tool.type)}
-              className={`px-3.5 py-1.5 text-xs font-medium rounded transition-colors ${
-                currentTool === tool.type
-                  ? "bg-white text-neutral-900"
-                  : "text-neutral-400 hover:text-white"
-              }`}
-            >
-              {tool.label}
-            </button>
-          ))}
+          {/* Layer */}
+          <div className="flex items-center bg-neutral-800 rounded p-0.5">
+            {(["annotations", "mask"] as const).map((layer) => (
+              <button
+                key={layer}
+                onClick={() => setCurrentLayer(layer)}
+                className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
+                  currentLayer === layer
+                    ? "bg-neutral-600 text-white"
+                    : "text-neutral-400 hover:text-white"
+                }`}
+              >
+                {layer === "annotations" ? "Annotate" : "Mask"}
+              </button>
+            ))}
+          </div>
+
+          <div className="w-px h-6 bg-neutral-700 mx-3" />
+
+          {currentLayer === "mask"
+            ? maskTools.map((tool) => (
+                <button
+                  key={tool.type}
+                  onClick={() => setCurrentMaskTool(tool.type)}
+                  className={`px-3.5 py-1.5 text-xs font-medium rounded transition-colors ${
+                    currentMaskTool === tool.type
+                      ? "bg-white text-neutral-900"
+                      : "text-neutral-400 hover:text-white"
+                  }`}
+                >
+                  {tool.label}
+                </button>
+              ))
+            : tools.map((tool) => (
+                <button
+                  key={tool.type}
+                  onClick={() => setCurrentTool(tool.type)}
+                  className={`px-3.5 py-1.5 text-xs font-medium rounded transition-colors ${
+                    currentTool === tool.type
+                      ? "bg-white text-neutral-900"
+                      : "text-neutral-400 hover:text-white"
+                  }`}
+                >
+                  {tool.label}
+                </button>
+              ))}
 
           <div className="w-px h-6 bg-neutral-700 mx-3" />
 
@@ -434,7 +792,12 @@ export function AnnotationModal() {
 
           <div className="w-px h-6 bg-neutral-700 mx-3" />
 
-          <button onClick={clearAnnotations} className="px-3 py-1.5 text-xs text-neutral-400 hover:text-red-400">Clear</button>
+          <button
+            onClick={currentLayer === "mask" ? clearMask : clearAnnotations}
+            className="px-3 py-1.5 text-xs text-neutral-400 hover:text-red-400"
+          >
+            {currentLayer === "mask" ? "Clear mask" : "Clear"}
+          </button>
         </div>
 
         <div className="flex items-center gap-3">
@@ -447,79 +810,143 @@ export function AnnotationModal() {
         </div>
       </div>
 
-      {/* Canvas Container */}
-      <div ref={containerRef} className="flex-1 overflow-hidden bg-neutral-900">
-        <Stage
-          ref={stageRef}
-          width={containerRef.current?.clientWidth || 800}
-          height={containerRef.current?.clientHeight || 600}
-          scaleX={scale}
-          scaleY={scale}
-          x={position.x}
-          y={position.y}
-          draggable={currentTool === "select"}
-          onDragEnd={(e) => { if (e.target === stageRef.current) setPosition({ x: e.target.x(), y: e.target.y() }); }}
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
-          onWheel={handleWheel}
-        >
-          <Layer>
-            {image && <KonvaImage image={image} width={stageSize.width} height={stageSize.height} />}
-            {annotations.map((shape) => renderShape(shape))}
-            {currentShape && renderShape(currentShape, true)}
-            <Transformer ref={transformerRef} />
-          </Layer>
-        </Stage>
+      <div className="flex-1 flex min-h-0">
+        {/* Canvas Container */}
+        <div ref={containerRef} className="flex-1 overflow-hidden bg-neutral-900">
+          <Stage
+            ref={stageRef}
+            width={containerRef.current?.clientWidth || 800}
+            height={containerRef.current?.clientHeight || 600}
+            scaleX={scale}
+            scaleY={scale}
+            x={position.x}
+            y={position.y}
+            draggable={currentLayer === "annotations" && currentTool === "select"}
+            onDragEnd={(e) => { if (e.target === stageRef.current) setPosition({ x: e.target.x(), y: e.target.y() }); }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+            onWheel={handleWheel}
+          >
+            <Layer>
+              {image && <KonvaImage image={image} width={stageSize.width} height={stageSize.height} />}
+              {groupShapesByLayer(annotations, layers).map(({ layer, shapes }) => (
+                <Group key={layer.id} visible={layer.visible} opacity={layer.opacity}>
+                  {shapes.map((shape) => renderShape(shape, false, layer.locked))}
+                </Group>
+              ))}
+              {currentShape && renderShape(currentShape, true)}
+              <Transformer ref={transformerRef} />
+            </Layer>
+            {/* Mask on its own layer so the eraser only clears mask strokes */}
+            <Layer opacity={currentLayer === "mask" ? 0.55 : 0.3} listening={false}>
+              {maskStrokes.map(renderMaskStroke)}
+              {currentMaskStroke && renderMaskStroke(currentMaskStroke)}
+            </Layer>
+          </Stage>
+        </div>
+
+        {currentLayer === "annotations" && (
+          <LayersPanel
+            layers={layers}
+            activeLayerId={activeLayerId}
+            onAdd={addLayer}
+            onDelete={deleteLayer}
+            onUpdate={updateLayer}
+            onMove={moveLayer}
+            onSelect={setActiveLayer}
+          />
+        )}
       </div>
 
       {/* Bottom Options Bar */}
       <div className="h-14 bg-neutral-900 flex items-center justify-center gap-6 px-4 border-t border-neutral-800">
-        {/* Colors */}
-        <div className="flex items-center gap-2">
-          <span className="text-[10px] text-neutral-500 uppercase tracking-wide mr-1">Color</span>
-          {COLORS.map((color) => (
-            <button
-              key={color}
-              onClick={() => setToolOptions({ strokeColor: color })}
-              className={`w-6 h-6 rounded-full transition-transform ${
-                toolOptions.strokeColor === color ? "ring-2 ring-white ring-offset-2 ring-offset-neutral-900 scale-110" : "hover:scale-105"
-              }`}
-              style={{ backgroundColor: color }}
-            />
-          ))}
-        </div>
+        {currentLayer === "mask" ? (
+          /* Brush Size */
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] text-neutral-500 uppercase tracking-wide mr-1">Brush</span>
+            {MASK_BRUSH_SIZES.map((size) => (
+              <button
+                key={size}
+                onClick={() => setToolOptions({ maskBrushSize: size })}
+                className={`w-8 h-8 rounded flex items-center justify-center transition-colors ${
+                  toolOptions.maskBrushSize === size ? "bg-neutral-700" : "hover:bg-neutral-800"
+                }`}
+              >
+                <div className="bg-pink-500 rounded-full" style={{ width: size / 3, height: size / 3 }} />
+              </button>
+            ))}
+          </div>
+        ) : (
+          <>
+            {/* Colors */}
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-neutral-500 uppercase tracking-wide mr-1">Color</span>
+              {COLORS.map((color) => (
+                <button
+                  key={color}
+                  onClick={() => setToolOptions({ strokeColor: color })}
+                  className={`w-6 h-6 rounded-full transition-transform ${
+                    toolOptions.strokeColor === color ? "ring-2 ring-white ring-offset-2 ring-offset-neutral-900 scale-110" : "hover:scale-105"
+                  }`}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+
+            <div className="w-px h-6 bg-neutral-700" />
+
+            {/* Stroke Width */}
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-neutral-500 uppercase tracking-wide mr-1">Size</span>
+              {STROKE_WIDTHS.map((width) => (
+                <button
+                  key={width}
+                  onClick={() => setToolOptions({ strokeWidth: width })}
+                  className={`w-8 h-8 rounded flex items-center justify-center transition-colors ${
+                    toolOptions.strokeWidth === width ? "bg-neutral-700" : "hover:bg-neutral-800"
+                  }`}
+                >
+                  <div className="bg-white rounded-full" style={{ width: width * 1.5, height: width * 1.5 }} />
+                </button>
+              ))}
+            </div>
+
+            <div className="w-px h-6 bg-neutral-700" />
 
-        <div className="w-px h-6 bg-neutral-700" />
+            {/* Region Effect */}
+            {currentTool === "region" && (
+              <>
+                <div className="flex items-center gap-1">
+                  {REGION_EFFECTS.map(({ effect, label }) => (
+                    <button
+                      key={effect}
+                      onClick={() => setToolOptions({ regionEffect: effect })}
+                      className={`px-3 py-1.5 text-[10px] uppercase tracking-wide rounded transition-colors ${
+                        toolOptions.regionEffect === effect ? "bg-neutral-700 text-white" : "text-neutral-500 hover:text-white"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
 
-        {/* Stroke Width */}
-        <div className="flex items-center gap-2">
-          <span className="text-[10px] text-neutral-500 uppercase tracking-wide mr-1">Size</span>
-          {STROKE_WIDTHS.map((width) => (
+                <div className="w-px h-6 bg-neutral-700" />
+              </>
+            )}
+
+            {/* Fill Toggle */}
             <button
-              key={width}
-              onClick={() => setToolOptions({ strokeWidth: width })}
-              className={`w-8 h-8 rounded flex items-center justify-center transition-colors ${
-                toolOptions.strokeWidth === width ? "bg-neutral-700" : "hover:bg-neutral-800"
+              onClick={() => setToolOptions({ fillColor: toolOptions.fillColor ? null : toolOptions.strokeColor })}
+              className={`px-3 py-1.5 text-[10px] uppercase tracking-wide rounded transition-colors ${
+                toolOptions.fillColor ? "bg-neutral-700 text-white" : "text-neutral-500 hover:text-white"
               }`}
             >
-              <div className="bg-white rounded-full" style={{ width: width * 1.5, height: width * 1.5 }} />
+              Fill
             </button>
-          ))}
-        </div>
-
-        <div className="w-px h-6 bg-neutral-700" />
-
-        {/* Fill Toggle */}
-        <button
-          onClick={() => setToolOptions({ fillColor: toolOptions.fillColor ? null : toolOptions.strokeColor })}
-          className={`px-3 py-1.5 text-[10px] uppercase tracking-wide rounded transition-colors ${
-            toolOptions.fillColor ? "bg-neutral-700 text-white" : "text-neutral-500 hover:text-white"
-          }`}
-        >
-          Fill
-        </button>
+          </>
+        )}
 
         {/* Zoom */}
         <div className="flex items-center gap-2 ml-auto">
@@ -3,6 +3,9 @@
 import { useRef, useState, useEffect, useMemo } from "react";
 import { useWorkflowStore } from "@/store/workflowStore";
 import { NodeType } from "@/types";
+import { parseParameterRows } from "@/utils/parameterRows";
+import { useToast } from "./Toast";
+import { RunSettingsModal } from "./RunSettingsModal";
 import { useReactFlow } from "@xyflow/react";
 
 // Get the center of the React Flow pane in screen coordinates
@@ -147,16 +150,25 @@ export function FloatingActionBar() {
     isRunning,
     executeWorkflow,
     regenerateNode,
+    runChangedNodes,
+    staleNodeIds,
     stopWorkflow,
+    runBatch,
+    batchProgress,
     validateWorkflow,
     edgeStyle,
     setEdgeStyle,
   } = useWorkflowStore();
   const [runMenuOpen, setRunMenuOpen] = useState(false);
+  const [showRunSettings, setShowRunSettings] = useState(false);
   const runMenuRef = useRef<HTMLDivElement>(null);
+  const batchFileInputRef = useRef<HTMLInputElement>(null);
 
   const { valid, errors } = validateWorkflow();
 
+  // Batch runs stay active between rows while the next row's inputs load
+  const isActive = isRunning || batchProgress !== null;
+
   // Get the selected node (if exactly one is selected)
   const selectedNode = useMemo(() => {
     const selected = nodes.filter((n) => n.selected);
@@ -185,7 +197,7 @@ export function FloatingActionBar() {
   };
 
   const handleRunClick = () => {
-    if (isRunning) {
+    if (isActive) {
       stopWorkflow();
     } else {
       executeWorkflow();
@@ -199,6 +211,35 @@ export function FloatingActionBar() {
     }
   };
 
+  const handleBatchFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const rows = parseParameterRows(event.target?.result as string, file.name);
+        runBatch(rows);
+      } catch (error) {
+        useToast.getState().show(
+          `Failed to read parameter file: ${error instanceof Error ? error.message : "Unknown error"}`,
+          "error"
+        );
+      }
+    };
+    reader.readAsText(file);
+
+    // Reset input so same file can be loaded again
+    e.target.value = "";
+  };
+
+  const handleRunChanged = () => {
+    if (staleNodeIds.length > 0) {
+      runChangedNodes();
+      setRunMenuOpen(false);
+    }
+  };
+
   const handleRunSelectedOnly = () => {
     if (selectedNode) {
       regenerateNode(selectedNode.id);
@@ -207,152 +248,206 @@ export function FloatingActionBar() {
   };
 
   return (
-    <div className="fixed bottom-5 left-1/2 -translate-x-1/2 z-50">
-      <div className="flex items-center gap-0.5 bg-neutral-800/95 backdrop-blur-sm rounded-lg shadow-lg border border-neutral-700/80 px-1.5 py-1">
-        <NodeButton type="imageInput" label="Image" />
-        <NodeButton type="annotation" label="Annotate" />
-        <NodeButton type="prompt" label="Prompt" />
-        <GenerateComboButton />
-        <NodeButton type="output" label="Output" />
-
-        <div className="w-px h-5 bg-neutral-600 mx-1.5" />
-
-        <button
-          onClick={toggleEdgeStyle}
-          title={`Switch to ${edgeStyle === "angular" ? "curved" : "angular"} connectors`}
-          className="p-1.5 text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700 rounded transition-colors"
-        >
-          {edgeStyle === "angular" ? (
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M4 12h4l4-8 4 8h4" />
-            </svg>
-          ) : (
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M4 12c0 0 4-8 8-8s8 8 8 8" />
-            </svg>
-          )}
-        </button>
+    <>
+      {/* Rendered outside the bar - its transform would otherwise contain the fixed overlay */}
+      <RunSettingsModal isOpen={showRunSettings} onClose={() => setShowRunSettings(false)} />
+      <div className="fixed bottom-5 left-1/2 -translate-x-1/2 z-50">
+        <div className="flex items-center gap-0.5 bg-neutral-800/95 backdrop-blur-sm rounded-lg shadow-lg border border-neutral-700/80 px-1.5 py-1">
+          <NodeButton type="imageInput" label="Image" />
+          <NodeButton type="annotation" label="Annotate" />
+          <NodeButton type="prompt" label="Prompt" />
+          <GenerateComboButton />
+          <NodeButton type="condition" label="Condition" />
+          <NodeButton type="loop" label="Loop" />
+          <NodeButton type="output" label="Output" />
+
+          <div className="w-px h-5 bg-neutral-600 mx-1.5" />
 
-        <div className="w-px h-5 bg-neutral-600 mx-1.5" />
-
-        <div className="relative flex items-center" ref={runMenuRef}>
           <button
-            onClick={handleRunClick}
-            disabled={!valid && !isRunning}
-            title={!valid ? errors.join("\n") : isRunning ? "Stop" : "Run"}
-            className={`flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-medium transition-colors ${
-              isRunning
-                ? "bg-white text-neutral-900 hover:bg-neutral-200 rounded"
-                : valid
-                ? "bg-white text-neutral-900 hover:bg-neutral-200 rounded-l"
-                : "bg-neutral-700 text-neutral-500 cursor-not-allowed rounded"
-            }`}
+            onClick={toggleEdgeStyle}
+            title={`Switch to ${edgeStyle === "angular" ? "curved" : "angular"} connectors`}
+            className="p-1.5 text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700 rounded transition-colors"
           >
-            {isRunning ? (
-              <>
-                <svg
-                  className="w-3 h-3 animate-spin"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                >
-                  <circle
-                    className="opacity-25"
-                    cx="12"
-                    cy="12"
-                    r="10"
-                    stroke="currentColor"
-                    strokeWidth="3"
-                  />
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  />
-                </svg>
-                <span>Stop</span>
-              </>
+            {edgeStyle === "angular" ? (
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M4 12h4l4-8 4 8h4" />
+              </svg>
             ) : (
-              <>
-                <svg
-                  className="w-3 h-3"
-                  fill="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path d="M8 5v14l11-7z" />
-                </svg>
-                <span>Run</span>
-              </>
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M4 12c0 0 4-8 8-8s8 8 8 8" />
+              </svg>
             )}
           </button>
 
-          {/* Dropdown chevron button */}
-          {!isRunning && valid && (
+          <div className="w-px h-5 bg-neutral-600 mx-1.5" />
+
+          <div className="relative flex items-center" ref={runMenuRef}>
+            <input
+              ref={batchFileInputRef}
+              type="file"
+              accept=".csv,.json"
+              onChange={handleBatchFileChange}
+              className="hidden"
+            />
             <button
-              onClick={() => setRunMenuOpen(!runMenuOpen)}
-              className="flex items-center self-stretch px-1.5 rounded-r bg-white text-neutral-900 hover:bg-neutral-200 border-l border-neutral-200 transition-colors"
-              title="Run options"
+              onClick={handleRunClick}
+              disabled={!valid && !isActive}
+              title={!valid ? errors.join("\n") : isActive ? "Stop" : "Run"}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-medium transition-colors ${
+                isActive
+                  ? "bg-white text-neutral-900 hover:bg-neutral-200 rounded"
+                  : valid
+                  ? "bg-white text-neutral-900 hover:bg-neutral-200 rounded-l"
+                  : "bg-neutral-700 text-neutral-500 cursor-not-allowed rounded"
+              }`}
             >
-              <svg
-                className={`w-2.5 h-2.5 transition-transform ${runMenuOpen ? "rotate-180" : ""}`}
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
-                strokeWidth={2.5}
-              >
-                <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
-              </svg>
+              {isActive ? (
+                <>
+                  <svg
+                    className="w-3 h-3 animate-spin"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="3"
+                    />
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    />
+                  </svg>
+                  <span>{batchProgress ? `Stop (${batchProgress.current}/${batchProgress.total})` : "Stop"}</span>
+                </>
+              ) : (
+                <>
+                  <svg
+                    className="w-3 h-3"
+                    fill="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path d="M8 5v14l11-7z" />
+                  </svg>
+                  <span>Run</span>
+                </>
+              )}
             </button>
-          )}
 
-          {/* Dropdown menu */}
-          {runMenuOpen && !isRunning && (
-            <div className="absolute bottom-full right-0 mb-2 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl overflow-hidden min-w-[180px]">
+            {/* Dropdown chevron button */}
+            {!isActive && valid && (
               <button
-                onClick={() => {
-                  executeWorkflow();
-                  setRunMenuOpen(false);
-                }}
-                className="w-full px-3 py-2 text-left text-[11px] font-medium text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100 transition-colors flex items-center gap-2"
+                onClick={() => setRunMenuOpen(!runMenuOpen)}
+                className="flex items-center self-stretch px-1.5 rounded-r bg-white text-neutral-900 hover:bg-neutral-200 border-l border-neutral-200 transition-colors"
+                title="Run options"
               >
-                <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M8 5v14l11-7z" />
-                </svg>
-                Run entire workflow
-              </button>
-              <button
-                onClick={handleRunFromSelected}
-                disabled={!selectedNode}
-                className={`w-full px-3 py-2 text-left text-[11px] font-medium transition-colors flex items-center gap-2 ${
-                  selectedNode
-                    ? "text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100"
-                    : "text-neutral-500 cursor-not-allowed"
-                }`}
-                title={!selectedNode ? "Select a single node first" : undefined}
-              >
-                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M13 5l7 7-7 7M5 5l7 7-7 7" />
-                </svg>
-                Run from selected node
-              </button>
-              <button
-                onClick={handleRunSelectedOnly}
-                disabled={!selectedNode}
-                className={`w-full px-3 py-2 text-left text-[11px] font-medium transition-colors flex items-center gap-2 ${
-                  selectedNode
-                    ? "text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100"
-                    : "text-neutral-500 cursor-not-allowed"
-                }`}
-                title={!selectedNode ? "Select a single node first" : undefined}
-              >
-                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 010 1.972l-11.54 6.347a1.125 1.125 0 01-1.667-.986V5.653z" />
+                <svg
+                  className={`w-2.5 h-2.5 transition-transform ${runMenuOpen ? "rotate-180" : ""}`}
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  strokeWidth={2.5}
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
                 </svg>
-                Run selected node only
               </button>
-            </div>
-          )}
+            )}
+
+            {/* Dropdown menu */}
+            {runMenuOpen && !isActive && (
+              <div className="absolute bottom-full right-0 mb-2 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl overflow-hidden min-w-[180px]">
+                <button
+                  onClick={() => {
+                    executeWorkflow();
+                    setRunMenuOpen(false);
+                  }}
+                  className="w-full px-3 py-2 text-left text-[11px] font-medium text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100 transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M8 5v14l11-7z" />
+                  </svg>
+                  Run entire workflow
+                </button>
+                <button
+                  onClick={handleRunChanged}
+                  disabled={staleNodeIds.length === 0}
+                  className={`w-full px-3 py-2 text-left text-[11px] font-medium transition-colors flex items-center gap-2 ${
+                    staleNodeIds.length > 0
+                      ? "text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100"
+                      : "text-neutral-500 cursor-not-allowed"
+                  }`}
+                  title={staleNodeIds.length === 0 ? "Nothing has changed since the last run" : "Run changed nodes and everything downstream of them"}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+                  </svg>
+                  Run changed nodes{staleNodeIds.length > 0 ? ` (${staleNodeIds.length})` : ""}
+                </button>
+                <button
+                  onClick={handleRunFromSelected}
+                  disabled={!selectedNode}
+                  className={`w-full px-3 py-2 text-left text-[11px] font-medium transition-colors flex items-center gap-2 ${
+                    selectedNode
+                      ? "text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100"
+                      : "text-neutral-500 cursor-not-allowed"
+                  }`}
+                  title={!selectedNode ? "Select a single node first" : undefined}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+                  </svg>
+                  Run from selected node
+                </button>
+                <button
+                  onClick={handleRunSelectedOnly}
+                  disabled={!selectedNode}
+                  className={`w-full px-3 py-2 text-left text-[11px] font-medium transition-colors flex items-center gap-2 ${
+                    selectedNode
+                      ? "text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100"
+                      : "text-neutral-500 cursor-not-allowed"
+                  }`}
+                  title={!selectedNode ? "Select a single node first" : undefined}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 010 1.972l-11.54 6.347a1.125 1.125 0 01-1.667-.986V5.653z" />
+                  </svg>
+                  Run selected node only
+                </button>
+                <button
+                  onClick={() => {
+                    batchFileInputRef.current?.click();
+                    setRunMenuOpen(false);
+                  }}
+                  className="w-full px-3 py-2 text-left text-[11px] font-medium text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100 transition-colors flex items-center gap-2"
+                  title="Run once per row of a CSV or JSON parameter file"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6.75h16.5M3.75 12h16.5m-16.5 5.25h16.5" />
+                  </svg>
+                  Run batch from file...
+                </button>
+                <div className="h-px bg-neutral-700" />
+                <button
+                  onClick={() => {
+                    setShowRunSettings(true);
+                    setRunMenuOpen(false);
+                  }}
+                  className="w-full px-3 py-2 text-left text-[11px] font-medium text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100 transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 11-3 0m3 0a1.5 1.5 0 10-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-9.75 0h9.75" />
+                  </svg>
+                  Run settings...
+                </button>
+              </div>
+            )}
+          </div>
         </div>
       </div>
-    </div>
+    </>
   );
 }
@@ -4,6 +4,7 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import { createPortal } from "react-dom";
 import { useWorkflowStore } from "@/store/workflowStore";
 import { ImageHistoryItem } from "@/types";
+import { getImageModel } from "@/lib/imageProviders";
 
 // Helper function for relative time display
 function formatRelativeTime(timestamp: number): string {
@@ -185,7 +186,7 @@ function HistorySidebar({
                 {item.prompt?.substring(0, 60) || "No prompt"}
               </p>
               <p className="text-[10px] text-neutral-500 mt-0.5">
-                {formatRelativeTime(item.timestamp)} · {item.model === "nano-banana-pro" ? "Pro" : "Standard"}
+                {formatRelativeTime(item.timestamp)} · {getImageModel(item.model)?.label ?? item.model}
               </p>
             </div>
           </div>
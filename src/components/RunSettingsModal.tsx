@@ -0,0 +1,209 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { DEFAULT_RETRY_POLICY } from "@/lib/retry";
+import { DEFAULT_OPENAI_COMPATIBLE_BASE_URL } from "@/lib/llmProviders";
+
+interface RunSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PROVIDERS = [
+  { id: "google", label: "Google" },
+  { id: "openai", label: "OpenAI" },
+  { id: "anthropic", label: "Anthropic" },
+  { id: "local", label: "Local" },
+];
+
+const inputClassName =
+  "w-full px-3 py-2 bg-neutral-900 border border-neutral-600 rounded text-neutral-100 text-sm focus:outline-none focus:border-neutral-500";
+
+export function RunSettingsModal({ isOpen, onClose }: RunSettingsModalProps) {
+  const {
+    retryPolicy,
+    setRetryPolicy,
+    concurrencyLimits,
+    setConcurrencyLimit,
+    llmProviderSettings,
+    setLLMProviderSettings,
+  } = useWorkflowStore();
+
+  const [maxAttempts, setMaxAttempts] = useState("");
+  const [baseDelay, setBaseDelay] = useState("");
+  const [maxDelay, setMaxDelay] = useState("");
+  const [jitter, setJitter] = useState("");
+  const [retryOn, setRetryOn] = useState("");
+  const [limits, setLimits] = useState<Record<string, string>>({});
+  const [localBaseUrl, setLocalBaseUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Pre-fill from the store each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setMaxAttempts(String(retryPolicy.maxAttempts));
+    setBaseDelay(String(retryPolicy.baseDelayMs / 1000));
+    setMaxDelay(String(retryPolicy.maxDelayMs / 1000));
+    setJitter(String(Math.round(retryPolicy.jitter * 100)));
+    setRetryOn(retryPolicy.retryOn.join(", "));
+    setLimits(
+      Object.fromEntries(PROVIDERS.map(({ id }) => [id, String(concurrencyLimits[id] ?? "")]))
+    );
+    setLocalBaseUrl(llmProviderSettings.openaiCompatibleBaseUrl);
+    setError(null);
+  }, [isOpen, retryPolicy, concurrencyLimits, llmProviderSettings]);
+
+  const handleSave = () => {
+    const codes = retryOn
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map((code) => parseInt(code, 10));
+    if (codes.some((code) => isNaN(code) || code < 400 || code > 599)) {
+      setError("Retry codes must be HTTP status codes between 400 and 599");
+      return;
+    }
+
+    const numbers = [maxAttempts, baseDelay, maxDelay, jitter, ...Object.values(limits)].map(Number);
+    if (numbers.some((value) => isNaN(value) || value < 0)) {
+      setError("Settings must be positive numbers");
+      return;
+    }
+
+    if (localBaseUrl.trim() && !/^https?:\/\/\S+$/.test(localBaseUrl.trim())) {
+      setError("Local LLM server must be an http(s) URL");
+      return;
+    }
+
+    setRetryPolicy({
+      maxAttempts: Number(maxAttempts),
+      baseDelayMs: Number(baseDelay) * 1000,
+      maxDelayMs: Number(maxDelay) * 1000,
+      jitter: Number(jitter) / 100,
+      retryOn: codes,
+    });
+    Object.entries(limits).forEach(([provider, limit]) => {
+      if (limit) setConcurrencyLimit(provider, Number(limit));
+    });
+    setLLMProviderSettings({ openaiCompatibleBaseUrl: localBaseUrl.trim() });
+    onClose();
+  };
+
+  const handleReset = () => {
+    setMaxAttempts(String(DEFAULT_RETRY_POLICY.maxAttempts));
+    setBaseDelay(String(DEFAULT_RETRY_POLICY.baseDelayMs / 1000));
+    setMaxDelay(String(DEFAULT_RETRY_POLICY.maxDelayMs / 1000));
+    setJitter(String(Math.round(DEFAULT_RETRY_POLICY.jitter * 100)));
+    setRetryOn(DEFAULT_RETRY_POLICY.retryOn.join(", "));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      handleSave();
+    }
+    if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50">
+      <div
+        className="bg-neutral-800 rounded-lg p-6 w-[480px] border border-neutral-700 shadow-xl"
+        onKeyDown={handleKeyDown}
+      >
+        <h2 className="text-lg font-semibold text-neutral-100 mb-4">Run Settings</h2>
+
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-sm font-medium text-neutral-300 mb-2">Retries</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm text-neutral-400 mb-1">Max attempts</label>
+                <input type="number" min={1} max={10} value={maxAttempts} onChange={(e) => setMaxAttempts(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label className="block text-sm text-neutral-400 mb-1">Jitter (%)</label>
+                <input type="number" min={0} max={100} value={jitter} onChange={(e) => setJitter(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label className="block text-sm text-neutral-400 mb-1">First retry delay (s)</label>
+                <input type="number" min={0} step={0.5} value={baseDelay} onChange={(e) => setBaseDelay(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label className="block text-sm text-neutral-400 mb-1">Max delay (s)</label>
+                <input type="number" min={0} value={maxDelay} onChange={(e) => setMaxDelay(e.target.value)} className={inputClassName} />
+              </div>
+            </div>
+            <div className="mt-3">
+              <label className="block text-sm text-neutral-400 mb-1">Retry on status codes</label>
+              <input type="text" value={retryOn} onChange={(e) => setRetryOn(e.target.value)} placeholder="429, 500, 503" className={inputClassName} />
+              <p className="text-xs text-neutral-500 mt-1">
+                The delay doubles after each failed attempt
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-neutral-300 mb-2">Parallel requests per provider</h3>
+            <div className="grid grid-cols-2 gap-3">
+              {PROVIDERS.map(({ id, label }) => (
+                <div key={id}>
+                  <label className="block text-sm text-neutral-400 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={limits[id] ?? ""}
+                    onChange={(e) => setLimits((current) => ({ ...current, [id]: e.target.value }))}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-neutral-300 mb-2">Local LLM server</h3>
+            <input
+              type="text"
+              value={localBaseUrl}
+              onChange={(e) => setLocalBaseUrl(e.target.value)}
+              placeholder={DEFAULT_OPENAI_COMPATIBLE_BASE_URL}
+              className={inputClassName}
+            />
+            <p className="text-xs text-neutral-500 mt-1">
+              Base URL of an OpenAI-compatible API such as Ollama, LM Studio or vLLM. Leave empty for the server default
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex justify-between gap-2 mt-6">
+          <button
+            onClick={handleReset}
+            className="px-4 py-2 text-sm text-neutral-400 hover:text-neutral-100 transition-colors"
+          >
+            Reset retries
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-neutral-400 hover:text-neutral-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 text-sm bg-white text-neutral-900 rounded hover:bg-neutral-200 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -24,6 +24,8 @@ import {
   NanoBananaNode,
   LLMGenerateNode,
   SplitGridNode,
+  ConditionNode,
+  LoopNode,
   OutputNode,
 } from "./nodes";
 import { EditableEdge, ReferenceEdge } from "./edges";
@@ -32,8 +34,11 @@ import { MultiSelectToolbar } from "./MultiSelectToolbar";
 import { EdgeToolbar } from "./EdgeToolbar";
 import { GlobalImageHistory } from "./GlobalImageHistory";
 import { GroupBackgroundsPortal, GroupControlsOverlay } from "./GroupsOverlay";
-import { NodeType, NanoBananaNodeData } from "@/types";
+import { NodeType, NanoBananaNodeData, HandleType } from "@/types";
 import { detectAndSplitGrid } from "@/utils/gridSplitter";
+import { getTemplateVariableName } from "@/utils/promptTemplate";
+import { getOutputFieldName } from "@/utils/structuredOutput";
+import { getLayerIdFromHandle } from "@/utils/annotationLayers";
 
 const nodeTypes: NodeTypes = {
   imageInput: ImageInputNode,
@@ -42,6 +47,8 @@ const nodeTypes: NodeTypes = {
   nanoBanana: NanoBananaNode,
   llmGenerate: LLMGenerateNode,
   splitGrid: SplitGridNode,
+  condition: ConditionNode,
+  loop: LoopNode,
   output: OutputNode,
 };
 
@@ -50,20 +57,39 @@ const edgeTypes: EdgeTypes = {
   reference: ReferenceEdge,
 };
 
+// Data type carried by a handle - condition branch outputs pass text through,
+// a loop's body and feedback handles carry the image being refined, annotation
+// overlays, layers ("layer:<id>") and masks are images,
+// prompt template inputs ("text:<name>") take text, and LLM field outputs
+// ("field:<name>") give it
+const getHandleDataType = (handleId: string | null | undefined): HandleType | null => {
+  if (handleId === "image" || handleId === "body" || handleId === "feedback" || handleId === "mask") return "image";
+  if (handleId === "overlay" || getLayerIdFromHandle(handleId)) return "image";
+  if (handleId === "text" || handleId === "true" || handleId === "false") return "text";
+  if (getTemplateVariableName(handleId) || getOutputFieldName(handleId)) return "text";
+  return null;
+};
+
 // Connection validation rules
 // - Image handles (green) can only connect to image handles
 // - Text handles (blue) can only connect to text handles
-// - NanoBanana image input accepts multiple connections
+// - A loop's stop input only accepts a condition branch
+// - NanoBanana and LLM Generate image inputs accept multiple connections
+// - Text inputs accept multiple connections, joined in connection order
 // - All other inputs accept only one connection
 const isValidConnection = (connection: Edge | Connection): boolean => {
-  const sourceHandle = connection.sourceHandle;
-  const targetHandle = connection.targetHandle;
+  const sourceType = getHandleDataType(connection.sourceHandle);
+  const targetType = getHandleDataType(connection.targetHandle);
+
+  if (connection.targetHandle === "stop") {
+    return connection.sourceHandle === "true" || connection.sourceHandle === "false";
+  }
 
   // Strict type matching: image <-> image, text <-> text
-  if (sourceHandle === "image" && targetHandle !== "image") {
+  if (sourceType === "image" && targetType !== "image") {
     return false;
   }
-  if (sourceHandle === "text" && targetHandle !== "text") {
+  if (sourceType === "text" && targetType !== "text") {
     return false;
   }
 
@@ -76,15 +102,19 @@ const getNodeHandles = (nodeType: string): { inputs: string[]; outputs: string[]
     case "imageInput":
       return { inputs: ["reference"], outputs: ["image"] };
     case "annotation":
-      return { inputs: ["image"], outputs: ["image"] };
+      return { inputs: ["image"], outputs: ["image", "overlay", "mask", "text"] };
     case "prompt":
       return { inputs: [], outputs: ["text"] };
     case "nanoBanana":
-      return { inputs: ["image", "text"], outputs: ["image"] };
+      return { inputs: ["image", "text", "mask"], outputs: ["image"] };
     case "llmGenerate":
       return { inputs: ["text", "image"], outputs: ["text"] };
     case "splitGrid":
       return { inputs: ["image"], outputs: ["reference"] };
+    case "condition":
+      return { inputs: ["text"], outputs: ["true", "false"] };
+    case "loop":
+      return { inputs: ["image", "feedback", "stop"], outputs: ["body", "image"] };
     case "output":
       return { inputs: ["image"], outputs: [] };
     default:
@@ -278,7 +308,7 @@ export function WorkflowCanvas() {
 
       const { clientX, clientY } = event as MouseEvent;
       const fromHandleId = connectionState.fromHandle?.id || null;
-      const fromHandleType = (fromHandleId === "image" || fromHandleId === "text") ? fromHandleId : null;
+      const fromHandleType = getHandleDataType(fromHandleId);
       const isFromSource = connectionState.fromHandle?.type === "source";
 
       // Check if we dropped on a node by looking for node elements under the cursor
@@ -492,7 +522,7 @@ export function WorkflowCanvas() {
       if (handleType === "image") {
         if (nodeType === "annotation" || nodeType === "output" || nodeType === "splitGrid") {
           targetHandleId = "image";
-        } else if (nodeType === "nanoBanana") {
+        } else if (nodeType === "nanoBanana" || nodeType === "llmGenerate" || nodeType === "loop") {
           targetHandleId = "image";
         } else if (nodeType === "imageInput") {
           sourceHandleIdForNewNode = "image";
@@ -506,6 +536,9 @@ export function WorkflowCanvas() {
           }
         } else if (nodeType === "prompt") {
           sourceHandleIdForNewNode = "text";
+        } else if (nodeType === "condition") {
+          targetHandleId = "text";
+          sourceHandleIdForNewNode = "true";
         }
       }
 
@@ -682,6 +715,8 @@ export function WorkflowCanvas() {
             nanoBanana: { width: 300, height: 300 },
             llmGenerate: { width: 320, height: 360 },
             splitGrid: { width: 300, height: 320 },
+            condition: { width: 300, height: 260 },
+            loop: { width: 300, height: 300 },
             output: { width: 320, height: 320 },
           };
           const dims = defaultDimensions[nodeType];
@@ -1087,6 +1122,10 @@ export function WorkflowCanvas() {
                 return "#06b6d4";
               case "splitGrid":
                 return "#f59e0b";
+              case "condition":
+                return "#ec4899";
+              case "loop":
+                return "#a3e635";
               case "output":
                 return "#ef4444";
               default:
@@ -1,11 +1,23 @@
 "use client";
 
-import { useCallback, useRef } from "react";
-import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { useCallback, useEffect, useRef } from "react";
+import { Handle, Position, NodeProps, Node, useUpdateNodeInternals } from "@xyflow/react";
 import { BaseNode } from "./BaseNode";
 import { useAnnotationStore } from "@/store/annotationStore";
 import { useWorkflowStore } from "@/store/workflowStore";
-import { AnnotationNodeData } from "@/types";
+import { AnnotationExportSettings, AnnotationNodeData, ExportFormat } from "@/types";
+import { getAnnotationLayers, getLayerHandleId } from "@/utils/annotationLayers";
+import { loadImage, renderAnnotationOutputs } from "@/utils/annotationExport";
+import {
+  EXPORT_FORMATS,
+  EXPORT_MAX_DIMENSIONS,
+  EXPORT_QUALITIES,
+  EXPORT_SCALES,
+  getExportSettings,
+} from "@/utils/annotationExportSettings";
+
+const selectClassName =
+  "text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300";
 
 type AnnotationNodeType = Node<AnnotationNodeData, "annotation">;
 
@@ -14,6 +26,24 @@ export function AnnotationNode({ id, data, selected }: NodeProps<AnnotationNodeT
   const openModal = useAnnotationStore((state) => state.openModal);
   const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  // Composite image, overlay, each layer once there's more than one, the mask,
+  // then the text description
+  const layers = nodeData.layers ?? [];
+  const outputs = [
+    { id: "image", label: null, type: "image" },
+    { id: "overlay", label: "overlay", type: "image" },
+    ...(layers.length > 1
+      ? [...layers].reverse().map((layer) => ({ id: getLayerHandleId(layer.id), label: layer.name, type: "image" }))
+      : []),
+    { id: "mask", label: "mask", type: "image" },
+    { id: "text", label: "description", type: "text" },
+  ];
+  const outputsKey = outputs.map((output) => output.id).join("|");
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, outputsKey, updateNodeInternals]);
 
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -37,6 +67,12 @@ export function AnnotationNode({ id, data, selected }: NodeProps<AnnotationNodeT
           sourceImage: base64,
           outputImage: null,
           annotations: [],
+          layers: [],
+          outputOverlay: null,
+          layerImages: null,
+          maskStrokes: [],
+          outputMask: null,
+          outputDescription: null,
         });
       };
       reader.readAsDataURL(file);
@@ -73,7 +109,7 @@ export function AnnotationNode({ id, data, selected }: NodeProps<AnnotationNodeT
       alert("No image available. Connect an image or load one manually.");
       return;
     }
-    openModal(id, imageToEdit, nodeData.annotations);
+    openModal(id, imageToEdit, nodeData.annotations, nodeData.maskStrokes, nodeData.layers);
   }, [id, nodeData, openModal]);
 
   const handleRemove = useCallback(() => {
@@ -81,9 +117,37 @@ export function AnnotationNode({ id, data, selected }: NodeProps<AnnotationNodeT
       sourceImage: null,
       outputImage: null,
       annotations: [],
+      layers: [],
+      outputOverlay: null,
+      layerImages: null,
+      maskStrokes: [],
+      outputMask: null,
+      outputDescription: null,
     });
   }, [id, updateNodeData]);
 
+  const exportSettings = getExportSettings(nodeData.exportSettings);
+
+  const handleExportChange = useCallback(
+    async (changes: Partial<AnnotationExportSettings>) => {
+      const settings = { ...exportSettings, ...changes };
+      updateNodeData(id, { exportSettings: settings });
+
+      // Re-export outputs that were rendered from the source image
+      if (!nodeData.sourceImage || !nodeData.outputImage) return;
+      try {
+        const image = await loadImage(nodeData.sourceImage);
+        updateNodeData(
+          id,
+          renderAnnotationOutputs(image, nodeData.annotations, getAnnotationLayers(nodeData.layers), nodeData.maskStrokes ?? [], settings)
+        );
+      } catch (error) {
+        console.error("Failed to re-export annotations:", error);
+      }
+    },
+    [id, nodeData, exportSettings, updateNodeData]
+  );
+
   const displayImage = nodeData.outputImage || nodeData.sourceImage;
 
   return (
@@ -102,12 +166,28 @@ export function AnnotationNode({ id, data, selected }: NodeProps<AnnotationNodeT
         id="image"
         data-handletype="image"
       />
-      <Handle
-        type="source"
-        position={Position.Right}
-        id="image"
-        data-handletype="image"
-      />
+      {outputs.map((output, index) => {
+        const top = `${((index + 1) / (outputs.length + 1)) * 100}%`;
+        return (
+          <div key={output.id}>
+            <Handle
+              type="source"
+              position={Position.Right}
+              id={output.id}
+              style={{ top }}
+              data-handletype={output.type}
+            />
+            {output.label && (
+              <span
+                className="absolute -right-1 translate-x-full -translate-y-1/2 pl-1 text-[9px] text-neutral-500 pointer-events-none whitespace-nowrap"
+                style={{ top }}
+              >
+                {output.label}
+              </span>
+            )}
+          </div>
+        );
+      })}
 
       {displayImage ? (
         <div
@@ -119,6 +199,11 @@ export function AnnotationNode({ id, data, selected }: NodeProps<AnnotationNodeT
             alt="Annotated"
             className="w-full flex-1 min-h-0 object-contain rounded"
           />
+          {nodeData.outputMask && (
+            <span className="absolute top-1 left-1 px-1.5 py-0.5 bg-black/60 text-pink-300 text-[9px] rounded pointer-events-none">
+              Mask
+            </span>
+          )}
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -151,6 +236,61 @@ export function AnnotationNode({ id, data, selected }: NodeProps<AnnotationNodeT
           </span>
         </div>
       )}
+
+      {/* Export size and format of the image outputs */}
+      <div className="flex gap-1.5 shrink-0 mt-1.5">
+        <select
+          value={exportSettings.scale}
+          onChange={(e) => handleExportChange({ scale: Number(e.target.value) })}
+          title="Scale"
+          className={`${selectClassName} flex-1 min-w-0`}
+        >
+          {EXPORT_SCALES.map((scale) => (
+            <option key={scale} value={scale}>
+              {scale * 100}%
+            </option>
+          ))}
+        </select>
+        <select
+          value={exportSettings.maxDimension ?? ""}
+          onChange={(e) => handleExportChange({ maxDimension: e.target.value ? Number(e.target.value) : null })}
+          title="Max size"
+          className={`${selectClassName} flex-1 min-w-0`}
+        >
+          <option value="">No max</option>
+          {EXPORT_MAX_DIMENSIONS.map((size) => (
+            <option key={size} value={size}>
+              Max {size}px
+            </option>
+          ))}
+        </select>
+        <select
+          value={exportSettings.format}
+          onChange={(e) => handleExportChange({ format: e.target.value as ExportFormat })}
+          title="Format"
+          className={`${selectClassName} flex-1 min-w-0`}
+        >
+          {EXPORT_FORMATS.map((format) => (
+            <option key={format.id} value={format.id}>
+              {format.label}
+            </option>
+          ))}
+        </select>
+        {exportSettings.format !== "png" && (
+          <select
+            value={exportSettings.quality}
+            onChange={(e) => handleExportChange({ quality: Number(e.target.value) })}
+            title="Quality"
+            className={`${selectClassName} w-12`}
+          >
+            {EXPORT_QUALITIES.map((quality) => (
+              <option key={quality} value={quality}>
+                {Math.round(quality * 100)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
     </BaseNode>
   );
 }
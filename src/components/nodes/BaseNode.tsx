@@ -27,8 +27,8 @@ export function BaseNode({
   minWidth = 180,
   minHeight = 100,
 }: BaseNodeProps) {
-  const currentNodeId = useWorkflowStore((state) => state.currentNodeId);
-  const isCurrentlyExecuting = currentNodeId === id;
+  const isCurrentlyExecuting = useWorkflowStore((state) => state.currentNodeIds.includes(id));
+  const isStale = useWorkflowStore((state) => state.staleNodeIds.includes(id));
   const { getNodes, setNodes } = useReactFlow();
 
   // Synchronize resize across all selected nodes
@@ -78,8 +78,11 @@ export function BaseNode({
           ${className}
         `}
       >
-        <div className="px-3 pt-2 pb-1">
+        <div className="px-3 pt-2 pb-1 flex items-center gap-1.5">
           <span className="text-xs font-semibold uppercase tracking-wide text-neutral-400">{title}</span>
+          {isStale && (
+            <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title="Changed since last run" />
+          )}
         </div>
         <div className="px-3 pb-4 h-[calc(100%-28px)] overflow-hidden flex flex-col">{children}</div>
       </div>
@@ -0,0 +1,201 @@
+"use client";
+
+import { useCallback } from "react";
+import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { BaseNode } from "./BaseNode";
+import { LLMModelSelect } from "./LLMModelSelect";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { ConditionNodeData, ConditionMode, ConditionOperator, LLMProvider, LLMModelType } from "@/types";
+
+const MODES: { value: ConditionMode; label: string }[] = [
+  { value: "contains", label: "Contains" },
+  { value: "regex", label: "Regex match" },
+  { value: "json", label: "JSON field" },
+  { value: "llm", label: "LLM yes/no" },
+];
+
+const OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: "equals", label: "=" },
+  { value: "notEquals", label: "≠" },
+  { value: "greaterThan", label: ">" },
+  { value: "lessThan", label: "<" },
+  { value: "exists", label: "exists" },
+];
+
+const inputClassName =
+  "nodrag nopan w-full min-w-0 px-1.5 py-1 text-[10px] text-neutral-300 bg-neutral-900/50 border border-neutral-700 rounded focus:outline-none focus:ring-1 focus:ring-neutral-600 placeholder:text-neutral-600";
+
+const selectClassName =
+  "w-full text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 shrink-0";
+
+type ConditionNodeType = Node<ConditionNodeData, "condition">;
+
+export function ConditionNode({ id, data, selected }: NodeProps<ConditionNodeType>) {
+  const nodeData = data;
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+
+  const update = useCallback(
+    (updates: Partial<ConditionNodeData>) => updateNodeData(id, updates),
+    [id, updateNodeData]
+  );
+
+  const handleModelChange = useCallback(
+    (updates: { provider?: LLMProvider; model: LLMModelType }) => updateNodeData(id, updates),
+    [id, updateNodeData]
+  );
+
+  return (
+    <BaseNode
+      id={id}
+      title="Condition"
+      selected={selected}
+      hasError={nodeData.status === "error"}
+    >
+      {/* Text input */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="text"
+        style={{ top: "50%" }}
+        data-handletype="text"
+      />
+      {/* Branch outputs - both pass the input text through */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="true"
+        style={{ top: "35%" }}
+        data-handletype="text"
+      />
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="false"
+        style={{ top: "65%" }}
+        data-handletype="text"
+      />
+      <span className="absolute right-2 text-[9px] text-green-400 pointer-events-none" style={{ top: "35%", transform: "translateY(-50%)" }}>
+        true
+      </span>
+      <span className="absolute right-2 text-[9px] text-red-400 pointer-events-none" style={{ top: "65%", transform: "translateY(-50%)" }}>
+        false
+      </span>
+
+      <div className="flex-1 flex flex-col min-h-0 gap-2 pr-6">
+        {/* Result */}
+        <div className="w-full min-h-[32px] border border-dashed border-neutral-600 rounded flex items-center justify-center px-2 shrink-0">
+          {nodeData.status === "loading" ? (
+            <span className="text-[10px] text-neutral-400">
+              {nodeData.retry
+                ? `Retrying ${nodeData.retry.attempt}/${nodeData.retry.maxAttempts}`
+                : "Evaluating..."}
+            </span>
+          ) : nodeData.status === "error" ? (
+            <span className="text-[10px] text-red-400 text-center">
+              {nodeData.error || "Failed"}
+            </span>
+          ) : nodeData.status === "cancelled" || nodeData.status === "skipped" ? (
+            <span className="text-[10px] text-neutral-400">
+              {nodeData.status === "cancelled" ? "Cancelled" : "Skipped"}
+            </span>
+          ) : nodeData.result !== null ? (
+            <span className={`text-[10px] font-medium ${nodeData.result ? "text-green-400" : "text-red-400"}`}>
+              Took the {nodeData.result ? "true" : "false"} branch
+            </span>
+          ) : (
+            <span className="text-neutral-500 text-[10px]">
+              Run to evaluate
+            </span>
+          )}
+        </div>
+
+        {/* Rule type */}
+        <select
+          value={nodeData.mode}
+          onChange={(e) => update({ mode: e.target.value as ConditionMode })}
+          className={selectClassName}
+        >
+          {MODES.map((m) => (
+            <option key={m.value} value={m.value}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+
+        {(nodeData.mode === "contains" || nodeData.mode === "regex") && (
+          <>
+            <input
+              type="text"
+              value={nodeData.pattern}
+              onChange={(e) => update({ pattern: e.target.value })}
+              placeholder={nodeData.mode === "regex" ? "Pattern, e.g. ^approved" : "Text to look for"}
+              className={inputClassName}
+            />
+            <label className="flex items-center gap-1.5 text-[10px] text-neutral-300 shrink-0 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={nodeData.caseSensitive}
+                onChange={(e) => update({ caseSensitive: e.target.checked })}
+                className="w-3 h-3 rounded border-neutral-700 bg-neutral-900/50 text-neutral-600 focus:ring-1 focus:ring-neutral-600 focus:ring-offset-0"
+              />
+              <span>Case sensitive</span>
+            </label>
+          </>
+        )}
+
+        {nodeData.mode === "json" && (
+          <>
+            <input
+              type="text"
+              value={nodeData.jsonPath}
+              onChange={(e) => update({ jsonPath: e.target.value })}
+              placeholder="Field, e.g. scores[0].value"
+              className={inputClassName}
+            />
+            <div className="flex gap-1.5 shrink-0">
+              <select
+                value={nodeData.operator}
+                onChange={(e) => update({ operator: e.target.value as ConditionOperator })}
+                className={`${selectClassName} !w-16`}
+              >
+                {OPERATORS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              {nodeData.operator !== "exists" && (
+                <input
+                  type="text"
+                  value={nodeData.compareValue}
+                  onChange={(e) => update({ compareValue: e.target.value })}
+                  placeholder="Value"
+                  className={inputClassName}
+                />
+              )}
+            </div>
+          </>
+        )}
+
+        {nodeData.mode === "llm" && (
+          <>
+            <textarea
+              value={nodeData.question}
+              onChange={(e) => update({ question: e.target.value })}
+              placeholder="Yes/no question, e.g. Is this a product photo?"
+              className={`${inputClassName} nowheel flex-1 min-h-[40px] resize-none`}
+            />
+            <div className="flex gap-1.5 shrink-0">
+              <LLMModelSelect
+                provider={nodeData.provider || "google"}
+                model={nodeData.model}
+                onChange={handleModelChange}
+                className={selectClassName}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </BaseNode>
+  );
+}
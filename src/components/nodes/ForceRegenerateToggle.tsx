@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback } from "react";
+import { useWorkflowStore } from "@/store/workflowStore";
+
+interface ForceRegenerateToggleProps {
+  nodeId: string;
+  forceRegenerate: boolean | undefined;
+}
+
+// Opts the node out of the result cache - it calls the provider on every run even if nothing changed
+export function ForceRegenerateToggle({ nodeId, forceRegenerate }: ForceRegenerateToggleProps) {
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+
+  const handleToggle = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateNodeData(nodeId, { forceRegenerate: e.target.checked });
+    },
+    [nodeId, updateNodeData]
+  );
+
+  return (
+    <label
+      className="flex items-center gap-1.5 text-[10px] text-neutral-300 shrink-0 cursor-pointer"
+      title="Skip cached results and regenerate on every run"
+    >
+      <input
+        type="checkbox"
+        checked={!!forceRegenerate}
+        onChange={handleToggle}
+        className="w-3 h-3 rounded border-neutral-700 bg-neutral-900/50 text-neutral-600 focus:ring-1 focus:ring-neutral-600 focus:ring-offset-0"
+      />
+      <span>Always regenerate</span>
+    </label>
+  );
+}
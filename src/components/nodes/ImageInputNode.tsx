@@ -3,6 +3,7 @@
 import { useCallback, useRef } from "react";
 import { Handle, Position, NodeProps, Node } from "@xyflow/react";
 import { BaseNode } from "./BaseNode";
+import { ParameterNameInput } from "./ParameterNameInput";
 import { useWorkflowStore } from "@/store/workflowStore";
 import { ImageInputNodeData } from "@/types";
 
@@ -138,6 +139,8 @@ export function ImageInputNode({ id, data, selected }: NodeProps<ImageInputNodeT
         </div>
       )}
 
+      <ParameterNameInput nodeId={id} parameterName={nodeData.parameterName} />
+
       <Handle
         type="source"
         position={Position.Right}
@@ -1,49 +1,57 @@
 "use client";
 
-import { useCallback } from "react";
-import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { useCallback, useEffect, useMemo } from "react";
+import { Handle, Position, NodeProps, Node, useUpdateNodeInternals } from "@xyflow/react";
 import { BaseNode } from "./BaseNode";
+import { ForceRegenerateToggle } from "./ForceRegenerateToggle";
 import { useWorkflowStore } from "@/store/workflowStore";
-import { LLMGenerateNodeData, LLMProvider, LLMModelType } from "@/types";
-
-const PROVIDERS: { value: LLMProvider; label: string }[] = [
-  { value: "google", label: "Google" },
-  { value: "openai", label: "OpenAI" },
-];
-
-const MODELS: Record<LLMProvider, { value: LLMModelType; label: string }[]> = {
-  google: [
-    { value: "gemini-3-flash-preview", label: "Gemini 3 Flash" },
-    { value: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
-    { value: "gemini-3-pro-preview", label: "Gemini 3.0 Pro" },
-  ],
-  openai: [
-    { value: "gpt-4.1-mini", label: "GPT-4.1 Mini" },
-    { value: "gpt-4.1-nano", label: "GPT-4.1 Nano" },
-  ],
-};
+import { LLMModelSelect } from "./LLMModelSelect";
+import { LLMGenerateNodeData, LLMOutputFormat, LLMProvider, LLMModelType } from "@/types";
+import { DEFAULT_OUTPUT_SCHEMA, getFieldHandleId, parseOutputSchema } from "@/utils/structuredOutput";
 
 type LLMGenerateNodeType = Node<LLMGenerateNodeData, "llmGenerate">;
 
 export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNodeType>) {
   const nodeData = data;
   const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+  const updateNodeInternals = useUpdateNodeInternals();
 
-  const handleProviderChange = useCallback(
+  // In JSON mode each top-level schema field gets its own text output
+  const isJson = nodeData.outputFormat === "json";
+  const schema = useMemo(() => {
+    if (!isJson) return { fields: [], error: null };
+    try {
+      return { fields: parseOutputSchema(nodeData.outputSchema ?? "").fields, error: null };
+    } catch (error) {
+      return { fields: [], error: error instanceof Error ? error.message : "Invalid schema" };
+    }
+  }, [isJson, nodeData.outputSchema]);
+  const fieldsKey = schema.fields.join("|");
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, fieldsKey, updateNodeInternals]);
+
+  const handleOutputFormatChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
-      const newProvider = e.target.value as LLMProvider;
-      const firstModelForProvider = MODELS[newProvider][0].value;
+      const outputFormat = e.target.value as LLMOutputFormat;
       updateNodeData(id, {
-        provider: newProvider,
-        model: firstModelForProvider
+        outputFormat,
+        ...(outputFormat === "json" && !nodeData.outputSchema && { outputSchema: DEFAULT_OUTPUT_SCHEMA }),
       });
     },
+    [id, nodeData.outputSchema, updateNodeData]
+  );
+
+  const handleSchemaChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      updateNodeData(id, { outputSchema: e.target.value });
+    },
     [id, updateNodeData]
   );
 
   const handleModelChange = useCallback(
-    (e: React.ChangeEvent<HTMLSelectElement>) => {
-      updateNodeData(id, { model: e.target.value as LLMModelType });
+    (updates: { provider?: LLMProvider; model: LLMModelType }) => {
+      updateNodeData(id, updates);
     },
     [id, updateNodeData]
   );
@@ -63,15 +71,9 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
   }, [id, regenerateNode]);
 
   const handleClearOutput = useCallback(() => {
-    updateNodeData(id, { outputText: null, status: "idle", error: null });
+    updateNodeData(id, { outputText: null, outputFields: null, status: "idle", error: null });
   }, [id, updateNodeData]);
 
-  const provider = nodeData.provider || "google";
-  const availableModels = MODELS[provider] || MODELS.google;
-  const model = availableModels.some(m => m.value === nodeData.model)
-    ? nodeData.model
-    : availableModels[0].value;
-
   return (
     <BaseNode
       id={id}
@@ -79,27 +81,85 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
       selected={selected}
       hasError={nodeData.status === "error"}
     >
+      {/* Image input - accepts multiple connections */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="image"
+        style={{ top: "35%" }}
+        data-handletype="image"
+      />
       {/* Text input */}
       <Handle
         type="target"
         position={Position.Left}
         id="text"
-        style={{ top: "50%" }}
+        style={{ top: "65%" }}
         data-handletype="text"
       />
-      {/* Text output */}
+      {/* Text output - the whole JSON object in JSON mode */}
       <Handle
         type="source"
         position={Position.Right}
         id="text"
+        style={schema.fields.length > 0 ? { top: `${100 / (schema.fields.length + 2)}%` } : undefined}
         data-handletype="text"
       />
+      {/* Field outputs */}
+      {schema.fields.map((name, index) => {
+        const top = `${((index + 2) / (schema.fields.length + 2)) * 100}%`;
+        return (
+          <div key={name}>
+            <Handle
+              type="source"
+              position={Position.Right}
+              id={getFieldHandleId(name)}
+              style={{ top }}
+              data-handletype="text"
+            />
+            <span
+              className="absolute -right-1 translate-x-full -translate-y-1/2 pl-1 text-[9px] text-neutral-500 pointer-events-none whitespace-nowrap"
+              style={{ top }}
+            >
+              {name}
+            </span>
+          </div>
+        );
+      })}
 
       <div className="flex-1 flex flex-col min-h-0 gap-2">
         {/* Output preview area */}
         <div className="nodrag nopan nowheel relative w-full flex-1 min-h-[80px] border border-dashed border-neutral-600 rounded p-2 overflow-auto">
-          {nodeData.status === "loading" ? (
-            <div className="h-full flex items-center justify-center">
+          {nodeData.status === "loading" && nodeData.partialText ? (
+            <>
+              {/* Output streamed so far */}
+              <p className="text-[10px] text-neutral-300 whitespace-pre-wrap break-words pr-6">
+                {nodeData.partialText}
+              </p>
+              <div className="absolute top-1 right-1 w-5 h-5 flex items-center justify-center">
+                <svg
+                  className="w-3 h-3 animate-spin text-neutral-400"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                >
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="3"
+                  />
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                  />
+                </svg>
+              </div>
+            </>
+          ) : nodeData.status === "loading" ? (
+            <div className="h-full flex flex-col items-center justify-center">
               <svg
                 className="w-4 h-4 animate-spin text-neutral-400"
                 fill="none"
@@ -119,16 +179,40 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
                   d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                 />
               </svg>
+              {nodeData.retry && (
+                <span className="mt-1.5 text-[10px] text-amber-300">
+                  Retrying {nodeData.retry.attempt}/{nodeData.retry.maxAttempts}
+                </span>
+              )}
             </div>
           ) : nodeData.status === "error" ? (
             <span className="text-[10px] text-red-400">
               {nodeData.error || "Failed"}
             </span>
+          ) : nodeData.status === "cancelled" && !nodeData.outputText ? (
+            <span className="text-[10px] text-neutral-400">
+              Cancelled
+            </span>
+          ) : nodeData.status === "skipped" && !nodeData.outputText ? (
+            <span className="text-[10px] text-neutral-400">
+              Skipped
+            </span>
           ) : nodeData.outputText ? (
             <>
-              <p className="text-[10px] text-neutral-300 whitespace-pre-wrap break-words pr-6">
-                {nodeData.outputText}
-              </p>
+              {nodeData.outputFields ? (
+                <dl className="text-[10px] pr-6 flex flex-col gap-1">
+                  {Object.entries(nodeData.outputFields).map(([name, value]) => (
+                    <div key={name}>
+                      <dt className="text-neutral-500">{name}</dt>
+                      <dd className="text-neutral-300 whitespace-pre-wrap break-words">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              ) : (
+                <p className="text-[10px] text-neutral-300 whitespace-pre-wrap break-words pr-6">
+                  {nodeData.outputText}
+                </p>
+              )}
               <div className="absolute top-1 right-1 flex gap-1">
                 <button
                   onClick={handleRegenerate}
@@ -160,31 +244,13 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
           )}
         </div>
 
-        {/* Provider selector */}
-        <select
-          value={provider}
-          onChange={handleProviderChange}
-          className="w-full text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 shrink-0"
-        >
-          {PROVIDERS.map((p) => (
-            <option key={p.value} value={p.value}>
-              {p.label}
-            </option>
-          ))}
-        </select>
-
-        {/* Model selector */}
-        <select
-          value={model}
+        {/* Provider and model selectors */}
+        <LLMModelSelect
+          provider={nodeData.provider || "google"}
+          model={nodeData.model}
           onChange={handleModelChange}
           className="w-full text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 shrink-0"
-        >
-          {availableModels.map((m) => (
-            <option key={m.value} value={m.value}>
-              {m.label}
-            </option>
-          ))}
-        </select>
+        />
 
         {/* Temperature slider */}
         <div className="flex flex-col gap-0.5 shrink-0">
@@ -199,6 +265,32 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
             className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400"
           />
         </div>
+
+        {/* Output format */}
+        <select
+          value={nodeData.outputFormat ?? "text"}
+          onChange={handleOutputFormatChange}
+          className="w-full text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 shrink-0"
+        >
+          <option value="text">Text output</option>
+          <option value="json">JSON output</option>
+        </select>
+        {isJson && (
+          <div className="flex flex-col gap-0.5 shrink-0">
+            <textarea
+              value={nodeData.outputSchema ?? ""}
+              onChange={handleSchemaChange}
+              placeholder="JSON schema"
+              spellCheck={false}
+              className="nodrag nopan nowheel w-full h-24 p-1.5 font-mono text-[9px] leading-snug text-neutral-300 border border-neutral-700 rounded bg-neutral-900/50 resize-none focus:outline-none focus:ring-1 focus:ring-neutral-600"
+            />
+            {schema.error && (
+              <span className="text-[9px] text-red-400">{schema.error}</span>
+            )}
+          </div>
+        )}
+
+        <ForceRegenerateToggle nodeId={id} forceRegenerate={nodeData.forceRegenerate} />
       </div>
     </BaseNode>
   );
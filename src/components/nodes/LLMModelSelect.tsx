@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { fetchLLMModels } from "@/lib/apiClient";
+import { LLM_PROVIDERS, LLMModelInfo, getLLMProvider } from "@/lib/llmProviders";
+import { LLMProvider, LLMModelType } from "@/types";
+
+// Discovered model lists, shared by every node using the same endpoint
+const modelListCache = new Map<string, Promise<LLMModelInfo[]>>();
+
+const loadModels = (provider: LLMProvider, baseUrl: string) => {
+  const key = `${provider}|${baseUrl}`;
+  let models = modelListCache.get(key);
+  if (!models) {
+    models = fetchLLMModels(provider, baseUrl || undefined);
+    // Let the next render try again after a failure (e.g. the local server wasn't running)
+    models.catch(() => modelListCache.delete(key));
+    modelListCache.set(key, models);
+  }
+  return models;
+};
+
+interface LLMModelSelectProps {
+  provider: LLMProvider;
+  model: LLMModelType;
+  onChange: (updates: { provider?: LLMProvider; model: LLMModelType }) => void;
+  className: string;
+}
+
+/**
+ * Provider and model selects for nodes that call an LLM. Providers without a
+ * fixed model list show the models their endpoint reports, and fall back to
+ * a text field when the list can't be loaded.
+ */
+export function LLMModelSelect({ provider, model, onChange, className }: LLMModelSelectProps) {
+  const baseUrl = useWorkflowStore((state) => state.llmProviderSettings.openaiCompatibleBaseUrl);
+  const providerInfo = getLLMProvider(provider);
+  const endpointUrl = provider === "openaiCompatible" ? baseUrl : "";
+
+  const [discovered, setDiscovered] = useState<{ key: string; models: LLMModelInfo[] | null; error: string | null } | null>(null);
+  const discoveryKey = `${provider}|${endpointUrl}`;
+
+  useEffect(() => {
+    if (providerInfo.models) return;
+    let cancelled = false;
+    loadModels(provider, endpointUrl)
+      .then((models) => {
+        if (!cancelled) setDiscovered({ key: discoveryKey, models, error: null });
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setDiscovered({ key: discoveryKey, models: null, error: error instanceof Error ? error.message : "Failed to load models" });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, endpointUrl, discoveryKey, providerInfo.models]);
+
+  const current = discovered?.key === discoveryKey ? discovered : null;
+  const models = providerInfo.models ?? current?.models ?? null;
+  const isListed = !!models?.some((m) => m.value === model);
+
+  // Pick the first discovered model for a node that has none yet
+  useEffect(() => {
+    if (!model && models && models.length > 0) {
+      onChange({ model: models[0].value });
+    }
+  }, [model, models, onChange]);
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newProvider = e.target.value as LLMProvider;
+    onChange({ provider: newProvider, model: getLLMProvider(newProvider).models?.[0].value ?? "" });
+  };
+
+  // Keep a saved model selectable even if the endpoint no longer lists it
+  const options = !providerInfo.models && models && model && !isListed
+    ? [{ value: model, label: model }, ...models]
+    : models;
+
+  return (
+    <>
+      <select value={provider} onChange={handleProviderChange} className={className}>
+        {LLM_PROVIDERS.map((p) => (
+          <option key={p.value} value={p.value}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+
+      {current?.error ? (
+        <input
+          type="text"
+          value={model}
+          onChange={(e) => onChange({ model: e.target.value })}
+          placeholder="Model ID"
+          title={`Couldn't list models: ${current.error}`}
+          className={`nodrag nopan ${className} border-amber-700/60 placeholder:text-neutral-600`}
+        />
+      ) : (
+        <select
+          value={providerInfo.models && !isListed ? providerInfo.models[0].value : model}
+          onChange={(e) => onChange({ model: e.target.value })}
+          disabled={!options}
+          className={className}
+        >
+          {!options ? (
+            <option value={model}>Loading models...</option>
+          ) : options.length === 0 ? (
+            <option value="">No models found</option>
+          ) : (
+            options.map((m) => (
+              <option key={m.value} value={m.value}>
+                {m.label}
+              </option>
+            ))
+          )}
+        </select>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useCallback } from "react";
+import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { BaseNode } from "./BaseNode";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { MAX_LOOP_ITERATIONS } from "@/lib/workflowEngine";
+import { LoopNodeData } from "@/types";
+
+const HANDLE_LABELS: { label: string; top: string; side: "left" | "right" }[] = [
+  { label: "start", top: "25%", side: "left" },
+  { label: "feedback", top: "50%", side: "left" },
+  { label: "stop", top: "75%", side: "left" },
+  { label: "body", top: "35%", side: "right" },
+  { label: "result", top: "65%", side: "right" },
+];
+
+type LoopNodeType = Node<LoopNodeData, "loop">;
+
+export function LoopNode({ id, data, selected }: NodeProps<LoopNodeType>) {
+  const nodeData = data;
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+
+  const handleMaxIterationsChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = parseInt(e.target.value, 10);
+      if (!isNaN(value)) {
+        updateNodeData(id, { maxIterations: Math.min(Math.max(value, 1), MAX_LOOP_ITERATIONS) });
+      }
+    },
+    [id, updateNodeData]
+  );
+
+  const previewImage = nodeData.status === "loading" ? nodeData.currentImage : nodeData.outputImage;
+
+  return (
+    <BaseNode
+      id={id}
+      title="Loop"
+      selected={selected}
+      hasError={nodeData.status === "error"}
+    >
+      {/* Starting image */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="image"
+        style={{ top: "25%" }}
+        data-handletype="image"
+      />
+      {/* Image produced by each iteration, fed into the next */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="feedback"
+        style={{ top: "50%" }}
+        data-handletype="image"
+      />
+      {/* Condition branch that ends the loop early */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="stop"
+        style={{ top: "75%" }}
+        data-handletype="text"
+      />
+      {/* Image for the current iteration */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="body"
+        style={{ top: "35%" }}
+        data-handletype="image"
+      />
+      {/* Final image */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="image"
+        style={{ top: "65%" }}
+        data-handletype="image"
+      />
+      {HANDLE_LABELS.map(({ label, top, side }) => (
+        <span
+          key={label}
+          className={`absolute ${side === "left" ? "left-2" : "right-2"} text-[9px] text-neutral-500 pointer-events-none`}
+          style={{ top, transform: "translateY(-50%)" }}
+        >
+          {label}
+        </span>
+      ))}
+
+      <div className="flex-1 flex flex-col min-h-0 gap-2 px-10">
+        {/* Preview area */}
+        <div className="relative w-full flex-1 min-h-[100px] border border-dashed border-neutral-600 rounded flex flex-col items-center justify-center overflow-hidden">
+          {previewImage ? (
+            <img
+              src={previewImage}
+              alt={nodeData.status === "loading" ? "Current iteration" : "Loop result"}
+              className="w-full h-full object-contain"
+            />
+          ) : nodeData.status === "error" ? (
+            <span className="text-[10px] text-red-400 text-center px-2">
+              {nodeData.error || "Failed"}
+            </span>
+          ) : (
+            <span className="text-neutral-500 text-[10px]">
+              {nodeData.status === "cancelled" ? "Cancelled" : nodeData.status === "skipped" ? "Skipped" : "Run to iterate"}
+            </span>
+          )}
+        </div>
+
+        {/* Progress */}
+        {nodeData.iteration > 0 && (
+          <span className={`text-[10px] shrink-0 ${nodeData.status === "error" ? "text-red-400" : "text-neutral-400"}`}>
+            {nodeData.status === "loading"
+              ? `Iteration ${nodeData.iteration}/${nodeData.maxIterations}`
+              : `Ran ${nodeData.iteration} of ${nodeData.maxIterations} iterations`}
+          </span>
+        )}
+
+        {/* Iteration limit */}
+        <label className="flex items-center gap-1.5 text-[10px] text-neutral-400 shrink-0">
+          <span>Max iterations</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_LOOP_ITERATIONS}
+            value={nodeData.maxIterations}
+            onChange={handleMaxIterationsChange}
+            className="nodrag nopan w-12 px-1.5 py-0.5 text-[10px] text-neutral-300 bg-neutral-900/50 border border-neutral-700 rounded focus:outline-none focus:ring-1 focus:ring-neutral-600"
+          />
+        </label>
+      </div>
+    </BaseNode>
+  );
+}
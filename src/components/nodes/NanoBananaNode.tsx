@@ -3,19 +3,20 @@
 import { useCallback } from "react";
 import { Handle, Position, NodeProps, Node } from "@xyflow/react";
 import { BaseNode } from "./BaseNode";
+import { ForceRegenerateToggle } from "./ForceRegenerateToggle";
 import { useWorkflowStore, saveNanoBananaDefaults } from "@/store/workflowStore";
+import {
+  DEFAULT_IMAGE_MODEL,
+  IMAGE_PROVIDERS,
+  ImageProviderId,
+  getImageModel,
+  getImageProvider,
+  resolveModelOptions,
+} from "@/lib/imageProviders";
 import { NanoBananaNodeData, AspectRatio, Resolution, ModelType } from "@/types";
 
-// All 10 aspect ratios supported by both models
-const ASPECT_RATIOS: AspectRatio[] = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
-
-// Resolutions only for Nano Banana Pro (gemini-3-pro-image-preview)
-const RESOLUTIONS: Resolution[] = ["1K", "2K", "4K"];
-
-const MODELS: { value: ModelType; label: string }[] = [
-  { value: "nano-banana", label: "Nano Banana" },
-  { value: "nano-banana-pro", label: "Nano Banana Pro" },
-];
+const selectClassName =
+  "text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300";
 
 type NanoBananaNodeType = Node<NanoBananaNodeData, "nanoBanana">;
 
@@ -41,13 +42,43 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
     [id, updateNodeData]
   );
 
+  const modelInfo = getImageModel(nodeData.model) ?? getImageModel(DEFAULT_IMAGE_MODEL)!;
+
+  // Switching models keeps the aspect ratio and resolution when the new model supports them
+  const selectModel = useCallback(
+    (model: ModelType) => {
+      const info = getImageModel(model)!;
+      const aspectRatio = info.aspectRatios.includes(nodeData.aspectRatio)
+        ? nodeData.aspectRatio
+        : info.aspectRatios[0];
+      const resolution = info.resolutions.length === 0 || info.resolutions.includes(nodeData.resolution)
+        ? nodeData.resolution
+        : info.resolutions[0];
+      updateNodeData(id, { model, aspectRatio, resolution });
+      saveNanoBananaDefaults({ model, aspectRatio, resolution });
+    },
+    [id, nodeData.aspectRatio, nodeData.resolution, updateNodeData]
+  );
+
+  const handleProviderChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      selectModel(getImageProvider(e.target.value as ImageProviderId).models[0].id);
+    },
+    [selectModel]
+  );
+
   const handleModelChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
-      const model = e.target.value as ModelType;
-      updateNodeData(id, { model });
-      saveNanoBananaDefaults({ model });
+      selectModel(e.target.value as ModelType);
     },
-    [id, updateNodeData]
+    [selectModel]
+  );
+
+  const handleOptionChange = useCallback(
+    (key: string, value: string) => {
+      updateNodeData(id, { providerOptions: { ...nodeData.providerOptions, [key]: value } });
+    },
+    [id, nodeData.providerOptions, updateNodeData]
   );
 
   const handleGoogleSearchToggle = useCallback(
@@ -70,7 +101,8 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
     regenerateNode(id);
   }, [id, regenerateNode]);
 
-  const isNanoBananaPro = nodeData.model === "nano-banana-pro";
+  const providerModels = getImageProvider(modelInfo.provider).models;
+  const optionValues = resolveModelOptions(modelInfo, nodeData.providerOptions);
 
   return (
     <BaseNode
@@ -79,12 +111,12 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
       selected={selected}
       hasError={nodeData.status === "error"}
     >
-      {/* Image input - accepts multiple connections */}
+      {/* Image input - optional, accepts multiple connections */}
       <Handle
         type="target"
         position={Position.Left}
         id="image"
-        style={{ top: "35%" }}
+        style={{ top: "25%" }}
         data-handletype="image"
         isConnectable={true}
       />
@@ -93,9 +125,23 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
         type="target"
         position={Position.Left}
         id="text"
-        style={{ top: "65%" }}
+        style={{ top: "50%" }}
         data-handletype="text"
       />
+      {/* Mask input - limits the edit to the mask's white areas */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="mask"
+        style={{ top: "75%" }}
+        data-handletype="image"
+      />
+      <span
+        className="absolute -left-1 -translate-x-full -translate-y-1/2 pr-1 text-[9px] text-neutral-500 pointer-events-none"
+        style={{ top: "75%" }}
+      >
+        mask
+      </span>
       {/* Image output */}
       <Handle
         type="source"
@@ -135,6 +181,11 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                   />
                 </svg>
+                {nodeData.retry && (
+                  <span className="absolute bottom-2 text-[10px] text-amber-300">
+                    Retrying {nodeData.retry.attempt}/{nodeData.retry.maxAttempts}
+                  </span>
+                )}
               </div>
             )}
             <div className="absolute top-1 right-1 flex gap-1">
@@ -162,29 +213,44 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
         ) : (
           <div className="w-full flex-1 min-h-[112px] border border-dashed border-neutral-600 rounded flex flex-col items-center justify-center">
             {nodeData.status === "loading" ? (
-              <svg
-                className="w-4 h-4 animate-spin text-neutral-400"
-                fill="none"
-                viewBox="0 0 24 24"
-              >
-                <circle
-                  className="opacity-25"
-                  cx="12"
-                  cy="12"
-                  r="10"
-                  stroke="currentColor"
-                  strokeWidth="3"
-                />
-                <path
-                  className="opacity-75"
-                  fill="currentColor"
-                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                />
-              </svg>
+              <>
+                <svg
+                  className="w-4 h-4 animate-spin text-neutral-400"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                >
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="3"
+                  />
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                  />
+                </svg>
+                {nodeData.retry && (
+                  <span className="mt-1.5 text-[10px] text-amber-300">
+                    Retrying {nodeData.retry.attempt}/{nodeData.retry.maxAttempts}
+                  </span>
+                )}
+              </>
             ) : nodeData.status === "error" ? (
               <span className="text-[10px] text-red-400 text-center px-2">
                 {nodeData.error || "Failed"}
               </span>
+            ) : nodeData.status === "cancelled" ? (
+              <span className="text-neutral-400 text-[10px]">
+                Cancelled
+              </span>
+            ) : nodeData.status === "skipped" ? (
+              <span className="text-neutral-400 text-[10px]">
+                Skipped
+              </span>
             ) : (
               <span className="text-neutral-500 text-[10px]">
                 Run to generate
@@ -193,39 +259,54 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
           </div>
         )}
 
-        {/* Model selector */}
-        <select
-          value={nodeData.model}
-          onChange={handleModelChange}
-          className="w-full text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 shrink-0"
-        >
-          {MODELS.map((m) => (
-            <option key={m.value} value={m.value}>
-              {m.label}
-            </option>
-          ))}
-        </select>
+        {/* Provider and model selectors */}
+        <div className="flex gap-1.5 shrink-0">
+          <select
+            value={modelInfo.provider}
+            onChange={handleProviderChange}
+            className={`${selectClassName} flex-1 min-w-0`}
+          >
+            {IMAGE_PROVIDERS.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+          {providerModels.length > 1 && (
+            <select
+              value={modelInfo.id}
+              onChange={handleModelChange}
+              className={`${selectClassName} flex-1 min-w-0`}
+            >
+              {providerModels.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
 
         {/* Aspect ratio and resolution row */}
         <div className="flex gap-1.5 shrink-0">
           <select
             value={nodeData.aspectRatio}
             onChange={handleAspectRatioChange}
-            className="flex-1 text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+            className={`${selectClassName} flex-1`}
           >
-            {ASPECT_RATIOS.map((ratio) => (
+            {modelInfo.aspectRatios.map((ratio) => (
               <option key={ratio} value={ratio}>
                 {ratio}
               </option>
             ))}
           </select>
-          {isNanoBananaPro && (
+          {modelInfo.resolutions.length > 0 && (
             <select
               value={nodeData.resolution}
               onChange={handleResolutionChange}
-              className="w-12 text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+              className={`${selectClassName} w-12`}
             >
-              {RESOLUTIONS.map((res) => (
+              {modelInfo.resolutions.map((res) => (
                 <option key={res} value={res}>
                   {res}
                 </option>
@@ -234,8 +315,29 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
           )}
         </div>
 
-        {/* Google Search toggle - only for Nano Banana Pro */}
-        {isNanoBananaPro && (
+        {/* Provider-specific options */}
+        {modelInfo.options && (
+          <div className="flex gap-1.5 shrink-0">
+            {modelInfo.options.map((option) => (
+              <select
+                key={option.key}
+                value={optionValues[option.key]}
+                onChange={(e) => handleOptionChange(option.key, e.target.value)}
+                title={option.label}
+                className={`${selectClassName} flex-1 min-w-0`}
+              >
+                {option.choices.map((choice) => (
+                  <option key={choice.value} value={choice.value}>
+                    {choice.label}
+                  </option>
+                ))}
+              </select>
+            ))}
+          </div>
+        )}
+
+        {/* Google Search toggle - only for models that support grounding */}
+        {modelInfo.supportsGoogleSearch && (
           <label className="flex items-center gap-1.5 text-[10px] text-neutral-300 shrink-0 cursor-pointer">
             <input
               type="checkbox"
@@ -246,6 +348,8 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
             <span>Google Search</span>
           </label>
         )}
+
+        <ForceRegenerateToggle nodeId={id} forceRegenerate={nodeData.forceRegenerate} />
       </div>
     </BaseNode>
   );
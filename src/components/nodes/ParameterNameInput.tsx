@@ -0,0 +1,37 @@
+"use client";
+
+import { useCallback } from "react";
+import { useWorkflowStore } from "@/store/workflowStore";
+
+interface ParameterNameInputProps {
+  nodeId: string;
+  parameterName: string | null | undefined;
+}
+
+// Names the node as a workflow parameter - batch runs fill it from the matching column
+export function ParameterNameInput({ nodeId, parameterName }: ParameterNameInputProps) {
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateNodeData(nodeId, { parameterName: e.target.value || null });
+    },
+    [nodeId, updateNodeData]
+  );
+
+  return (
+    <div className="mt-1.5 flex items-center gap-1.5 shrink-0">
+      <span className={`text-[10px] ${parameterName ? "text-blue-400" : "text-neutral-500"}`}>
+        Param
+      </span>
+      <input
+        type="text"
+        value={parameterName || ""}
+        onChange={handleChange}
+        placeholder="none"
+        title="Parameter name for batch runs"
+        className="nodrag nopan flex-1 min-w-0 px-1.5 py-0.5 text-[10px] text-neutral-300 bg-neutral-900/50 border border-neutral-700 rounded focus:outline-none focus:ring-1 focus:ring-neutral-600 placeholder:text-neutral-600"
+      />
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 "use client";
 
-import { useCallback } from "react";
-import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { useCallback, useEffect, useMemo } from "react";
+import { Handle, Position, NodeProps, Node, useUpdateNodeInternals } from "@xyflow/react";
 import { BaseNode } from "./BaseNode";
+import { ParameterNameInput } from "./ParameterNameInput";
 import { useWorkflowStore } from "@/store/workflowStore";
 import { PromptNodeData } from "@/types";
+import { getTemplateHandleId, getTemplateVariables } from "@/utils/promptTemplate";
 
 type PromptNodeType = Node<PromptNodeData, "prompt">;
 
@@ -12,6 +14,15 @@ export function PromptNode({ id, data, selected }: NodeProps<PromptNodeType>) {
   const nodeData = data;
   const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
 
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  // Each {{variable}} in the prompt gets its own text input
+  const variables = useMemo(() => getTemplateVariables(nodeData.prompt), [nodeData.prompt]);
+  const variablesKey = variables.join("|");
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, variablesKey, updateNodeInternals]);
+
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       updateNodeData(id, { prompt: e.target.value });
@@ -24,10 +35,34 @@ export function PromptNode({ id, data, selected }: NodeProps<PromptNodeType>) {
       <textarea
         value={nodeData.prompt}
         onChange={handleChange}
-        placeholder="Describe what to generate..."
+        placeholder="Describe what to generate... Use {{name}} to add a text input"
         className="nodrag nopan nowheel w-full flex-1 min-h-[70px] p-2 text-xs leading-relaxed text-neutral-100 border border-neutral-700 rounded bg-neutral-900/50 resize-none focus:outline-none focus:ring-1 focus:ring-neutral-600 focus:border-neutral-600 placeholder:text-neutral-500"
       />
 
+      <ParameterNameInput nodeId={id} parameterName={nodeData.parameterName} />
+
+      {/* Template variable inputs */}
+      {variables.map((name, index) => {
+        const top = `${((index + 1) / (variables.length + 1)) * 100}%`;
+        return (
+          <div key={name}>
+            <Handle
+              type="target"
+              position={Position.Left}
+              id={getTemplateHandleId(name)}
+              style={{ top }}
+              data-handletype="text"
+            />
+            <span
+              className="absolute -left-1 -translate-x-full -translate-y-1/2 pr-1 text-[9px] text-neutral-500 pointer-events-none whitespace-nowrap"
+              style={{ top }}
+            >
+              {name}
+            </span>
+          </div>
+        );
+      })}
+
       <Handle
         type="source"
         position={Position.Right}
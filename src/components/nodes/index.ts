@@ -4,5 +4,7 @@ export { PromptNode } from "./PromptNode";
 export { NanoBananaNode } from "./NanoBananaNode";
 export { LLMGenerateNode } from "./LLMGenerateNode";
 export { SplitGridNode } from "./SplitGridNode";
+export { ConditionNode } from "./ConditionNode";
+export { LoopNode } from "./LoopNode";
 export { OutputNode } from "./OutputNode";
 export { GroupNode } from "./GroupNode";
@@ -0,0 +1,7 @@
+// Register the Genkit flows at server startup so the developer UI lists them
+// before the first request
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    await import("@/lib/flows");
+  }
+}
@@ -0,0 +1,384 @@
+import {
+  AnnotationExportSettings,
+  CacheResponse,
+  GenerateRequest,
+  GenerationJob,
+  GenerationStreamEvent,
+  JobKind,
+  JobResponse,
+  JobRun,
+  JobRunResponse,
+  LLMGenerateRequest,
+  LLMModelsRequest,
+  LLMModelsResponse,
+  LLMProvider,
+  RetryPolicy,
+} from "@/types";
+import {
+  ResultCacheStore,
+  ServiceCallOptions,
+  SplitImageResult,
+  WorkflowServices,
+} from "@/lib/workflowEngine";
+import { LLMModelInfo } from "@/lib/llmProviders";
+import { sleep, withRetry } from "@/lib/retry";
+import { readEventStream } from "@/lib/sse";
+
+// Failed API response - status and the server's retryable flag drive client-side retries
+class ApiError extends Error {
+  status: number;
+  retryable?: boolean;
+
+  constructor(message: string, status: number, retryable?: boolean) {
+    super(message);
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+// Build an error from a failed API response
+const readError = async (response: Response): Promise<ApiError> => {
+  const errorText = await response.text();
+  let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  let retryable: boolean | undefined;
+  try {
+    const errorJson = JSON.parse(errorText);
+    errorMessage = errorJson.error || errorMessage;
+    retryable = errorJson.retryable;
+  } catch {
+    if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
+  }
+  return new ApiError(errorMessage, response.status, retryable);
+};
+
+const postJson = async (url: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await readError(response);
+  }
+
+  return response;
+};
+
+// POST to a streaming route and pass each progress event on. A stream error
+// event is thrown as an ApiError so it goes through the same retry handling.
+// Aborting the signal closes the connection, which cancels the call server-side.
+const postEventStream = async (
+  url: string,
+  body: unknown,
+  onEvent: (event: GenerationStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const response = await postJson(url, body, signal);
+  if (!response.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+
+  let streamError: ApiError | null = null;
+  await readEventStream(response.body, (data) => {
+    const event = JSON.parse(data) as GenerationStreamEvent;
+    if (event.type === "error") {
+      streamError = new ApiError(event.error, response.status, event.retryable);
+      return;
+    }
+    onEvent(event);
+  });
+
+  if (streamError) throw streamError;
+};
+
+// Load an image to read its natural dimensions
+const getImageDimensions = (image: string): Promise<{ width: number; height: number } | null> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.width, height: img.height });
+    img.onerror = () => resolve(null);
+    img.src = image;
+  });
+
+const splitImage = async (image: string, rows: number, cols: number) => {
+  // Import lazily - the grid splitter needs a DOM canvas
+  const { splitWithDimensions } = await import("@/utils/gridSplitter");
+  const { images } = await splitWithDimensions(image, rows, cols);
+
+  const results: SplitImageResult[] = [];
+  for (const splitImage of images) {
+    results.push({ image: splitImage, dimensions: await getImageDimensions(splitImage) });
+  }
+  return results;
+};
+
+const exportImage = async (image: string, settings: AnnotationExportSettings) => {
+  // Import lazily - Konva needs a DOM canvas
+  const { loadImage, renderExportedImage } = await import("@/utils/annotationExport");
+  return renderExportedImage(await loadImage(image), settings);
+};
+
+const flattenImage = async (image: string, overlay: string, settings: AnnotationExportSettings) => {
+  const { loadImage, renderFlattenedImage } = await import("@/utils/annotationExport");
+  return renderFlattenedImage(await loadImage(image), await loadImage(overlay), settings);
+};
+
+/**
+ * Workflow services backed by the app's streaming API routes, used by the canvas.
+ * Retries happen here rather than in the routes so nodes can show progress.
+ */
+export const createBrowserServices = (retryPolicy: RetryPolicy): WorkflowServices => {
+  const routeRetryPolicy: Partial<RetryPolicy> = { ...retryPolicy, maxAttempts: 1 };
+
+  const retry = <T>(fn: () => Promise<T>, { onRetry, signal }: ServiceCallOptions) =>
+    withRetry(fn, retryPolicy, (attempt) => onRetry?.(attempt, retryPolicy.maxAttempts), signal);
+
+  return {
+    generateImage: (request, options) =>
+      retry(async () => {
+        let image: string | null = null;
+        await postEventStream("/api/generate/stream", { ...request, retryPolicy: routeRetryPolicy }, (event) => {
+          if (event.type === "image") image = event.image;
+        }, options.signal);
+        if (!image) {
+          throw new Error("Generation failed");
+        }
+        return image;
+      }, options),
+
+    generateText: (request, options) =>
+      retry(async () => {
+        let partialText = "";
+        let text: string | null = null;
+        await postEventStream("/api/llm/stream", { ...request, retryPolicy: routeRetryPolicy }, (event) => {
+          if (event.type === "token") {
+            partialText += event.text;
+            options.onPartialText?.(partialText);
+          } else if (event.type === "text") {
+            text = event.text;
+          }
+        }, options.signal);
+        if (!text) {
+          throw new Error("LLM generation failed");
+        }
+        return text;
+      }, options),
+
+    splitImage,
+    flattenImage,
+    exportImage,
+  };
+};
+
+// How often to poll a queued job for its result
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// Submit a job (or re-attach to the node's existing job in this run) and poll until it settles.
+// Aborting the signal stops polling and cancels the job on the server.
+const runJob = async (
+  directoryPath: string,
+  runId: string,
+  kind: JobKind,
+  request: GenerateRequest | LLMGenerateRequest,
+  retryPolicy: RetryPolicy,
+  { nodeId, onRetry, onPartialText, signal }: ServiceCallOptions
+): Promise<string> => {
+  const query = new URLSearchParams({ directoryPath, runId, nodeId }).toString();
+  const cancel = () => {
+    fetch(`/api/jobs?${query}`, { method: "DELETE", keepalive: true }).catch((err) => {
+      console.error("Failed to cancel job:", err);
+    });
+  };
+  signal?.throwIfAborted();
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  try {
+    const response = await postJson("/api/jobs", { directoryPath, runId, nodeId, kind, request, retryPolicy }, signal);
+    let job: GenerationJob | undefined = ((await response.json()) as JobResponse).job;
+
+    let reportedAttempt = 1;
+    let reportedText: string | null = null;
+    while (job && (job.status === "queued" || job.status === "running")) {
+      // A queued job with attempts behind it is waiting to retry
+      const attempt = job.status === "queued" ? job.attempts + 1 : job.attempts;
+      if (attempt > reportedAttempt) {
+        reportedAttempt = attempt;
+        onRetry?.(attempt, job.maxAttempts);
+      }
+      if (job.partialText && job.partialText !== reportedText) {
+        reportedText = job.partialText;
+        onPartialText?.(job.partialText);
+      }
+
+      await sleep(JOB_POLL_INTERVAL_MS, signal);
+      const pollResponse = await fetch(`/api/jobs?${query}`, { signal });
+      if (!pollResponse.ok) {
+        throw await readError(pollResponse);
+      }
+      job = ((await pollResponse.json()) as JobResponse).job;
+    }
+
+    if (!job || job.status !== "complete" || !job.result) {
+      throw new Error(job?.error || (kind === "generate" ? "Generation failed" : "LLM generation failed"));
+    }
+    return job.result;
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+  }
+};
+
+/**
+ * Workflow services backed by the project's persistent job queue. Provider
+ * calls survive a tab reload and are retried server-side per the retry policy.
+ * The queue only calls the server's own local LLM endpoint, so requests for a
+ * base URL set in the run settings go through the streaming route instead.
+ */
+export const createJobServices = (
+  directoryPath: string,
+  runId: string,
+  retryPolicy: RetryPolicy
+): WorkflowServices => {
+  const browserServices = createBrowserServices(retryPolicy);
+
+  return {
+    generateImage: (request, options) => runJob(directoryPath, runId, "generate", request, retryPolicy, options),
+    generateText: (request, options) =>
+      request.baseUrl
+        ? browserServices.generateText(request, options)
+        : runJob(directoryPath, runId, "llm", request, retryPolicy, options),
+    splitImage,
+    flattenImage,
+    exportImage,
+  };
+};
+
+/**
+ * Result cache backed by the project folder, for use with withResultCache.
+ */
+export const createCacheStore = (directoryPath: string): ResultCacheStore => ({
+  get: async (key) => {
+    const query = new URLSearchParams({ directoryPath, key }).toString();
+    const response = await fetch(`/api/cache?${query}`);
+    if (!response.ok) {
+      throw await readError(response);
+    }
+    const result: CacheResponse = await response.json();
+    return result.entry?.result || null;
+  },
+  set: async (key, kind, result) => {
+    await postJson("/api/cache", { directoryPath, key, kind, result });
+  },
+});
+
+/**
+ * Starts a queued run for a workflow in its project directory.
+ */
+export const createRun = async (
+  directoryPath: string,
+  workflowId: string,
+  startFromNodeId: string | null,
+  nodeIds: string[] | null
+): Promise<JobRun> => {
+  const response = await postJson("/api/runs", { directoryPath, workflowId, startFromNodeId, nodeIds });
+  const result: JobRunResponse = await response.json();
+  if (!result.success || !result.run) {
+    throw new Error(result.error || "Failed to create run");
+  }
+  return result.run;
+};
+
+/**
+ * Marks a queued run as finished so it is not resumed on the next load.
+ */
+export const finishRun = (directoryPath: string, runId: string) => {
+  fetch("/api/runs", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ directoryPath, runId }),
+  }).catch((err) => {
+    console.error("Failed to finish run:", err);
+  });
+};
+
+/**
+ * Returns the latest run of a workflow that was interrupted before finishing.
+ */
+export const findInterruptedRun = async (directoryPath: string, workflowId: string): Promise<JobRun | null> => {
+  const query = new URLSearchParams({ directoryPath, workflowId }).toString();
+  const response = await fetch(`/api/runs?${query}`);
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  const result: JobRunResponse = await response.json();
+  return result.run || null;
+};
+
+/**
+ * Lists the models an Anthropic or OpenAI-compatible endpoint serves.
+ */
+export const fetchLLMModels = async (provider: LLMProvider, baseUrl?: string): Promise<LLMModelInfo[]> => {
+  const body: LLMModelsRequest = { provider, ...(baseUrl && { baseUrl }) };
+  const response = await fetch("/api/llm/models", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw await readError(response);
+  }
+  const result: LLMModelsResponse = await response.json();
+  return result.models || [];
+};
+
+/**
+ * Saves a generated image to the project's generations folder.
+ * Pass a filename (without extension) to override the timestamp-based name.
+ */
+export const saveGeneration = (directoryPath: string, image: string, prompt: string, filename?: string) => {
+  fetch("/api/save-generation", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      directoryPath,
+      image,
+      prompt,
+      filename,
+    }),
+  }).catch((err) => {
+    console.error("Failed to save generation:", err);
+  });
+};
+
+/**
+ * Resolves an image parameter value to a data URL. Data URLs are used as-is,
+ * http(s) URLs are downloaded, and anything else is read from disk relative
+ * to the project folder.
+ */
+export const loadParameterImage = async (value: string, directoryPath: string | null): Promise<string> => {
+  if (value.startsWith("data:image/")) {
+    return value;
+  }
+
+  if (/^https?:\/\//.test(value)) {
+    const response = await fetch(value);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${value}: HTTP ${response.status}`);
+    }
+    const blob = await response.blob();
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error(`Failed to read ${value}`));
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  const response = await postJson("/api/load-image", { filePath: value, directoryPath });
+  const result: { success: boolean; image?: string; error?: string } = await response.json();
+  if (!result.success || !result.image) {
+    throw new Error(result.error || `Failed to load ${value}`);
+  }
+  return result.image;
+};
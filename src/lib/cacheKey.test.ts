@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { computeCacheKey, isCacheKey } from "@/lib/cacheKey";
+import { DEFAULT_RETRY_POLICY } from "@/lib/retry";
+import { GenerateRequest, LLMGenerateRequest } from "@/types";
+
+const imageRequest: GenerateRequest = {
+  prompt: "a red fox at dawn",
+  images: ["data:image/png;base64,AAAA"],
+  aspectRatio: "1:1",
+  model: "nano-banana",
+};
+
+const llmRequest: LLMGenerateRequest = {
+  prompt: "describe a fox",
+  provider: "google",
+  model: "gemini-2.5-flash",
+  temperature: 0.7,
+};
+
+describe("computeCacheKey", () => {
+  it("returns a SHA-256 hex key", async () => {
+    expect(isCacheKey(await computeCacheKey("generate", imageRequest))).toBe(true);
+  });
+
+  it("is the same for the same settings in any key order", async () => {
+    const reordered: GenerateRequest = { model: "nano-banana", aspectRatio: "1:1", images: imageRequest.images, prompt: imageRequest.prompt };
+    expect(await computeCacheKey("generate", reordered)).toBe(await computeCacheKey("generate", imageRequest));
+  });
+
+  it("ignores the retry policy", async () => {
+    const withRetryPolicy = { ...llmRequest, retryPolicy: { ...DEFAULT_RETRY_POLICY, maxAttempts: 2 } };
+    expect(await computeCacheKey("llm", withRetryPolicy)).toBe(await computeCacheKey("llm", llmRequest));
+  });
+
+  it("changes with the prompt, settings, images, mask and kind", async () => {
+    const base = await computeCacheKey("generate", imageRequest);
+    const variants: [GenerateRequest, "generate" | "llm"][] = [
+      [{ ...imageRequest, prompt: "a grey fox at dawn" }, "generate"],
+      [{ ...imageRequest, aspectRatio: "16:9" }, "generate"],
+      [{ ...imageRequest, images: ["data:image/png;base64,BBBB"] }, "generate"],
+      [{ ...imageRequest, mask: "data:image/png;base64,CCCC" }, "generate"],
+      [imageRequest, "llm"],
+    ];
+    for (const [request, kind] of variants) {
+      expect(await computeCacheKey(kind, request)).not.toBe(base);
+    }
+  });
+
+  it("treats an omitted field like an undefined one", async () => {
+    expect(await computeCacheKey("llm", { ...llmRequest, maxTokens: undefined })).toBe(await computeCacheKey("llm", llmRequest));
+  });
+});
+
+describe("isCacheKey", () => {
+  it("only accepts 64 lowercase hex characters", () => {
+    expect(isCacheKey("a".repeat(64))).toBe(true);
+    expect(isCacheKey("A".repeat(64))).toBe(false);
+    expect(isCacheKey("../../etc/passwd")).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Result Cache Keys
+ *
+ * A cache key is a SHA-256 hash of everything that affects a provider call's
+ * output: the call kind, model and settings, prompt, and the hash of each
+ * input image and mask. Retry settings are left out - they don't change the result.
+ * Uses Web Crypto, so the same key is computed in the browser and on the server.
+ */
+
+import { GenerateRequest, JobKind, LLMGenerateRequest } from "@/types";
+
+const encoder = new TextEncoder();
+
+const sha256 = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/**
+ * Computes the cache key for a generate or LLM request.
+ */
+export async function computeCacheKey(
+  kind: JobKind,
+  request: GenerateRequest | LLMGenerateRequest
+): Promise<string> {
+  const { retryPolicy: _retryPolicy, ...settings } = request;
+
+  // Hash images separately so the key input stays small
+  const images = settings.images
+    ? await Promise.all(settings.images.map((image) => sha256(image)))
+    : undefined;
+  const mask = "mask" in settings && settings.mask ? await sha256(settings.mask) : undefined;
+
+  // Sort keys so the same settings always produce the same key
+  const fields: Record<string, unknown> = { ...settings, kind, images, mask };
+  const canonical = Object.keys(fields)
+    .sort()
+    .filter((key) => fields[key] !== undefined)
+    .map((key) => [key, fields[key]]);
+
+  return sha256(JSON.stringify(canonical));
+}
+
+export const isCacheKey = (key: string) => /^[a-f0-9]{64}$/.test(key);
@@ -0,0 +1,59 @@
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ImageGenerateInputSchema, annotationFlattenFlow, runImageGenerateFlow, serverServices } from "@/lib/flows";
+import { IMAGE_MODEL_IDS } from "@/lib/imageProviders";
+import { decodeImage } from "@/lib/images";
+import { DEFAULT_EXPORT_SETTINGS } from "@/utils/annotationExportSettings";
+
+const solidPng = async (width: number, height: number, background: { r: number; g: number; b: number; alpha: number }) =>
+  `data:image/png;base64,${(await sharp({ create: { width, height, channels: 4, background } }).png().toBuffer()).toString("base64")}`;
+
+beforeEach(() => {
+  vi.stubEnv("MOCK_PROVIDERS", "true");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("imageGenerate flow", () => {
+  it("accepts every registered model and rejects unknown ones", () => {
+    IMAGE_MODEL_IDS.forEach((model) => expect(ImageGenerateInputSchema.safeParse({ prompt: "a fox", model }).success).toBe(true));
+    expect(ImageGenerateInputSchema.safeParse({ prompt: "a fox", model: "dall-e-2" }).success).toBe(false);
+  });
+
+  it("reports the model it called", async () => {
+    const models: string[] = [];
+
+    const image = await runImageGenerateFlow({ prompt: "a fox", images: [], model: "mock" }, undefined, {
+      onModelCalled: (model) => models.push(model),
+    });
+
+    expect(image.startsWith("data:image/png;base64,")).toBe(true);
+    expect(models).toEqual(["mock"]);
+  });
+});
+
+describe("annotationFlatten flow", () => {
+  it("composites the overlay onto the source image", async () => {
+    const source = await solidPng(4, 4, { r: 255, g: 0, b: 0, alpha: 1 });
+    const overlay = await solidPng(2, 2, { r: 0, g: 0, b: 255, alpha: 1 });
+
+    const { image } = await annotationFlattenFlow({ image: source, overlay, settings: DEFAULT_EXPORT_SETTINGS });
+    const flattened = await decodeImage(image);
+
+    expect([flattened.width, flattened.height]).toEqual([4, 4]);
+    expect([...flattened.data.slice(0, 3)]).toEqual([0, 0, 255]);
+  });
+
+  it("backs the server services' flattenImage", async () => {
+    const source = await solidPng(4, 4, { r: 255, g: 0, b: 0, alpha: 1 });
+    const overlay = await solidPng(4, 4, { r: 0, g: 0, b: 0, alpha: 0 });
+
+    const image = await serverServices.flattenImage(source, overlay, { ...DEFAULT_EXPORT_SETTINGS, format: "jpeg" });
+
+    expect(image.startsWith("data:image/jpeg;base64,")).toBe(true);
+  });
+});
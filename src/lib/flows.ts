@@ -0,0 +1,213 @@
+/**
+ * Genkit Flows
+ *
+ * Each server-side node executor is a named Genkit flow with zod input and
+ * output schemas, so every call is traced and can be inspected, replayed and
+ * evaluated in the Genkit developer UI (npm run genkit:start). The API routes,
+ * the job queue and headless runs all go through these flows.
+ */
+
+import { z } from "genkit";
+import { ai } from "@/lib/genkit";
+import { GenerationOptions, generateImage, generateText } from "@/lib/generation";
+import { IMAGE_MODEL_IDS } from "@/lib/imageProviders";
+import { cropImage, decodeImage, exportImage, flattenImage, toPngDataUrl } from "@/lib/images";
+import { DEFAULT_RETRY_POLICY, withRetry } from "@/lib/retry";
+import { WorkflowServices } from "@/lib/workflowEngine";
+import { createGridForDimensions } from "@/utils/gridSplitter";
+import { AnnotationExportSettings, GenerateRequest, LLMGenerateRequest } from "@/types";
+
+const AspectRatioSchema = z.enum(["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"]);
+
+export const ImageGenerateInputSchema = z.object({
+  images: z.array(z.string()).optional().describe("Reference images as data URLs"),
+  prompt: z.string(),
+  aspectRatio: AspectRatioSchema.optional(),
+  resolution: z.enum(["1K", "2K", "4K"]).optional(),
+  model: z.enum(IMAGE_MODEL_IDS).optional(),
+  useGoogleSearch: z.boolean().optional(),
+  options: z.record(z.string()).optional().describe("Model-specific options declared by the image provider"),
+  mask: z.string().optional().describe("Black and white PNG data URL - only white areas are edited"),
+}) satisfies z.ZodType<Omit<GenerateRequest, "retryPolicy">>;
+
+export const LLMGenerateInputSchema = z.object({
+  prompt: z.string(),
+  images: z.array(z.string()).optional().describe("Images as data URLs, for vision models"),
+  provider: z.enum(["google", "openai", "anthropic", "openaiCompatible"]),
+  model: z.string(),
+  temperature: z.number().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  baseUrl: z.string().optional().describe("OpenAI-compatible server base URL"),
+  jsonSchema: z.record(z.unknown()).optional().describe("JSON schema the output must match"),
+}) satisfies z.ZodType<Omit<LLMGenerateRequest, "retryPolicy">>;
+
+export const GridSplitInputSchema = z.object({
+  image: z.string().describe("Contact sheet as a PNG, JPEG or WebP data URL"),
+  rows: z.number().int().min(1).max(10),
+  cols: z.number().int().min(1).max(10),
+});
+
+const ExportSettingsSchema = z.object({
+  scale: z.number().positive().max(1),
+  maxDimension: z.number().int().positive().nullable(),
+  format: z.enum(["png", "jpeg", "webp"]),
+  quality: z.number().min(0).max(1),
+}) satisfies z.ZodType<AnnotationExportSettings>;
+
+export const AnnotationFlattenInputSchema = z.object({
+  image: z.string().describe("Source image as a data URL"),
+  overlay: z.string().describe("Annotation layers on a transparent background, as a PNG or WebP data URL"),
+  settings: ExportSettingsSchema,
+});
+
+export const AnnotationExportInputSchema = z.object({
+  image: z.string().describe("Image as a data URL"),
+  settings: ExportSettingsSchema,
+});
+
+const ImageOutputSchema = z.object({ image: z.string().describe("PNG data URL") });
+
+// Progress sent to streaming callers while a provider call runs
+const ProgressSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("model-called"), model: z.string() }),
+  z.object({ type: z.literal("token"), text: z.string() }),
+]);
+
+export const imageGenerateFlow = ai.defineFlow(
+  {
+    name: "imageGenerate",
+    inputSchema: ImageGenerateInputSchema,
+    outputSchema: ImageOutputSchema,
+    streamSchema: ProgressSchema,
+  },
+  async (request, { sendChunk, abortSignal, context }) => {
+    const image = await generateImage(request, context?.requestId, {
+      signal: abortSignal,
+      onModelCalled: (model) => sendChunk({ type: "model-called", model }),
+    });
+    return { image };
+  }
+);
+
+export const llmGenerateFlow = ai.defineFlow(
+  {
+    name: "llmGenerate",
+    inputSchema: LLMGenerateInputSchema,
+    outputSchema: z.object({ text: z.string() }),
+    streamSchema: ProgressSchema,
+  },
+  async (request, { sendChunk, streamingRequested, abortSignal }) => {
+    const text = await generateText(request, {
+      signal: abortSignal,
+      onModelCalled: (model) => sendChunk({ type: "model-called", model }),
+      // Only ask the provider to stream when the caller listens for tokens
+      onToken: streamingRequested ? (token) => sendChunk({ type: "token", text: token }) : undefined,
+    });
+    return { text };
+  }
+);
+
+export const gridSplitFlow = ai.defineFlow(
+  {
+    name: "gridSplit",
+    inputSchema: GridSplitInputSchema,
+    outputSchema: z.object({
+      images: z.array(z.object({
+        image: z.string(),
+        dimensions: z.object({ width: z.number(), height: z.number() }),
+      })).describe("Cells in reading order"),
+    }),
+  },
+  async ({ image, rows, cols }) => {
+    const source = await decodeImage(image);
+    const grid = createGridForDimensions(source.width, source.height, rows, cols);
+    return {
+      images: await Promise.all(grid.cells.map(async (cell) => {
+        const cellImage = await cropImage(source, cell);
+        return {
+          image: await toPngDataUrl(cellImage),
+          dimensions: { width: cellImage.width, height: cellImage.height },
+        };
+      })),
+    };
+  }
+);
+
+export const annotationFlattenFlow = ai.defineFlow(
+  {
+    name: "annotationFlatten",
+    inputSchema: AnnotationFlattenInputSchema,
+    outputSchema: z.object({ image: z.string().describe("Data URL in the chosen format") }),
+  },
+  async ({ image, overlay, settings }) => ({ image: await flattenImage(image, overlay, settings) })
+);
+
+export const annotationExportFlow = ai.defineFlow(
+  {
+    name: "annotationExport",
+    inputSchema: AnnotationExportInputSchema,
+    outputSchema: z.object({ image: z.string().describe("Data URL in the chosen format") }),
+  },
+  async ({ image, settings }) => ({ image: await exportImage(image, settings) })
+);
+
+// Pass flow progress chunks on to generation option callbacks
+const forwardProgress = (options: GenerationOptions) => (chunk: z.infer<typeof ProgressSchema>) => {
+  if (chunk.type === "model-called") options.onModelCalled?.(chunk.model);
+  else options.onToken?.(chunk.text);
+};
+
+/**
+ * Runs the image generate flow. Same contract as generateImage.
+ */
+export async function runImageGenerateFlow(
+  request: GenerateRequest,
+  requestId?: string,
+  options: GenerationOptions = {}
+): Promise<string> {
+  const { result } = await imageGenerateFlow.run(request, {
+    abortSignal: options.signal,
+    context: { requestId },
+    onChunk: forwardProgress(options),
+  });
+  return result.image;
+}
+
+/**
+ * Runs the LLM generate flow. Same contract as generateText.
+ */
+export async function runLLMGenerateFlow(
+  request: LLMGenerateRequest,
+  options: GenerationOptions = {}
+): Promise<string> {
+  const { result } = await llmGenerateFlow.run(request, {
+    abortSignal: options.signal,
+    // Without a token listener the flow runs unstreamed
+    onChunk: options.onToken || options.onModelCalled ? forwardProgress(options) : undefined,
+  });
+  return result.text;
+}
+
+/**
+ * Workflow services backed by the Genkit flows, used for headless runs.
+ * Transient failures are retried with the default retry policy.
+ */
+export const serverServices: WorkflowServices = {
+  generateImage: (request, { onRetry, signal }) =>
+    withRetry(
+      () => runImageGenerateFlow(request, undefined, { signal }),
+      DEFAULT_RETRY_POLICY,
+      (attempt) => onRetry?.(attempt, DEFAULT_RETRY_POLICY.maxAttempts),
+      signal
+    ),
+  generateText: (request, { onRetry, signal }) =>
+    withRetry(
+      () => runLLMGenerateFlow(request, { signal }),
+      DEFAULT_RETRY_POLICY,
+      (attempt) => onRetry?.(attempt, DEFAULT_RETRY_POLICY.maxAttempts),
+      signal
+    ),
+  splitImage: async (image, rows, cols) => (await gridSplitFlow({ image, rows, cols })).images,
+  flattenImage: async (image, overlay, settings) => (await annotationFlattenFlow({ image, overlay, settings })).image,
+  exportImage: async (image, settings) => (await annotationExportFlow({ image, settings })).image,
+};
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateImage, generateText } from "@/lib/generation";
+import { decodeImage } from "@/lib/images";
+import { DEFAULT_RETRY_POLICY, isRetryableError } from "@/lib/retry";
+import { GenerateRequest } from "@/types";
+
+// Only the OpenAI-compatible and mock paths are exercised, so Genkit is never called
+vi.mock("@/lib/genkit", () => ({ ai: {} }));
+
+const fetchMock = vi.fn<typeof fetch>();
+
+const request = (baseUrl?: string) =>
+  ({ prompt: "Describe a fox", provider: "openaiCompatible", model: "llama3", ...(baseUrl && { baseUrl }) }) as const;
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+  vi.stubEnv("MOCK_PROVIDERS", "");
+  vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "http://localhost:1234/v1/");
+  vi.stubEnv("OPENAI_COMPATIBLE_API_KEY", "local-key");
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("generateText with an OpenAI-compatible server", () => {
+  it("calls the server's chat completions endpoint with its key", async () => {
+    fetchMock.mockResolvedValue(Response.json({ choices: [{ message: { content: "A red fox." } }] }));
+
+    expect(await generateText(request())).toBe("A red fox.");
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:1234/v1/chat/completions");
+    expect(new Headers(init?.headers).get("Authorization")).toBe("Bearer local-key");
+    expect(JSON.parse(init?.body as string)).toMatchObject({ model: "llama3", messages: [{ role: "user", content: "Describe a fox" }] });
+  });
+
+  it("never sends the server's key to a base URL from the request", async () => {
+    fetchMock.mockResolvedValue(Response.json({ choices: [{ message: { content: "A red fox." } }] }));
+
+    await generateText(request("http://192.168.1.20:8080/v1"));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://192.168.1.20:8080/v1/chat/completions");
+    expect(new Headers(init?.headers).has("Authorization")).toBe(false);
+  });
+
+  it("streams tokens from the server's event stream", async () => {
+    const events = ["A red", " fox."].map((content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+    fetchMock.mockResolvedValue(new Response([...events, "data: [DONE]\n\n"].join("")));
+    const tokens: string[] = [];
+
+    expect(await generateText(request(), { onToken: (token) => tokens.push(token) })).toBe("A red fox.");
+    expect(tokens).toEqual(["A red", " fox."]);
+  });
+
+  it("reports a server that isn't running", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    await expect(generateText(request())).rejects.toThrow("Could not reach OpenAI-compatible server at http://localhost:1234");
+  });
+
+  it("keeps the response status on errors, so the retry policy sees it", async () => {
+    fetchMock.mockResolvedValue(Response.json({ error: { message: "Model is loading" } }, { status: 503 }));
+
+    const error = await generateText(request()).catch((error) => error);
+    expect(error).toMatchObject({ message: "Model is loading", status: 503 });
+    expect(isRetryableError(error, DEFAULT_RETRY_POLICY)).toBe(true);
+  });
+});
+
+describe("mock mode", () => {
+  beforeEach(() => {
+    vi.stubEnv("MOCK_PROVIDERS", "true");
+  });
+
+  it("answers every image model with the same placeholder for the same request, without calling out", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const request: GenerateRequest = { prompt: "a red fox", images: [], model: "nano-banana-pro", aspectRatio: "16:9" };
+
+    const image = await generateImage(request);
+    const { width, height } = await decodeImage(image);
+
+    expect([width, height]).toEqual([512, 288]);
+    expect(await generateImage(request)).toBe(image);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("streams the mock text word by word", async () => {
+    const tokens: string[] = [];
+
+    const text = await generateText(request(), { onToken: (token) => tokens.push(token) });
+
+    expect(text).toBe("Mock response from openaiCompatible/llama3:\nDescribe a fox");
+    expect(tokens.join("")).toBe(text);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,680 @@
+import { ai } from "@/lib/genkit";
+import { AspectRatio, GenerateRequest, LLMGenerateRequest, LLMProvider } from "@/types";
+import { Part } from "genkit";
+import { readEventStream } from "@/lib/sse";
+import {
+  DEFAULT_IMAGE_MODEL,
+  ImageProviderId,
+  getImageModel,
+  getImageSize,
+  resolveModelOptions,
+} from "@/lib/imageProviders";
+import { colorForText, createPlaceholderImage } from "@/lib/placeholderImage";
+import { decodeImage, encodePng } from "@/lib/images";
+import { DEFAULT_OPENAI_COMPATIBLE_BASE_URL, LLMModelInfo, getLLMProvider } from "@/lib/llmProviders";
+import { MOCK_LLM_MODELS, generateMockText, isMockMode } from "@/lib/mockProvider";
+import { JsonSchema } from "@/utils/structuredOutput";
+
+// Map Gemini image model types to model IDs
+// Using exact model strings as Genkit should support them
+const GEMINI_MODEL_MAP: Record<string, string> = {
+  "nano-banana": "googleai/gemini-2.5-flash-image",
+  "nano-banana-pro": "googleai/gemini-3-pro-image-preview",
+};
+
+// Map LLM model types to actual API model IDs
+const GOOGLE_MODEL_MAP: Record<string, string> = {
+  "gemini-2.5-flash": "googleai/gemini-2.5-flash",
+  "gemini-3-flash-preview": "googleai/gemini-3-flash-preview",
+  "gemini-3-pro-preview": "googleai/gemini-3-pro-preview",
+};
+
+const OPENAI_API_URL = "https://api.openai.com/v1";
+
+const OPENAI_MODEL_MAP: Record<string, string> = {
+  "gpt-4.1-mini": "gpt-4.1-mini",
+  "gpt-4.1-nano": "gpt-4.1-nano",
+};
+
+// Optional progress callbacks for streaming callers, and a signal to abort the provider call
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onModelCalled?: (model: string) => void;
+  // Receives each chunk of LLM output as it arrives
+  onToken?: (text: string) => void;
+}
+
+// Split a data URL into its MIME type and base64 payload (plain base64 is treated as PNG)
+// Error for a failed provider response, carrying its status for the retry policy
+const providerError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+function parseDataUrl(image: string): { mimeType: string; data: string } {
+  if (!image.includes("base64,")) {
+    return { mimeType: "image/png", data: image };
+  }
+  const [header, data] = image.split("base64,");
+  const mimeMatch = header.match(/data:([^;]+)/);
+  return { mimeType: mimeMatch ? mimeMatch[1] : "image/png", data };
+}
+
+// Genkit media part for an image data URL
+function toMediaPart(image: string): Part {
+  const { mimeType, data } = parseDataUrl(image);
+
+  // Genkit expects full data URL in 'url' field for media parts
+  return {
+    media: {
+      contentType: mimeType,
+      url: `data:${mimeType};base64,${data}`
+    }
+  };
+}
+
+const GEMINI_MASK_INSTRUCTION =
+  "The last image is a black and white mask for the first image. Only change the areas that are white in the mask and keep everything else exactly as it is. Do not include the mask in the result.";
+
+type ImageBackend = (
+  request: GenerateRequest,
+  requestId: string,
+  options: GenerationOptions
+) => Promise<string>;
+
+const generateWithGemini: ImageBackend = async (request, requestId, options) => {
+  const { images = [], prompt, model = DEFAULT_IMAGE_MODEL, aspectRatio, resolution, useGoogleSearch, mask } = request;
+
+  // Prepare inputs for Genkit
+  const promptParts: Part[] = [
+    { text: mask ? `${prompt}\n\n${GEMINI_MASK_INSTRUCTION}` : prompt }
+  ];
+
+  // Add images - Gemini has no mask parameter, so the mask goes last with an instruction
+  images.forEach((image) => promptParts.push(toMediaPart(image)));
+  if (mask) promptParts.push(toMediaPart(mask));
+
+  // Build configuration
+  const config: any = {};
+  if (aspectRatio) {
+    config.imageConfig = { aspectRatio };
+  }
+  if (model === "nano-banana-pro" && resolution) {
+    if (!config.imageConfig) config.imageConfig = {};
+    config.imageConfig.imageSize = resolution;
+  }
+
+  // Required for Gemini models to output images
+  (config as any).responseModalities = ['IMAGE', 'TEXT'];
+
+  // Handle Google Search tool (passed via config for now as raw tool check might be needed)
+  // Note: Genkit tool abstraction is preferred, but for built-in model tools, we pass them in config if supported by plugin
+  // or as a known tool.
+  // For now, we will omit explicit Google Search tool passing unless we define it as a Genkit tool.
+  // If 'useGoogleSearch' is critical, we might need to check if we can pass raw 'tools' in config.
+  // Attempting to pass raw tools array in config for pass-through:
+  if (getImageModel(model)?.supportsGoogleSearch && useGoogleSearch) {
+    // This is an attempt to pass raw tools to the underlying provider
+    (config as any).tools = [{ googleSearch: {} }];
+  }
+
+  console.log(`[API:${requestId}] Calling Genkit generate...`);
+  options.onModelCalled?.(GEMINI_MODEL_MAP[model]);
+
+  const response = await ai.generate({
+    model: GEMINI_MODEL_MAP[model],
+    prompt: promptParts,
+    config: config,
+    abortSignal: options.signal,
+  });
+
+  console.log(`[API:${requestId}] Genkit response received`);
+
+  // Extract image from response
+  // Genkit response.media() should return the first media part
+  const media = response.media;
+
+  if (media) {
+    // Genkit usually returns media as { url, contentType } or similar.
+    // If it's a data URL, we can return it directly.
+    // If it's a generated image, it is often a data URL in the output part.
+    console.log(`[API:${requestId}] Found media in response`);
+    return media.url; // Assuming data URL is returned
+  }
+
+  // Fallback: Check for text or error
+  console.warn(`[API:${requestId}] No media found, checking text`);
+  const text = response.text;
+  if (text) {
+    throw new Error(`Model returned text instead of image: ${text.substring(0, 200)}`);
+  }
+
+  throw new Error("No image or text in response");
+};
+
+// OpenAI edits take a mask whose transparent pixels mark the area to edit
+async function toAlphaMask(mask: string): Promise<Blob> {
+  const image = await decodeImage(mask);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const white = (image.data[i] + image.data[i + 1] + image.data[i + 2]) / 3 >= 128;
+    image.data[i + 3] = white ? 0 : 255;
+  }
+  return new Blob([Uint8Array.from(await encodePng(image))], { type: "image/png" });
+}
+
+// Output sizes gpt-image-1 supports, by aspect ratio
+const OPENAI_IMAGE_SIZES: Partial<Record<AspectRatio, string>> = {
+  "1:1": "1024x1024",
+  "3:2": "1536x1024",
+  "2:3": "1024x1536",
+};
+
+const generateWithOpenAIImages: ImageBackend = async (request, requestId, options) => {
+  const { images = [], prompt, model = "gpt-image-1", aspectRatio = "1:1" } = request;
+
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY not configured");
+  }
+
+  const size = OPENAI_IMAGE_SIZES[aspectRatio];
+  if (!size) {
+    throw new Error(`Aspect ratio ${aspectRatio} is not supported by ${model}`);
+  }
+  const { quality } = resolveModelOptions(getImageModel(model)!, request.options);
+
+  console.log(`[API:${requestId}] Calling OpenAI images ${images.length > 0 ? "edit" : "generate"}...`);
+  options.onModelCalled?.(model);
+
+  // Reference images require the multipart edits endpoint
+  let response: Response;
+  if (images.length > 0) {
+    const form = new FormData();
+    form.append("model", model);
+    form.append("prompt", prompt);
+    form.append("size", size);
+    form.append("quality", quality);
+    images.forEach((image, index) => {
+      const { mimeType, data } = parseDataUrl(image);
+      const extension = mimeType.split("/")[1] || "png";
+      form.append("image[]", new Blob([Buffer.from(data, "base64")], { type: mimeType }), `image-${index}.${extension}`);
+    });
+    if (request.mask) {
+      form.append("mask", await toAlphaMask(request.mask), "mask.png");
+    }
+    response = await fetch("https://api.openai.com/v1/images/edits", {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${apiKey}` },
+      body: form,
+      signal: options.signal,
+    });
+  } else {
+    response = await fetch("https://api.openai.com/v1/images/generations", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({ model, prompt, size, quality }),
+      signal: options.signal,
+    });
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw providerError(error.error?.message || `OpenAI API error: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  const b64 = data.data?.[0]?.b64_json;
+  if (!b64) {
+    throw new Error("No image in OpenAI response");
+  }
+
+  return `data:image/png;base64,${b64}`;
+};
+
+// Automatic1111 / Forge WebUI started with --api
+const generateWithStableDiffusion: ImageBackend = async (request, requestId, options) => {
+  const { images = [], prompt, model = "sd-webui", aspectRatio = "1:1" } = request;
+  const baseUrl = (process.env.SD_WEBUI_URL || "http://127.0.0.1:7860").replace(/\/+$/, "");
+  const { size, steps, denoisingStrength } = resolveModelOptions(getImageModel(model)!, request.options);
+  const { width, height } = getImageSize(aspectRatio, Number(size));
+
+  // The WebUI takes plain base64 for init images
+  const body = {
+    prompt,
+    width,
+    height,
+    steps: Number(steps),
+    ...(images.length > 0 && {
+      init_images: images.map((image) => parseDataUrl(image).data),
+      denoising_strength: Number(denoisingStrength),
+    }),
+    // Inpaint the mask's white areas, starting from the original pixels
+    ...(images.length > 0 && request.mask && {
+      mask: parseDataUrl(request.mask).data,
+      mask_blur: 4,
+      inpainting_fill: 1,
+    }),
+  };
+  const endpoint = images.length > 0 ? "img2img" : "txt2img";
+
+  console.log(`[API:${requestId}] Calling Stable Diffusion ${endpoint} (${width}x${height})...`);
+  options.onModelCalled?.(`sd-webui/${endpoint}`);
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/sdapi/v1/${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    throw new Error(`Could not reach Stable Diffusion at ${baseUrl}`);
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw providerError(error.detail || error.error || `Stable Diffusion API error: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  const image = data.images?.[0];
+  if (!image) {
+    throw new Error("No image in Stable Diffusion response");
+  }
+
+  return `data:image/png;base64,${image}`;
+};
+
+// Offline placeholder: the prompt on a canvas colored by the prompt
+const generateWithMock: ImageBackend = async (request, requestId, options) => {
+  const { prompt, aspectRatio = "1:1" } = request;
+  const { width, height } = getImageSize(aspectRatio, 512);
+
+  console.log(`[API:${requestId}] Rendering mock image (${width}x${height})`);
+  options.onModelCalled?.("mock");
+
+  return createPlaceholderImage(width, height, colorForText(prompt), prompt);
+};
+
+const IMAGE_BACKENDS: Record<ImageProviderId, ImageBackend> = {
+  gemini: generateWithGemini,
+  openai: generateWithOpenAIImages,
+  stableDiffusion: generateWithStableDiffusion,
+  mock: generateWithMock,
+};
+
+/**
+ * Generates an image with the provider that owns the requested model and
+ * returns it as a data URL. Throws if the provider does not return an image.
+ */
+export async function generateImage(
+  request: GenerateRequest,
+  requestId: string = Math.random().toString(36).substring(7),
+  options: GenerationOptions = {}
+): Promise<string> {
+  const model = request.model ?? DEFAULT_IMAGE_MODEL;
+  const modelInfo = getImageModel(model);
+  if (!modelInfo) {
+    throw new Error(`Unknown image model: ${model}`);
+  }
+
+  console.log(`[API:${requestId}] Processing request for model: ${model} (${modelInfo.provider})`);
+
+  if (request.aspectRatio && !modelInfo.aspectRatios.includes(request.aspectRatio)) {
+    throw new Error(`Aspect ratio ${request.aspectRatio} is not supported by ${modelInfo.label}`);
+  }
+
+  const provider = isMockMode() ? "mock" : modelInfo.provider;
+  return IMAGE_BACKENDS[provider]({ ...request, model }, requestId, options);
+}
+
+async function generateWithGoogle(
+  prompt: string,
+  images: string[],
+  model: string,
+  temperature: number,
+  maxTokens: number,
+  jsonSchema: JsonSchema | undefined,
+  { signal, onToken }: GenerationOptions
+): Promise<string> {
+  const modelId = GOOGLE_MODEL_MAP[model];
+  const generateOptions = {
+    model: modelId,
+    prompt: images.length > 0 ? [{ text: prompt }, ...images.map(toMediaPart)] : prompt,
+    config: {
+      temperature,
+      maxOutputTokens: maxTokens,
+    },
+    // Gemini constrains decoding to the schema
+    ...(jsonSchema && { output: { format: "json", jsonSchema, constrained: true } }),
+    abortSignal: signal,
+  };
+
+  if (!onToken) {
+    const response = await ai.generate(generateOptions);
+    return response.text;
+  }
+
+  const { stream, response } = ai.generateStream(generateOptions);
+  for await (const chunk of stream) {
+    if (chunk.text) onToken(chunk.text);
+  }
+  return (await response).text;
+}
+
+// Chat completions endpoint - OpenAI itself or any server implementing its API
+interface OpenAIEndpoint {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+const trimBaseUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+const getServerBaseUrl = () => trimBaseUrl(process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_BASE_URL);
+
+/**
+ * Whether a base URL is the server's own OpenAI-compatible endpoint
+ * (OPENAI_COMPATIBLE_BASE_URL, or the default).
+ */
+export const isServerBaseUrl = (baseUrl: string): boolean => trimBaseUrl(baseUrl) === getServerBaseUrl();
+
+/**
+ * Endpoint for OpenAI-compatible requests (settings override the server
+ * default). OPENAI_COMPATIBLE_API_KEY is only sent to the server's own base
+ * URL - a base URL chosen by the client gets no key, so the key can't be
+ * sent to an arbitrary host.
+ */
+function getOpenAICompatibleEndpoint(baseUrl?: string): OpenAIEndpoint {
+  const serverBaseUrl = getServerBaseUrl();
+  const resolvedBaseUrl = baseUrl ? trimBaseUrl(baseUrl) : serverBaseUrl;
+  return {
+    name: "OpenAI-compatible server",
+    baseUrl: resolvedBaseUrl,
+    apiKey: resolvedBaseUrl === serverBaseUrl ? process.env.OPENAI_COMPATIBLE_API_KEY : undefined,
+  };
+}
+
+// fetch that reports unreachable local servers clearly (aborts are rethrown as-is)
+async function fetchEndpoint(name: string, url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new Error(`Could not reach ${name} at ${new URL(url).origin}`);
+  }
+}
+
+async function generateWithOpenAI(
+  prompt: string,
+  images: string[],
+  modelId: string,
+  temperature: number,
+  maxTokens: number,
+  jsonSchema: JsonSchema | undefined,
+  endpoint: OpenAIEndpoint,
+  { signal, onToken }: GenerationOptions
+): Promise<string> {
+
+  // Images go in the vision message format alongside the text
+  const content = images.length > 0
+    ? [
+        { type: "text", text: prompt },
+        ...images.map((url) => ({ type: "image_url", image_url: { url } })),
+      ]
+    : prompt;
+
+  const response = await fetchEndpoint(endpoint.name, `${endpoint.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(endpoint.apiKey && { "Authorization": `Bearer ${endpoint.apiKey}` }),
+    },
+    body: JSON.stringify({
+      model: modelId,
+      messages: [{ role: "user", content }],
+      temperature,
+      max_tokens: maxTokens,
+      ...(jsonSchema && {
+        response_format: { type: "json_schema", json_schema: { name: "output", schema: jsonSchema } },
+      }),
+      stream: !!onToken,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw providerError(error.error?.message || `${endpoint.name} API error: ${response.status}`, response.status);
+  }
+
+  if (onToken && response.body) {
+    let streamedText = "";
+    await readEventStream(response.body, (data) => {
+      if (data === "[DONE]") return;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) {
+        streamedText += delta;
+        onToken(delta);
+      }
+    });
+
+    if (!streamedText) {
+      throw new Error(`No text in ${endpoint.name} response`);
+    }
+    return streamedText;
+  }
+
+  const data = await response.json();
+  const text = data.choices?.[0]?.message?.content;
+
+  if (!text) {
+    throw new Error(`No text in ${endpoint.name} response`);
+  }
+
+  return text;
+}
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_OUTPUT_TOOL = "respond";
+
+function getAnthropicHeaders(): Record<string, string> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY not configured");
+  }
+  return {
+    "Content-Type": "application/json",
+    "x-api-key": apiKey,
+    "anthropic-version": ANTHROPIC_VERSION,
+  };
+}
+
+async function generateWithAnthropic(
+  prompt: string,
+  images: string[],
+  modelId: string,
+  temperature: number,
+  maxTokens: number,
+  jsonSchema: JsonSchema | undefined,
+  { signal, onToken }: GenerationOptions
+): Promise<string> {
+  const headers = getAnthropicHeaders();
+
+  // Images go before the text, as the Messages API recommends
+  const content = [
+    ...images.map((image) => {
+      const { mimeType, data } = parseDataUrl(image);
+      return { type: "image", source: { type: "base64", media_type: mimeType, data } };
+    }),
+    { type: "text", text: prompt },
+  ];
+
+  const response = await fetch(`${ANTHROPIC_API_URL}/messages`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model: modelId,
+      messages: [{ role: "user", content }],
+      temperature,
+      max_tokens: maxTokens,
+      // JSON output is a forced call to a tool whose input is the schema
+      ...(jsonSchema && {
+        tools: [{ name: ANTHROPIC_OUTPUT_TOOL, description: "Return the response", input_schema: jsonSchema }],
+        tool_choice: { type: "tool", name: ANTHROPIC_OUTPUT_TOOL },
+      }),
+      stream: !!onToken,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw providerError(error.error?.message || `Anthropic API error: ${response.status}`, response.status);
+  }
+
+  if (onToken && response.body) {
+    let streamedText = "";
+    await readEventStream(response.body, (data) => {
+      const event = JSON.parse(data);
+      if (event.type === "error") {
+        throw new Error(event.error?.message || "Anthropic stream error");
+      }
+      if (event.type !== "content_block_delta") return;
+      // Tool input arrives as partial JSON
+      const delta = event.delta?.type === "text_delta" ? event.delta.text
+        : event.delta?.type === "input_json_delta" ? event.delta.partial_json
+        : null;
+      if (delta) {
+        streamedText += delta;
+        onToken(delta);
+      }
+    });
+
+    if (!streamedText) {
+      throw new Error("No text in Anthropic response");
+    }
+    return streamedText;
+  }
+
+  const data = await response.json();
+  const toolCall = (data.content ?? []).find((block: { type: string }) => block.type === "tool_use");
+  const text = toolCall
+    ? JSON.stringify(toolCall.input)
+    : (data.content ?? [])
+        .filter((block: { type: string }) => block.type === "text")
+        .map((block: { text: string }) => block.text)
+        .join("");
+
+  if (!text) {
+    throw new Error("No text in Anthropic response");
+  }
+
+  return text;
+}
+
+/**
+ * Generates text with the requested LLM provider.
+ */
+export async function generateText(
+  request: LLMGenerateRequest,
+  options: GenerationOptions = {}
+): Promise<string> {
+  const {
+    prompt,
+    images = [],
+    provider,
+    model,
+    temperature = 0.7,
+    maxTokens = 1024,
+    jsonSchema,
+  } = request;
+
+  if (isMockMode()) {
+    options.onModelCalled?.("mock");
+    const text = generateMockText(request);
+    // Stream word by word so streaming callers see partial output
+    text.split(/(?<=\s)/).forEach((chunk) => options.onToken?.(chunk));
+    return text;
+  }
+
+  if (provider === "google") {
+    options.onModelCalled?.(GOOGLE_MODEL_MAP[model]);
+    return generateWithGoogle(prompt, images, model, temperature, maxTokens, jsonSchema, options);
+  }
+  if (provider === "openai") {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY not configured");
+    }
+    options.onModelCalled?.(OPENAI_MODEL_MAP[model]);
+    return generateWithOpenAI(
+      prompt, images, OPENAI_MODEL_MAP[model], temperature, maxTokens, jsonSchema,
+      { name: "OpenAI", baseUrl: OPENAI_API_URL, apiKey },
+      options
+    );
+  }
+  if (provider === "openaiCompatible") {
+    options.onModelCalled?.(model);
+    return generateWithOpenAI(
+      prompt, images, model, temperature, maxTokens, jsonSchema,
+      getOpenAICompatibleEndpoint(request.baseUrl),
+      options
+    );
+  }
+  if (provider === "anthropic") {
+    options.onModelCalled?.(model);
+    return generateWithAnthropic(prompt, images, model, temperature, maxTokens, jsonSchema, options);
+  }
+  throw new Error(`Unknown provider: ${provider}`);
+}
+
+/**
+ * Lists the models an Anthropic or OpenAI-compatible endpoint serves. Other
+ * providers have a fixed list in the LLM provider registry.
+ */
+export async function listLLMModels(
+  provider: LLMProvider,
+  baseUrl?: string,
+  signal?: AbortSignal
+): Promise<LLMModelInfo[]> {
+  if (isMockMode() && !getLLMProvider(provider).models) {
+    return MOCK_LLM_MODELS;
+  }
+
+  if (provider === "anthropic") {
+    const response = await fetch(`${ANTHROPIC_API_URL}/models?limit=100`, {
+      headers: getAnthropicHeaders(),
+      signal,
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw providerError(error.error?.message || `Anthropic API error: ${response.status}`, response.status);
+    }
+    const data = await response.json();
+    return (data.data ?? []).map((model: { id: string; display_name?: string }) => ({
+      value: model.id,
+      label: model.display_name || model.id,
+    }));
+  }
+
+  if (provider === "openaiCompatible") {
+    const endpoint = getOpenAICompatibleEndpoint(baseUrl);
+    const response = await fetchEndpoint(endpoint.name, `${endpoint.baseUrl}/models`, {
+      headers: endpoint.apiKey ? { "Authorization": `Bearer ${endpoint.apiKey}` } : {},
+      signal,
+    });
+    if (!response.ok) {
+      throw providerError(`${endpoint.name} API error: ${response.status}`, response.status);
+    }
+    const data = await response.json();
+    return (data.data ?? [])
+      .map((model: { id: string }) => ({ value: model.id, label: model.id }))
+      .sort((a: LLMModelInfo, b: LLMModelInfo) => a.label.localeCompare(b.label));
+  }
+
+  return getLLMProvider(provider).models ?? [];
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { IMAGE_MODEL_IDS, IMAGE_PROVIDERS, getImageModel, getImageSize, resolveModelOptions } from "@/lib/imageProviders";
+
+describe("IMAGE_PROVIDERS", () => {
+  it("lists every model under the provider that owns it", () => {
+    const listed = IMAGE_PROVIDERS.flatMap((provider) => provider.models.map((model) => model.id));
+    expect(listed.sort()).toEqual([...IMAGE_MODEL_IDS].sort());
+
+    IMAGE_PROVIDERS.forEach((provider) =>
+      provider.models.forEach((model) => expect(getImageModel(model.id)?.provider).toBe(provider.id))
+    );
+  });
+});
+
+describe("resolveModelOptions", () => {
+  it("fills in defaults and drops unknown or invalid options", () => {
+    const model = getImageModel("sd-webui")!;
+
+    expect(resolveModelOptions(model, { size: "512", steps: "999", sampler: "euler" })).toEqual({
+      size: "512",
+      steps: "30",
+      denoisingStrength: "0.6",
+    });
+  });
+});
+
+describe("getImageSize", () => {
+  it("scales the aspect ratio to the longest side in multiples of 8", () => {
+    expect(getImageSize("16:9", 1024)).toEqual({ width: 1024, height: 576 });
+    expect(getImageSize("2:3", 1000)).toEqual({ width: 664, height: 1000 });
+  });
+});
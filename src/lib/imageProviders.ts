@@ -0,0 +1,181 @@
+/**
+ * Image Provider Registry
+ *
+ * Declares every image generation backend and the models it offers: the
+ * aspect ratios and resolutions each model supports and any extra options.
+ * The Generate node renders its controls from these declarations, and the
+ * server routes each request to the backend that owns the requested model.
+ * Model IDs are unique across providers, so a model ID alone identifies its
+ * provider.
+ */
+
+import type { AspectRatio, ModelType, Resolution } from "@/types";
+
+export type ImageProviderId = "gemini" | "openai" | "stableDiffusion" | "mock";
+
+// Provider-specific setting rendered as a select on the Generate node
+export interface ImageModelOption {
+  key: string;
+  label: string;
+  choices: { value: string; label: string }[];
+  defaultValue: string;
+}
+
+// Everything declared about a model except its ID, which is its key in IMAGE_MODELS
+export interface ImageModelSpec {
+  label: string;
+  provider: ImageProviderId;
+  aspectRatios: AspectRatio[];
+  resolutions: Resolution[];       // Empty when the output size isn't selectable
+  supportsGoogleSearch?: boolean;
+  options?: ImageModelOption[];
+}
+
+export interface ImageModelInfo extends ImageModelSpec {
+  id: ModelType;
+}
+
+export interface ImageProviderInfo {
+  id: ImageProviderId;
+  label: string;
+  // Concurrency limit group (see DEFAULT_CONCURRENCY_LIMITS), null if unlimited
+  concurrencyKey: string | null;
+  models: ImageModelInfo[];
+}
+
+const ALL_ASPECT_RATIOS: AspectRatio[] = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
+
+// Keyed by model ID - ModelType and the flow request schema are derived from these keys
+export const IMAGE_MODELS = {
+  "nano-banana": {
+    label: "Nano Banana",
+    provider: "gemini",
+    aspectRatios: ALL_ASPECT_RATIOS,
+    resolutions: [],
+  },
+  "nano-banana-pro": {
+    label: "Nano Banana Pro",
+    provider: "gemini",
+    aspectRatios: ALL_ASPECT_RATIOS,
+    resolutions: ["1K", "2K", "4K"],
+    supportsGoogleSearch: true,
+  },
+  "gpt-image-1": {
+    label: "GPT Image 1",
+    provider: "openai",
+    aspectRatios: ["1:1", "3:2", "2:3"],
+    resolutions: [],
+    options: [
+      {
+        key: "quality",
+        label: "Quality",
+        choices: [
+          { value: "auto", label: "Auto" },
+          { value: "low", label: "Low" },
+          { value: "medium", label: "Medium" },
+          { value: "high", label: "High" },
+        ],
+        defaultValue: "auto",
+      },
+    ],
+  },
+  "sd-webui": {
+    label: "Loaded checkpoint",
+    provider: "stableDiffusion",
+    aspectRatios: ["1:1", "2:3", "3:2", "3:4", "4:3", "9:16", "16:9"],
+    resolutions: [],
+    options: [
+      {
+        key: "size",
+        label: "Size",
+        choices: [
+          { value: "512", label: "512px" },
+          { value: "768", label: "768px" },
+          { value: "1024", label: "1024px" },
+        ],
+        defaultValue: "1024",
+      },
+      {
+        key: "steps",
+        label: "Steps",
+        choices: [
+          { value: "20", label: "20 steps" },
+          { value: "30", label: "30 steps" },
+          { value: "50", label: "50 steps" },
+        ],
+        defaultValue: "30",
+      },
+      {
+        key: "denoisingStrength",
+        label: "Strength",
+        choices: [
+          { value: "0.3", label: "Subtle edit" },
+          { value: "0.6", label: "Balanced edit" },
+          { value: "0.85", label: "Strong edit" },
+        ],
+        defaultValue: "0.6",
+      },
+    ],
+  },
+  mock: {
+    label: "Placeholder",
+    provider: "mock",
+    aspectRatios: ALL_ASPECT_RATIOS,
+    resolutions: [],
+  },
+} satisfies Record<string, ImageModelSpec>;
+
+// Non-empty so it can back a z.enum
+export const IMAGE_MODEL_IDS = Object.keys(IMAGE_MODELS) as [ModelType, ...ModelType[]];
+
+const ALL_MODELS: ImageModelInfo[] = IMAGE_MODEL_IDS.map((id) => ({ id, ...IMAGE_MODELS[id] }));
+
+const provider = (id: ImageProviderId, label: string, concurrencyKey: string | null): ImageProviderInfo => ({
+  id,
+  label,
+  concurrencyKey,
+  models: ALL_MODELS.filter((model) => model.provider === id),
+});
+
+export const IMAGE_PROVIDERS: ImageProviderInfo[] = [
+  provider("gemini", "Gemini", "google"),
+  provider("openai", "OpenAI", "openai"),
+  provider("stableDiffusion", "Stable Diffusion (local)", "local"),
+  provider("mock", "Mock", null),
+];
+
+export const DEFAULT_IMAGE_MODEL: ModelType = "nano-banana-pro";
+
+export const getImageModel = (modelId: ModelType | undefined): ImageModelInfo | undefined =>
+  ALL_MODELS.find((model) => model.id === modelId);
+
+export const getImageProvider = (providerId: ImageProviderId): ImageProviderInfo =>
+  IMAGE_PROVIDERS.find((provider) => provider.id === providerId)!;
+
+/**
+ * Fills in defaults for any option the model declares but the node hasn't set,
+ * and drops options the model doesn't know.
+ */
+export function resolveModelOptions(
+  model: ImageModelInfo,
+  options: Record<string, string> | undefined
+): Record<string, string> {
+  return Object.fromEntries(
+    (model.options ?? []).map((option) => {
+      const value = options?.[option.key];
+      const isValid = option.choices.some((choice) => choice.value === value);
+      return [option.key, isValid ? value! : option.defaultValue];
+    })
+  );
+}
+
+/**
+ * Pixel size for an aspect ratio with the given longest side, rounded down to
+ * a multiple of 8 as diffusion models require.
+ */
+export function getImageSize(aspectRatio: AspectRatio, longestSide: number): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const scale = longestSide / Math.max(w, h);
+  const round = (value: number) => Math.max(64, Math.floor((value * scale) / 8) * 8);
+  return { width: round(w), height: round(h) };
+}
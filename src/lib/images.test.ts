@@ -0,0 +1,102 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { RasterImage, cropImage, decodeImage, exportImage, flattenImage, toPngDataUrl } from "@/lib/images";
+import { DEFAULT_EXPORT_SETTINGS } from "@/utils/annotationExportSettings";
+
+const toDataUrl = (buffer: Buffer, mimeType: string) => `data:${mimeType};base64,${buffer.toString("base64")}`;
+
+const solidImage = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: { r: 255, g: 0, b: 0 } } });
+
+const createRaster = (width: number, height: number, [r, g, b]: number[]): RasterImage => {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([r, g, b, 255], i);
+  return { width, height, data };
+};
+
+const readDataUrl = (dataUrl: string) => sharp(Buffer.from(dataUrl.split(",")[1], "base64")).metadata();
+
+describe("decodeImage", () => {
+  it("decodes PNG, JPEG and WebP to RGBA pixels", async () => {
+    for (const [format, mimeType] of [["png", "image/png"], ["jpeg", "image/jpeg"], ["webp", "image/webp"]] as const) {
+      const image = await decodeImage(toDataUrl(await solidImage(6, 4).toFormat(format).toBuffer(), mimeType));
+      expect([image.width, image.height, image.data.length]).toEqual([6, 4, 6 * 4 * 4]);
+      expect(image.data[0]).toBeGreaterThan(240);
+      expect(image.data[3]).toBe(255);
+    }
+  });
+
+  it("accepts plain base64 without a data URL header", async () => {
+    const image = await decodeImage((await solidImage(2, 2).png().toBuffer()).toString("base64"));
+    expect(image.width).toBe(2);
+  });
+
+  it("rejects data that isn't an image", async () => {
+    await expect(decodeImage("data:image/png;base64,AAAA")).rejects.toThrow("Unsupported image format");
+  });
+});
+
+describe("toPngDataUrl", () => {
+  it("encodes pixels as a PNG data URL", async () => {
+    const dataUrl = await toPngDataUrl(createRaster(5, 3, [0, 128, 255]));
+    const decoded = await decodeImage(dataUrl);
+
+    expect(dataUrl.startsWith("data:image/png;base64,")).toBe(true);
+    expect([decoded.width, decoded.height]).toEqual([5, 3]);
+    expect([...decoded.data.slice(0, 4)]).toEqual([0, 128, 255, 255]);
+  });
+});
+
+describe("cropImage", () => {
+  it("copies a rectangle out of the image", async () => {
+    const source = createRaster(4, 4, [0, 0, 0]);
+    source.data.set([255, 255, 255, 255], (2 * 4 + 3) * 4); // White pixel at (3, 2)
+
+    const cell = await cropImage(source, { x: 2, y: 2, width: 2, height: 2 });
+    expect([cell.width, cell.height]).toEqual([2, 2]);
+    expect([...cell.data.slice(4, 8)]).toEqual([255, 255, 255, 255]);
+  });
+
+  it("clips rectangles that run past the edges", async () => {
+    const cell = await cropImage(createRaster(10, 10, [0, 0, 0]), { x: 7, y: 8, width: 4, height: 4 });
+    expect([cell.width, cell.height]).toEqual([3, 2]);
+  });
+});
+
+describe("exportImage", () => {
+  it("scales down and encodes in the chosen format", async () => {
+    const source = toDataUrl(await solidImage(400, 200).png().toBuffer(), "image/png");
+    const dataUrl = await exportImage(source, { ...DEFAULT_EXPORT_SETTINGS, scale: 0.5, format: "jpeg" });
+    const metadata = await readDataUrl(dataUrl);
+
+    expect(dataUrl.startsWith("data:image/jpeg;base64,")).toBe(true);
+    expect([metadata.format, metadata.width, metadata.height]).toEqual(["jpeg", 200, 100]);
+  });
+
+  it("caps the longer side and never enlarges", async () => {
+    const source = toDataUrl(await solidImage(400, 200).png().toBuffer(), "image/png");
+
+    const capped = await readDataUrl(await exportImage(source, { ...DEFAULT_EXPORT_SETTINGS, maxDimension: 100 }));
+    expect([capped.width, capped.height]).toEqual([100, 50]);
+
+    const unchanged = await readDataUrl(await exportImage(source, { ...DEFAULT_EXPORT_SETTINGS, maxDimension: 4096, format: "webp" }));
+    expect([unchanged.format, unchanged.width, unchanged.height]).toEqual(["webp", 400, 200]);
+  });
+});
+
+describe("flattenImage", () => {
+  it("draws the overlay over the image, stretched to its size", async () => {
+    const source = toDataUrl(await solidImage(8, 8).png().toBuffer(), "image/png");
+    // 4x4 overlay: opaque blue left half, transparent right half
+    const overlayPixels = createRaster(4, 4, [0, 0, 0]);
+    for (let i = 0; i < 16; i++) overlayPixels.data.set(i % 4 < 2 ? [0, 0, 255, 255] : [0, 0, 0, 0], i * 4);
+    const overlay = await toPngDataUrl(overlayPixels);
+
+    const flattened = await decodeImage(await flattenImage(source, overlay, DEFAULT_EXPORT_SETTINGS));
+    const pixel = (x: number, y: number) => [...flattened.data.slice((y * 8 + x) * 4, (y * 8 + x) * 4 + 3)];
+
+    expect([flattened.width, flattened.height]).toEqual([8, 8]);
+    expect(pixel(1, 4)).toEqual([0, 0, 255]);
+    expect(pixel(6, 4)).toEqual([255, 0, 0]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Server Images
+ *
+ * Image decoding and encoding for server-side executors, backed by sharp. Any
+ * format sharp reads (PNG, JPEG, WebP, GIF, AVIF...) is accepted, so headless
+ * runs take the same inputs as the canvas. Images are held as 8-bit RGBA
+ * pixels, and EXIF orientation is applied on decode as browsers do.
+ */
+
+import sharp from "sharp";
+import { AnnotationExportSettings } from "@/types";
+import { getExportPixelRatio } from "@/utils/annotationExportSettings";
+
+// 8-bit RGBA pixels, row-major
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Decodes an image data URL (or plain base64) to RGBA pixels. Throws a
+ * user-facing error if the data isn't an image sharp can read.
+ */
+export async function decodeImage(dataUrl: string): Promise<RasterImage> {
+  const buffer = Buffer.from(dataUrl.replace(/^data:[^,]*,/, ""), "base64");
+  try {
+    const { data, info } = await sharp(buffer).rotate().ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { width: info.width, height: info.height, data: new Uint8Array(data) };
+  } catch {
+    throw new Error("Unsupported image format - use PNG, JPEG or WebP");
+  }
+}
+
+const toSharp = (image: RasterImage) =>
+  sharp(image.data, { raw: { width: image.width, height: image.height, channels: 4 } });
+
+export async function encodePng(image: RasterImage): Promise<Buffer> {
+  return toSharp(image).png().toBuffer();
+}
+
+export const toPngDataUrl = async (image: RasterImage): Promise<string> =>
+  `data:image/png;base64,${(await encodePng(image)).toString("base64")}`;
+
+/**
+ * Copies a rectangle out of an image. The rectangle is clipped to the image,
+ * so rounded grid cells can't run past its edges.
+ */
+export async function cropImage(
+  image: RasterImage,
+  rect: { x: number; y: number; width: number; height: number }
+): Promise<RasterImage> {
+  const left = Math.min(Math.max(0, rect.x), image.width - 1);
+  const top = Math.min(Math.max(0, rect.y), image.height - 1);
+  const width = Math.max(1, Math.min(rect.width, image.width - left));
+  const height = Math.max(1, Math.min(rect.height, image.height - top));
+  const { data } = await toSharp(image).extract({ left, top, width, height }).raw().toBuffer({ resolveWithObject: true });
+  return { width, height, data: new Uint8Array(data) };
+}
+
+// Scales and encodes pixels with export settings
+async function encodeExport(image: RasterImage, settings: AnnotationExportSettings): Promise<string> {
+  const ratio = getExportPixelRatio(image.width, image.height, settings);
+  const resized = toSharp(image).resize(
+    Math.max(1, Math.round(image.width * ratio)),
+    Math.max(1, Math.round(image.height * ratio))
+  );
+
+  const quality = Math.round(settings.quality * 100);
+  const encoded =
+    settings.format === "jpeg" ? resized.jpeg({ quality })
+    : settings.format === "webp" ? resized.webp({ quality })
+    : resized.png();
+  return `data:image/${settings.format};base64,${(await encoded.toBuffer()).toString("base64")}`;
+}
+
+/**
+ * Scales and encodes an image with an Annotate node's export settings, the
+ * way the editor exports it in the browser.
+ */
+export async function exportImage(dataUrl: string, settings: AnnotationExportSettings): Promise<string> {
+  return encodeExport(await decodeImage(dataUrl), settings);
+}
+
+/**
+ * Draws an Annotate node's overlay (its visible layers on a transparent
+ * background) over a source image, then encodes the result with the node's
+ * export settings. The overlay is stretched to the image, since it may have
+ * been exported at a smaller scale or drawn on an image of another size.
+ */
+export async function flattenImage(
+  dataUrl: string,
+  overlayDataUrl: string,
+  settings: AnnotationExportSettings
+): Promise<string> {
+  const source = await decodeImage(dataUrl);
+  const overlay = await toSharp(await decodeImage(overlayDataUrl))
+    .resize(source.width, source.height, { fit: "fill" })
+    .png()
+    .toBuffer();
+  const { data } = await toSharp(source).composite([{ input: overlay }]).raw().toBuffer({ resolveWithObject: true });
+  return encodeExport({ width: source.width, height: source.height, data: new Uint8Array(data) }, settings);
+}
@@ -0,0 +1,144 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runImageGenerateFlow } from "@/lib/flows";
+import { cancelJob, createRun, findInterruptedRun, finishRun, getJob, submitJob } from "@/lib/jobQueue";
+import { GenerationJob, RetryPolicy } from "@/types";
+
+vi.mock("@/lib/flows", () => ({
+  runImageGenerateFlow: vi.fn(),
+  runLLMGenerateFlow: vi.fn(),
+}));
+
+const generate = vi.mocked(runImageGenerateFlow);
+
+// No waiting between attempts
+const FAST_POLICY: Partial<RetryPolicy> = { maxAttempts: 3, baseDelayMs: 0, jitter: 0 };
+
+let directoryPath: string;
+
+beforeEach(async () => {
+  directoryPath = await fs.mkdtemp(path.join(os.tmpdir(), "node-banana-jobs-"));
+  generate.mockReset();
+});
+
+afterEach(async () => {
+  await fs.rm(directoryPath, { recursive: true, force: true });
+});
+
+const submit = (runId: string, nodeId: string) =>
+  submitJob({ directoryPath, runId, nodeId, kind: "generate", request: { prompt: "a fox" }, retryPolicy: FAST_POLICY });
+
+// Polls the job until it settles, the way the canvas does
+const waitForJob = (runId: string, nodeId: string) =>
+  vi.waitFor(async () => {
+    const job = await getJob(directoryPath, runId, nodeId);
+    if (!job || job.status === "queued" || job.status === "running") throw new Error("Job still pending");
+    return job;
+  });
+
+describe("submitJob", () => {
+  it("runs the provider call and keeps the result on disk", async () => {
+    generate.mockResolvedValue("data:image/png;base64,AAAA");
+    const run = await createRun(directoryPath, "workflow", null);
+
+    await submit(run.id, "nanoBanana-1");
+    const job = await waitForJob(run.id, "nanoBanana-1");
+    expect(job).toMatchObject({ status: "complete", attempts: 1, result: "data:image/png;base64,AAAA" });
+    expect(job).not.toHaveProperty("request");
+  });
+
+  it("re-attaches to a node's existing job instead of calling the provider again", async () => {
+    generate.mockResolvedValue("image");
+    const run = await createRun(directoryPath, "workflow", null);
+    await submit(run.id, "nanoBanana-1");
+    await waitForJob(run.id, "nanoBanana-1");
+
+    const again = await submit(run.id, "nanoBanana-1");
+    expect(again.status).toBe("complete");
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries failed attempts according to the retry policy", async () => {
+    generate
+      .mockRejectedValueOnce(Object.assign(new Error("Overloaded"), { status: 503 }))
+      .mockResolvedValue("image");
+    const run = await createRun(directoryPath, "workflow", null);
+    await submit(run.id, "nanoBanana-1");
+
+    expect(await waitForJob(run.id, "nanoBanana-1")).toMatchObject({ status: "complete", attempts: 2 });
+  });
+
+  it("keeps nodes whose IDs differ only in punctuation apart", async () => {
+    generate.mockImplementation(async (request) => `image for ${request.prompt}`);
+    const run = await createRun(directoryPath, "workflow", null);
+    await submitJob({ directoryPath, runId: run.id, nodeId: "node.1", kind: "generate", request: { prompt: "dot" } });
+    await submitJob({ directoryPath, runId: run.id, nodeId: "node_1", kind: "generate", request: { prompt: "underscore" } });
+
+    expect((await waitForJob(run.id, "node.1")).result).toBe("image for dot");
+    expect((await waitForJob(run.id, "node_1")).result).toBe("image for underscore");
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("cancelJob", () => {
+  it("aborts the in-flight provider call", async () => {
+    generate.mockImplementation((_request, _requestId, options) =>
+      new Promise((_resolve, reject) => options?.signal?.addEventListener("abort", () => reject(new Error("Aborted"))))
+    );
+    const run = await createRun(directoryPath, "workflow", null);
+    await submit(run.id, "nanoBanana-1");
+    await vi.waitFor(() => expect(generate).toHaveBeenCalled());
+
+    await cancelJob(directoryPath, run.id, "nanoBanana-1");
+    expect((await waitForJob(run.id, "nanoBanana-1")).status).toBe("cancelled");
+  });
+});
+
+describe("findInterruptedRun", () => {
+  it("returns the latest unfinished run of the workflow", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1000);
+    const older = await createRun(directoryPath, "workflow", null);
+    vi.setSystemTime(2000);
+    const latest = await createRun(directoryPath, "workflow", "nanoBanana-2");
+    await createRun(directoryPath, "other-workflow", null);
+    vi.useRealTimers();
+
+    expect((await findInterruptedRun(directoryPath, "workflow"))?.id).toBe(latest.id);
+
+    await finishRun(directoryPath, latest.id);
+    expect((await findInterruptedRun(directoryPath, "workflow"))?.id).toBe(older.id);
+    await finishRun(directoryPath, older.id);
+    expect(await findInterruptedRun(directoryPath, "workflow")).toBeNull();
+  });
+
+  it("finds the jobs of runs saved under the old file names", async () => {
+    // Before names were percent-encoded, every other character became "_"
+    const runId = "run.legacy";
+    const legacyDir = path.join(directoryPath, ".node-banana", "jobs", "run_legacy");
+    const job: GenerationJob = {
+      id: "job_1",
+      runId,
+      nodeId: "nanoBanana.1",
+      kind: "generate",
+      status: "complete",
+      attempts: 1,
+      maxAttempts: 3,
+      result: "image",
+      partialText: null,
+      error: null,
+      nextAttemptAt: null,
+      createdAt: 1,
+      updatedAt: 1,
+    };
+    await fs.mkdir(legacyDir, { recursive: true });
+    await fs.writeFile(path.join(legacyDir, "run.json"), JSON.stringify({ id: runId, workflowId: "workflow", status: "running", startFromNodeId: null, createdAt: 1, updatedAt: 1 }));
+    await fs.writeFile(path.join(legacyDir, "nanoBanana_1.json"), JSON.stringify({ ...job, request: { prompt: "a fox" } }));
+
+    expect((await findInterruptedRun(directoryPath, "workflow"))?.id).toBe(runId);
+    expect(await getJob(directoryPath, runId, "nanoBanana.1")).toEqual(job);
+    expect((await finishRun(directoryPath, runId))?.status).toBe("finished");
+  });
+});
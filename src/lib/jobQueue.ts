@@ -0,0 +1,344 @@
+/**
+ * Generation Job Queue
+ *
+ * Server-side queue for provider calls made during canvas runs. Every
+ * generate / LLM node execution becomes a job persisted under the project
+ * directory, so a run survives a tab reload: the canvas re-attaches by run ID
+ * and picks up finished results, and jobs orphaned by a server restart are
+ * restarted the next time they are polled. Failed attempts are retried
+ * according to the job's retry policy, and cancelling a job aborts its
+ * in-flight provider call.
+ *
+ * Layout: <project>/.node-banana/jobs/<runId>/run.json
+ *         <project>/.node-banana/jobs/<runId>/<nodeId>.json
+ * (IDs are percent-encoded in file names)
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { runImageGenerateFlow, runLLMGenerateFlow } from "@/lib/flows";
+import { isAbortError, resolveRetryPolicy, withRetry } from "@/lib/retry";
+import {
+  GenerateRequest,
+  GenerationJob,
+  JobRun,
+  LLMGenerateRequest,
+  RetryPolicy,
+  SubmitJobRequest,
+} from "@/types";
+
+const JOBS_DIR = path.join(".node-banana", "jobs");
+
+// The request is kept on disk so orphaned jobs can be restarted, but never sent back to the client
+interface StoredJob extends GenerationJob {
+  request: GenerateRequest | LLMGenerateRequest;
+  retryPolicy: RetryPolicy;
+}
+
+// Jobs being processed by this server process, keyed by job file path
+const activeJobs = new Map<string, AbortController>();
+
+// Pending writes per job file, so streamed progress never races a status update
+const jobWrites = new Map<string, Promise<void>>();
+
+// Minimum time between saves of streamed LLM text
+const PARTIAL_TEXT_SAVE_INTERVAL_MS = 500;
+
+const createId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+// Percent-encodes everything but letters, digits, "-" and "_", so the name is
+// safe on every file system and two different IDs never share a file
+const safeName = (name: string) =>
+  encodeURIComponent(name).replace(/[!'()*.~]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const getRunDir = (directoryPath: string, runId: string) =>
+  path.join(directoryPath, JOBS_DIR, safeName(runId));
+
+const getJobPath = (directoryPath: string, runId: string, nodeId: string) =>
+  path.join(getRunDir(directoryPath, runId), `${safeName(nodeId)}.json`);
+
+// Write via a temp file so a crash never leaves half-written JSON behind
+const writeJson = async (filePath: string, data: unknown) => {
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data), "utf-8");
+  await fs.rename(tempPath, filePath);
+};
+
+const readJson = async <T>(filePath: string): Promise<T | null> => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+};
+
+const toPublicJob = ({ request: _request, retryPolicy: _retryPolicy, ...job }: StoredJob): GenerationJob => job;
+
+async function saveJob(directoryPath: string, job: StoredJob) {
+  job.updatedAt = Date.now();
+  const jobPath = getJobPath(directoryPath, job.runId, job.nodeId);
+  const snapshot = JSON.parse(JSON.stringify(job));
+
+  const write = (jobWrites.get(jobPath) ?? Promise.resolve())
+    .catch(() => {})
+    .then(() => writeJson(jobPath, snapshot));
+  jobWrites.set(jobPath, write);
+
+  try {
+    await write;
+  } finally {
+    if (jobWrites.get(jobPath) === write) jobWrites.delete(jobPath);
+  }
+}
+
+async function processJob(directoryPath: string, job: StoredJob) {
+  const jobPath = getJobPath(directoryPath, job.runId, job.nodeId);
+  if (activeJobs.has(jobPath)) return;
+  const controller = new AbortController();
+  activeJobs.set(jobPath, controller);
+
+  // Streamed LLM text is saved at most every PARTIAL_TEXT_SAVE_INTERVAL_MS
+  let lastPartialSave = 0;
+  const onToken = (text: string) => {
+    job.partialText = (job.partialText ?? "") + text;
+    const now = Date.now();
+    if (now - lastPartialSave >= PARTIAL_TEXT_SAVE_INTERVAL_MS) {
+      lastPartialSave = now;
+      saveJob(directoryPath, job).catch((error) => console.warn(`[Jobs:${job.id}] Failed to save progress:`, error));
+    }
+  };
+
+  try {
+    const result = await withRetry(
+      async () => {
+        job.status = "running";
+        job.attempts++;
+        job.nextAttemptAt = null;
+        job.partialText = null;
+        await saveJob(directoryPath, job);
+
+        return job.kind === "generate"
+          ? runImageGenerateFlow(job.request as GenerateRequest, job.id, { signal: controller.signal })
+          : runLLMGenerateFlow(job.request as LLMGenerateRequest, { signal: controller.signal, onToken });
+      },
+      // Attempts made before a server restart count towards the limit
+      { ...job.retryPolicy, maxAttempts: Math.max(1, job.maxAttempts - job.attempts) },
+      async (_nextAttempt, error, delayMs) => {
+        console.warn(`[Jobs:${job.id}] Attempt ${job.attempts} failed, retrying in ${delayMs}ms:`, error);
+        job.status = "queued";
+        job.error = error instanceof Error ? error.message : "Generation failed";
+        job.nextAttemptAt = Date.now() + delayMs;
+        await saveJob(directoryPath, job);
+      },
+      controller.signal
+    );
+
+    job.status = "complete";
+    job.result = result;
+    job.error = null;
+    job.partialText = null;
+  } catch (error) {
+    if (controller.signal.aborted || isAbortError(error)) {
+      console.log(`[Jobs:${job.id}] Cancelled`);
+      job.status = "cancelled";
+      job.error = null;
+    } else {
+      console.error(`[Jobs:${job.id}] Failed:`, error);
+      job.status = "error";
+      job.error = error instanceof Error ? error.message : "Generation failed";
+    }
+    job.partialText = null;
+  } finally {
+    job.nextAttemptAt = null;
+    await saveJob(directoryPath, job).catch((error) => console.error(`[Jobs:${job.id}] Failed to save job:`, error));
+    activeJobs.delete(jobPath);
+  }
+}
+
+const isPending = (job: StoredJob) => job.status === "queued" || job.status === "running";
+
+// Restart a pending job that no process is working on (e.g. after a server restart).
+// Returns the job's latest state.
+async function resumeIfOrphaned(directoryPath: string, job: StoredJob): Promise<StoredJob> {
+  const jobPath = getJobPath(directoryPath, job.runId, job.nodeId);
+  if (!isPending(job) || activeJobs.has(jobPath)) return job;
+
+  // The job may have settled while it was being read - its final state is saved before it stops being active
+  const latest = (await readJson<StoredJob>(jobPath)) ?? job;
+  if (isPending(latest) && !activeJobs.has(jobPath)) {
+    console.log(`[Jobs:${latest.id}] Resuming orphaned job for node ${latest.nodeId}`);
+    processJob(directoryPath, latest);
+  }
+  return latest;
+}
+
+/**
+ * Records a new run for a workflow, with the part of the graph it runs so an
+ * interrupted run can be resumed the same way.
+ */
+export async function createRun(
+  directoryPath: string,
+  workflowId: string,
+  startFromNodeId: string | null,
+  nodeIds: string[] | null = null
+): Promise<JobRun> {
+  const now = Date.now();
+  const run: JobRun = {
+    id: createId("run"),
+    workflowId,
+    status: "running",
+    startFromNodeId,
+    nodeIds,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const runDir = getRunDir(directoryPath, run.id);
+  await fs.mkdir(runDir, { recursive: true });
+  await writeJson(path.join(runDir, "run.json"), run);
+  return run;
+}
+
+/**
+ * Marks a run as finished so it is no longer offered for resuming.
+ */
+export async function finishRun(directoryPath: string, runId: string): Promise<JobRun | null> {
+  const runPath = path.join(getRunDir(directoryPath, runId), "run.json");
+  const run = await readJson<JobRun>(runPath);
+  if (!run) return null;
+
+  run.status = "finished";
+  run.updatedAt = Date.now();
+  await writeJson(runPath, run);
+  return run;
+}
+
+// Runs saved before names were percent-encoded replaced other characters with
+// "_". Renames such a run's folder and job files to the current names, so its
+// jobs can be found by ID again. Job files name their node inside.
+async function migrateLegacyRun(directoryPath: string, dirName: string, run: JobRun) {
+  const runDir = getRunDir(directoryPath, run.id);
+  const legacyDir = path.join(directoryPath, JOBS_DIR, dirName);
+  if (legacyDir !== runDir) {
+    await fs.rename(legacyDir, runDir);
+  }
+
+  for (const fileName of await fs.readdir(runDir)) {
+    if (!fileName.endsWith(".json") || fileName === "run.json") continue;
+    const job = await readJson<StoredJob>(path.join(runDir, fileName));
+    const jobPath = job && getJobPath(directoryPath, run.id, job.nodeId);
+    if (jobPath && jobPath !== path.join(runDir, fileName)) {
+      await fs.rename(path.join(runDir, fileName), jobPath);
+    }
+  }
+}
+
+/**
+ * Returns the most recent run of a workflow that never finished, if any.
+ */
+export async function findInterruptedRun(directoryPath: string, workflowId: string): Promise<JobRun | null> {
+  let dirNames: string[];
+  try {
+    dirNames = await fs.readdir(path.join(directoryPath, JOBS_DIR));
+  } catch {
+    return null;
+  }
+
+  let latest: { run: JobRun; dirName: string } | null = null;
+  for (const dirName of dirNames) {
+    const run = await readJson<JobRun>(path.join(directoryPath, JOBS_DIR, dirName, "run.json"));
+    if (run && run.workflowId === workflowId && run.status === "running") {
+      if (!latest || run.createdAt > latest.run.createdAt) latest = { run, dirName };
+    }
+  }
+
+  if (latest) {
+    await migrateLegacyRun(directoryPath, latest.dirName, latest.run).catch((error) =>
+      console.warn(`[Jobs] Failed to rename run ${latest.run.id} to the current file names:`, error)
+    );
+  }
+  return latest?.run ?? null;
+}
+
+/**
+ * Queues a provider call for a node. Submitting the same node twice in a run
+ * re-attaches to the existing job unless it failed or was cancelled, in which
+ * case it is run again.
+ */
+export async function submitJob({
+  directoryPath,
+  runId,
+  nodeId,
+  kind,
+  request,
+  retryPolicy,
+}: SubmitJobRequest): Promise<GenerationJob> {
+  const existing = await readJson<StoredJob>(getJobPath(directoryPath, runId, nodeId));
+  if (existing && existing.status !== "error" && existing.status !== "cancelled") {
+    return toPublicJob(await resumeIfOrphaned(directoryPath, existing));
+  }
+
+  await fs.mkdir(getRunDir(directoryPath, runId), { recursive: true });
+
+  const policy = resolveRetryPolicy(retryPolicy);
+  const now = Date.now();
+  const job: StoredJob = {
+    id: createId("job"),
+    runId,
+    nodeId,
+    kind,
+    status: "queued",
+    attempts: 0,
+    maxAttempts: policy.maxAttempts,
+    result: null,
+    partialText: null,
+    error: null,
+    nextAttemptAt: null,
+    createdAt: now,
+    updatedAt: now,
+    request,
+    retryPolicy: policy,
+  };
+  await saveJob(directoryPath, job);
+
+  // Process in the background - the client polls getJob for the result
+  processJob(directoryPath, job);
+
+  return toPublicJob(job);
+}
+
+/**
+ * Returns a job's current state, restarting it if it was orphaned by a server restart.
+ */
+export async function getJob(directoryPath: string, runId: string, nodeId: string): Promise<GenerationJob | null> {
+  const job = await readJson<StoredJob>(getJobPath(directoryPath, runId, nodeId));
+  if (!job) return null;
+
+  return toPublicJob(await resumeIfOrphaned(directoryPath, job));
+}
+
+/**
+ * Cancels a node's pending job, aborting its provider call if one is in flight.
+ * Finished jobs are returned unchanged.
+ */
+export async function cancelJob(directoryPath: string, runId: string, nodeId: string): Promise<GenerationJob | null> {
+  const jobPath = getJobPath(directoryPath, runId, nodeId);
+  const job = await readJson<StoredJob>(jobPath);
+  if (!job) return null;
+
+  const controller = activeJobs.get(jobPath);
+  if (controller) {
+    // processJob records the cancellation once the call unwinds
+    controller.abort();
+  } else if (job.status === "queued" || job.status === "running") {
+    // Orphaned job - nothing is running it, so mark it directly
+    job.status = "cancelled";
+    job.error = null;
+    job.nextAttemptAt = null;
+    job.partialText = null;
+    await saveJob(directoryPath, job);
+  }
+
+  return toPublicJob(job);
+}
@@ -0,0 +1,98 @@
+/**
+ * LLM Provider Registry
+ *
+ * Declares the text generation providers. Google and OpenAI offer a fixed
+ * list of models; Anthropic and OpenAI-compatible servers (Ollama, LM Studio,
+ * vLLM) list their models from the endpoint through /api/llm/models.
+ */
+
+import { LLMGenerateRequest, LLMModelType, LLMProvider } from "@/types";
+
+export interface LLMModelInfo {
+  value: LLMModelType;
+  label: string;
+}
+
+export interface LLMProviderInfo {
+  value: LLMProvider;
+  label: string;
+  // Concurrency limit group (see DEFAULT_CONCURRENCY_LIMITS)
+  concurrencyKey: string;
+  // Fixed model list, or null when models are discovered from the endpoint
+  models: LLMModelInfo[] | null;
+}
+
+export const LLM_PROVIDERS: LLMProviderInfo[] = [
+  {
+    value: "google",
+    label: "Google",
+    concurrencyKey: "google",
+    models: [
+      { value: "gemini-3-flash-preview", label: "Gemini 3 Flash" },
+      { value: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+      { value: "gemini-3-pro-preview", label: "Gemini 3.0 Pro" },
+    ],
+  },
+  {
+    value: "openai",
+    label: "OpenAI",
+    concurrencyKey: "openai",
+    models: [
+      { value: "gpt-4.1-mini", label: "GPT-4.1 Mini" },
+      { value: "gpt-4.1-nano", label: "GPT-4.1 Nano" },
+    ],
+  },
+  {
+    value: "anthropic",
+    label: "Anthropic",
+    concurrencyKey: "anthropic",
+    models: null,
+  },
+  {
+    value: "openaiCompatible",
+    label: "Local (OpenAI-compatible)",
+    concurrencyKey: "local",
+    models: null,
+  },
+];
+
+// Used when neither the settings nor OPENAI_COMPATIBLE_BASE_URL set one (Ollama's default)
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+
+// Endpoint settings sent along with LLM requests
+export interface LLMProviderSettings {
+  openaiCompatibleBaseUrl: string;  // Empty to use the server's default
+}
+
+export const DEFAULT_LLM_PROVIDER_SETTINGS: LLMProviderSettings = {
+  openaiCompatibleBaseUrl: "",
+};
+
+/**
+ * Whether a request was sent as JSON. Browsers can't send a JSON body to
+ * another site without a CORS preflight, which the API routes don't answer,
+ * so routes that fetch a client-chosen base URL only take JSON requests.
+ */
+export const isJsonRequest = (request: Request): boolean =>
+  request.headers.get("content-type")?.split(";")[0].trim().toLowerCase() === "application/json";
+
+export const isLLMProvider = (value: unknown): value is LLMProvider =>
+  LLM_PROVIDERS.some((provider) => provider.value === value);
+
+export const getLLMProvider = (provider: LLMProvider | undefined): LLMProviderInfo =>
+  LLM_PROVIDERS.find((p) => p.value === provider) ?? LLM_PROVIDERS[0];
+
+/**
+ * Adds the endpoint settings a request's provider needs. The base URL only
+ * applies to OpenAI-compatible requests, so other cache keys don't change
+ * when it's edited.
+ */
+export function applyLLMProviderSettings(
+  request: LLMGenerateRequest,
+  settings: LLMProviderSettings
+): LLMGenerateRequest {
+  if (request.provider !== "openaiCompatible" || !settings.openaiCompatibleBaseUrl) {
+    return request;
+  }
+  return { ...request, baseUrl: settings.openaiCompatibleBaseUrl };
+}
@@ -0,0 +1,73 @@
+/**
+ * Mock Provider
+ *
+ * With MOCK_PROVIDERS=true every image and LLM request is answered locally
+ * instead of calling a provider, so workflows can be developed and tested
+ * offline without API keys. Responses are deterministic: the same request
+ * always gets the same image or text.
+ */
+
+import { LLMGenerateRequest } from "@/types";
+import { LLMModelInfo } from "@/lib/llmProviders";
+import { JUDGE_INSTRUCTION } from "@/utils/conditionRules";
+
+export const isMockMode = () => process.env.MOCK_PROVIDERS === "true";
+
+export const MOCK_LLM_MODELS: LLMModelInfo[] = [{ value: "mock", label: "Mock" }];
+
+// Stable 32-bit hash of a string
+export function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (Math.imul(hash, 31) + text.charCodeAt(i)) | 0;
+  }
+  return hash >>> 0;
+}
+
+// Value for one schema property: strings echo the field and prompt, other types are picked by hash
+function mockFieldValue(name: string, property: unknown, prompt: string): unknown {
+  const hash = hashText(`${name}:${prompt}`);
+  switch ((property as Record<string, unknown> | null)?.type) {
+    case "number":
+    case "integer":
+      return hash % 100;
+    case "boolean":
+      return hash % 2 === 0;
+    case "array":
+      return [];
+    case "object":
+      return {};
+    default:
+      return `Mock ${name}: ${prompt}`;
+  }
+}
+
+/**
+ * Templated response for an LLM request. Condition judge prompts get a yes or
+ * no answer picked by hash; JSON requests get an object with every schema
+ * property filled in; anything else gets the prompt echoed back, so
+ * downstream templates and conditions still see its content.
+ */
+export function generateMockText(request: LLMGenerateRequest): string {
+  const { prompt, images = [], provider, model } = request;
+
+  if (prompt.startsWith(JUDGE_INSTRUCTION)) {
+    return hashText(prompt) % 2 === 0 ? "yes" : "no";
+  }
+
+  if (request.jsonSchema) {
+    const properties = (request.jsonSchema.properties ?? {}) as Record<string, unknown>;
+    return JSON.stringify(
+      Object.fromEntries(
+        Object.entries(properties).map(([name, property]) => [name, mockFieldValue(name, property, prompt)])
+      ),
+      null,
+      2
+    );
+  }
+
+  const imageNote = images.length > 0
+    ? ` with ${images.length} image${images.length === 1 ? "" : "s"}`
+    : "";
+  return `Mock response from ${provider}/${model}${imageNote}:\n${prompt}`;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { decodeImage } from "@/lib/images";
+import { colorForText, createPlaceholderImage } from "@/lib/placeholderImage";
+
+describe("createPlaceholderImage", () => {
+  it("fills a PNG of the requested size with the color", async () => {
+    const dataUrl = await createPlaceholderImage(64, 32, [10, 120, 200]);
+    const image = await decodeImage(dataUrl);
+
+    expect(dataUrl.startsWith("data:image/png;base64,")).toBe(true);
+    expect([image.width, image.height]).toEqual([64, 32]);
+    expect([...image.data.slice(0, 4)]).toEqual([10, 120, 200, 255]);
+  });
+
+  it("writes the text over the middle and leaves the edges alone", async () => {
+    const color = colorForText("a red fox");
+    const image = await decodeImage(await createPlaceholderImage(320, 160, color, "a red fox <& friends>"));
+    const isBackground = (i: number) => image.data[i] === color[0] && image.data[i + 1] === color[1] && image.data[i + 2] === color[2];
+
+    let textPixels = 0;
+    for (let i = 0; i < image.data.length; i += 4) {
+      if (!isBackground(i)) textPixels++;
+    }
+    expect(textPixels).toBeGreaterThan(0);
+    expect(isBackground(0)).toBe(true);
+  });
+});
+
+describe("colorForText", () => {
+  it("gives the same text the same color", () => {
+    expect(colorForText("a red fox")).toEqual(colorForText("a red fox"));
+    expect(colorForText("a red fox")).not.toEqual(colorForText("a blue whale"));
+  });
+});
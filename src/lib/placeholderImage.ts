@@ -0,0 +1,108 @@
+/**
+ * Placeholder Images
+ *
+ * Renders placeholder PNGs for the mock image provider with sharp: the prompt
+ * written as SVG text over a canvas colored by the prompt, so the same request
+ * always produces the same image.
+ */
+
+import sharp from "sharp";
+import { hashText } from "@/lib/mockProvider";
+
+export type RGB = [number, number, number];
+
+const TEXT_COLOR = "#f0f0f0";
+
+// Average glyph width of the sans-serif font, as a fraction of the font size
+const CHAR_WIDTH = 0.6;
+const LINE_HEIGHT = 1.3;
+
+// Stable muted color for a string
+export function colorForText(text: string): RGB {
+  const hue = hashText(text) % 360;
+
+  // HSL to RGB with fixed saturation and lightness
+  const s = 0.45;
+  const l = 0.4;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+// Word-wrap text to lines of at most maxChars, breaking long words
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+      while (word.length > maxChars) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+        line = "";
+      }
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= maxChars) {
+        line += ` ${word}`;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Lays out text centered on an image of the given size as an SVG, wrapped to
+ * the image width. Lines that don't fit are dropped and the last visible line
+ * ends with "...".
+ */
+function centeredTextSvg(width: number, height: number, text: string): string {
+  const fontSize = Math.max(10, Math.round(Math.min(width, height) / 20));
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const margin = fontSize * 2;
+
+  const maxChars = Math.max(1, Math.floor((width - margin * 2) / (fontSize * CHAR_WIDTH)));
+  const maxLines = Math.max(1, Math.floor((height - margin * 2) / lineHeight));
+  let lines = wrapText(text, maxChars);
+  if (lines.length > maxLines) {
+    lines = lines.slice(0, maxLines);
+    const last = lines[maxLines - 1];
+    lines[maxLines - 1] = `${last.slice(0, maxChars - 3)}...`;
+  }
+
+  // First baseline, so the block of lines is centered vertically
+  const top = (height - lines.length * lineHeight) / 2 + fontSize;
+  const spans = lines
+    .map((line, row) => `<tspan x="${width / 2}" y="${top + row * lineHeight}">${escapeXml(line)}</tspan>`)
+    .join("");
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<text font-family="sans-serif" font-size="${fontSize}" fill="${TEXT_COLOR}" text-anchor="middle" xml:space="preserve">${spans}</text>` +
+    `</svg>`
+  );
+}
+
+/**
+ * Creates a placeholder image as a PNG data URL: a solid color with the
+ * text, if any, written across it.
+ */
+export async function createPlaceholderImage(width: number, height: number, color: RGB, text?: string): Promise<string> {
+  const [r, g, b] = color;
+  let canvas = sharp({ create: { width, height, channels: 4, background: { r, g, b, alpha: 1 } } });
+  if (text) {
+    canvas = canvas.composite([{ input: Buffer.from(centeredTextSvg(width, height, text)) }]);
+  }
+  const png = await canvas.png().toBuffer();
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
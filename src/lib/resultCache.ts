@@ -0,0 +1,54 @@
+/**
+ * Result Cache
+ *
+ * Stores provider results under the project directory so re-running a
+ * workflow reuses the output of any node whose inputs and settings haven't
+ * changed. Entries are keyed by computeCacheKey.
+ *
+ * Layout: <project>/.node-banana/cache/<key>.json
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { isCacheKey } from "@/lib/cacheKey";
+import { CachedResult, JobKind } from "@/types";
+
+const CACHE_DIR = path.join(".node-banana", "cache");
+
+const getEntryPath = (directoryPath: string, key: string) => {
+  if (!isCacheKey(key)) {
+    throw new Error("Invalid cache key");
+  }
+  return path.join(directoryPath, CACHE_DIR, `${key}.json`);
+};
+
+/**
+ * Returns the cached result for a key, or null on a miss.
+ */
+export async function readCachedResult(directoryPath: string, key: string): Promise<CachedResult | null> {
+  try {
+    return JSON.parse(await fs.readFile(getEntryPath(directoryPath, key), "utf-8")) as CachedResult;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores a result, replacing any previous entry for the key.
+ */
+export async function writeCachedResult(
+  directoryPath: string,
+  key: string,
+  kind: JobKind,
+  result: string
+): Promise<CachedResult> {
+  const entryPath = getEntryPath(directoryPath, key);
+  const entry: CachedResult = { key, kind, result, createdAt: Date.now() };
+
+  await fs.mkdir(path.dirname(entryPath), { recursive: true });
+  // Write via a temp file so a crash never leaves a half-written entry behind
+  const tempPath = `${entryPath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(entry), "utf-8");
+  await fs.rename(tempPath, entryPath);
+  return entry;
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  getErrorStatusCode,
+  isRetryableError,
+  resolveRetryPolicy,
+  withRetry,
+} from "@/lib/retry";
+import { RetryPolicy } from "@/types";
+
+// No waiting between attempts
+const FAST_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 3, baseDelayMs: 0, jitter: 0 };
+
+const httpError = (status: number) => Object.assign(new Error(`API error: ${status}`), { status });
+
+describe("resolveRetryPolicy", () => {
+  it("fills in missing fields from the defaults", () => {
+    expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    expect(resolveRetryPolicy({ maxAttempts: 2 })).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 2 });
+  });
+
+  it("clamps out-of-range values and drops invalid status codes", () => {
+    const policy = resolveRetryPolicy({
+      maxAttempts: 50,
+      baseDelayMs: -5,
+      jitter: 3,
+      retryOn: [200, 429, 503.5, 599],
+    });
+    expect(policy.maxAttempts).toBe(10);
+    expect(policy.baseDelayMs).toBe(0);
+    expect(policy.jitter).toBe(1);
+    expect(policy.retryOn).toEqual([429, 599]);
+  });
+
+  it("ignores values of the wrong type", () => {
+    const policy = resolveRetryPolicy({ maxAttempts: "3" as unknown as number, retryOn: "429" as unknown as number[] });
+    expect(policy.maxAttempts).toBe(DEFAULT_RETRY_POLICY.maxAttempts);
+    expect(policy.retryOn).toEqual(DEFAULT_RETRY_POLICY.retryOn);
+  });
+});
+
+describe("getErrorStatusCode", () => {
+  it("reads numeric codes, Genkit status names and status codes in messages", () => {
+    expect(getErrorStatusCode({ code: 429 })).toBe(429);
+    expect(getErrorStatusCode({ status: 502 })).toBe(502);
+    expect(getErrorStatusCode({ status: "UNAVAILABLE" })).toBe(503);
+    expect(getErrorStatusCode(new Error("OpenAI API error: 503"))).toBe(503);
+    expect(getErrorStatusCode(new Error("Upstream returned HTTP 502"))).toBe(502);
+    expect(getErrorStatusCode(new Error("Request failed with status code 429"))).toBe(429);
+  });
+
+  it("ignores numbers that aren't a status", () => {
+    expect(getErrorStatusCode(new Error("Prompt exceeds 500 characters"))).toBeNull();
+    expect(getErrorStatusCode(new Error("Image must be at most 4096 pixels wide, got 529"))).toBeNull();
+    expect(isRetryableError(new Error("Prompt exceeds 500 characters"), DEFAULT_RETRY_POLICY)).toBe(false);
+  });
+
+  it("returns null when there is no status", () => {
+    expect(getErrorStatusCode(new Error("Invalid prompt"))).toBeNull();
+    expect(getErrorStatusCode("oops")).toBeNull();
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries the policy's status codes only", () => {
+    expect(isRetryableError(httpError(429), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(httpError(400), DEFAULT_RETRY_POLICY)).toBe(false);
+    expect(isRetryableError(httpError(429), { ...DEFAULT_RETRY_POLICY, retryOn: [503] })).toBe(false);
+  });
+
+  it("lets an error's retryable flag decide", () => {
+    expect(isRetryableError(Object.assign(httpError(400), { retryable: true }), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(Object.assign(httpError(503), { retryable: false }), DEFAULT_RETRY_POLICY)).toBe(false);
+  });
+});
+
+describe("getBackoffDelay", () => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 5000, jitter: 0 };
+
+  it("doubles the delay on each retry up to the maximum", () => {
+    expect([1, 2, 3, 4].map((retry) => getBackoffDelay(retry, policy))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it("spreads the delay by the jitter fraction", () => {
+    const random = vi.spyOn(Math, "random");
+    random.mockReturnValue(0);
+    expect(getBackoffDelay(1, { ...policy, jitter: 0.2 })).toBe(800);
+    random.mockReturnValue(1);
+    expect(getBackoffDelay(1, { ...policy, jitter: 0.2 })).toBe(1200);
+    random.mockRestore();
+  });
+});
+
+describe("withRetry", () => {
+  it("retries retryable errors until the call succeeds", async () => {
+    const onRetry = vi.fn();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValue("image");
+
+    await expect(withRetry(fn, FAST_POLICY, onRetry)).resolves.toBe("image");
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([2, 3]);
+  });
+
+  it("rethrows the last error when attempts run out", async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(503));
+    await expect(withRetry(fn, FAST_POLICY)).rejects.toThrow("API error: 503");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("fails straight away on errors the policy won't retry", async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(400));
+    await expect(withRetry(fn, FAST_POLICY)).rejects.toThrow("API error: 400");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      throw httpError(503);
+    });
+    await expect(withRetry(fn, FAST_POLICY, undefined, controller.signal)).rejects.toThrow("API error: 503");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
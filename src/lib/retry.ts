@@ -0,0 +1,147 @@
+/**
+ * Retry helpers for provider calls.
+ *
+ * A retry policy decides how many attempts a call gets, how long to back off
+ * between them, and which HTTP status codes are worth retrying. By default
+ * only rate limits (429) and server-side errors (5xx) are retried - bad
+ * requests, safety blocks and missing keys fail on the first attempt.
+ */
+
+import { RetryPolicy } from "@/types";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+  retryOn: [429, 500, 502, 503, 504],
+};
+
+// Hard limits for policies supplied by clients
+const MAX_ATTEMPTS_LIMIT = 10;
+const MAX_DELAY_LIMIT_MS = 5 * 60 * 1000;
+
+// Genkit status names mapped to the HTTP codes they represent
+const STATUS_NAME_CODES: Record<string, number> = {
+  RESOURCE_EXHAUSTED: 429,
+  INTERNAL: 500,
+  UNAVAILABLE: 503,
+  DEADLINE_EXCEEDED: 504,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Fills in a partial policy from the defaults and clamps every field to a sane range.
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  const merged = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const toNumber = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+  return {
+    maxAttempts: Math.round(clamp(toNumber(merged.maxAttempts, DEFAULT_RETRY_POLICY.maxAttempts), 1, MAX_ATTEMPTS_LIMIT)),
+    baseDelayMs: clamp(toNumber(merged.baseDelayMs, DEFAULT_RETRY_POLICY.baseDelayMs), 0, MAX_DELAY_LIMIT_MS),
+    maxDelayMs: clamp(toNumber(merged.maxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs), 0, MAX_DELAY_LIMIT_MS),
+    jitter: clamp(toNumber(merged.jitter, DEFAULT_RETRY_POLICY.jitter), 0, 1),
+    retryOn: Array.isArray(merged.retryOn)
+      ? merged.retryOn.filter((code) => Number.isInteger(code) && code >= 400 && code < 600)
+      : DEFAULT_RETRY_POLICY.retryOn,
+  };
+}
+
+/**
+ * Returns the HTTP status of a provider error when one can be determined.
+ */
+export function getErrorStatusCode(error: unknown): number | null {
+  if (!error || typeof error !== "object") return null;
+
+  // GenkitError carries the HTTP code, fetch-style errors carry status
+  const { code, status } = error as { code?: unknown; status?: unknown };
+  if (typeof code === "number" && code >= 400) return code;
+  if (typeof status === "number" && status >= 400) return status;
+  if (typeof status === "string" && STATUS_NAME_CODES[status]) return STATUS_NAME_CODES[status];
+
+  // Plain errors only carry it in the message, where it must follow "HTTP",
+  // "status" or "API error:" - a bare number may be part of the message text
+  const message = error instanceof Error ? error.message : "";
+  const match = message.match(/\b(?:HTTP|status(?: code)?|API error:)\s*([45]\d\d)\b/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Whether the policy allows retrying this error. Errors that already know
+ * (e.g. API responses carrying a retryable flag) decide for themselves.
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error && typeof error === "object") {
+    const { retryable } = error as { retryable?: unknown };
+    if (typeof retryable === "boolean") return retryable;
+  }
+
+  const statusCode = getErrorStatusCode(error);
+  return statusCode !== null && policy.retryOn.includes(statusCode);
+}
+
+/**
+ * Exponential backoff delay before the given retry (1 = first retry), with jitter.
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.baseDelayMs * 2 ** (retry - 1), policy.maxDelayMs);
+  const spread = delay * policy.jitter;
+  return Math.max(0, Math.round(delay - spread + Math.random() * spread * 2));
+}
+
+/**
+ * Whether an error comes from an aborted request (fetch, Genkit or signal.throwIfAborted).
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+}
+
+/**
+ * Waits for ms, rejecting early with the abort reason if the signal aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Calls fn until it succeeds, fails with an error the policy won't retry, or
+ * runs out of attempts. The last error is rethrown. onRetry is called before
+ * waiting, with the number of the attempt about to be made. Aborting the
+ * signal stops any pending backoff and is never retried.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (nextAttempt: number, error: unknown, delayMs: number) => void | Promise<void>,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) {
+        throw error;
+      }
+      if (attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+        throw error;
+      }
+      const delayMs = getBackoffDelay(attempt, policy);
+      await onRetry?.(attempt + 1, error, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { createEventStream, readEventStream } from "@/lib/sse";
+
+// A stream that delivers the text in the given chunks
+const chunked = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(new TextEncoder().encode(chunk)));
+      controller.close();
+    },
+  });
+
+const readAll = async (body: ReadableStream<Uint8Array>) => {
+  const events: string[] = [];
+  await readEventStream(body, (data) => events.push(data));
+  return events;
+};
+
+describe("readEventStream", () => {
+  it("reassembles events split across chunks", async () => {
+    expect(await readAll(chunked('data: {"a":', '1}\n', '\ndata: {"b":2}\r\n\r\n', "data: last"))).toEqual([
+      '{"a":1}',
+      '{"b":2}',
+      "last",
+    ]);
+  });
+
+  it("joins multi-line data and ignores comments and other fields", async () => {
+    expect(await readAll(chunked(": keep-alive\n\nevent: token\ndata: one\ndata: two\n\n"))).toEqual(["one\ntwo"]);
+  });
+});
+
+describe("createEventStream", () => {
+  it("sends each event as JSON and closes when the producer settles", async () => {
+    const stream = createEventStream<{ n: number }>(async (send) => {
+      send({ n: 1 });
+      send({ n: 2 });
+    });
+
+    expect(await readAll(stream)).toEqual(['{"n":1}', '{"n":2}']);
+  });
+});
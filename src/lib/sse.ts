@@ -0,0 +1,84 @@
+/**
+ * Server-Sent Events helpers shared by the streaming routes, their browser
+ * clients, and the OpenAI streaming response parser.
+ */
+
+const encoder = new TextEncoder();
+
+export const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+/**
+ * Creates an event stream that runs the producer and closes when it settles.
+ * Each event is sent as a single JSON "data:" line. Events sent after the
+ * client disconnects are dropped.
+ */
+export function createEventStream<T>(
+  produce: (send: (event: T) => void) => Promise<void>
+): ReadableStream<Uint8Array> {
+  let closed = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: T) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        await produce(send);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
+
+/**
+ * Reads an event stream and calls onData with each event's data payload.
+ * Resolves once the stream ends.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flushEvent = (rawEvent: string) => {
+    const data = rawEvent
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+    if (data) onData(data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let separator = buffer.search(/\r?\n\r?\n/);
+    while (separator !== -1) {
+      flushEvent(buffer.slice(0, separator));
+      buffer = buffer.slice(separator).replace(/^\r?\n\r?\n/, "");
+      separator = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) flushEvent(buffer);
+}
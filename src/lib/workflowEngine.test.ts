@@ -0,0 +1,585 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generateMockText } from "@/lib/mockProvider";
+import { ResultCacheStore, WorkflowServices, getConnectedInputs, runWorkflowFile, validateWorkflow, withResultCache } from "@/lib/workflowEngine";
+import { GenerateRequest, LLMGenerateNodeData, NodeType, WorkflowEdge, WorkflowNode, WorkflowNodeData } from "@/types";
+
+// Provider calls answered locally, like MOCK_PROVIDERS mode but without encoding images
+const createMockServices = (): WorkflowServices => ({
+  generateImage: async ({ prompt, images = [] }) => `image(${[prompt, ...images].join(", ")})`,
+  generateText: async (request) => generateMockText(request),
+  splitImage: async () => [],
+  flattenImage: async (image, overlay) => `flattened(${image}, ${overlay})`,
+  exportImage: async (image) => image,
+});
+
+const node = (id: string, type: NodeType, data: Record<string, unknown>): WorkflowNode =>
+  ({ id, type, position: { x: 0, y: 0 }, data: data as WorkflowNodeData }) as WorkflowNode;
+
+const generateNode = (id: string, model = "mock") =>
+  node(id, "nanoBanana", { inputImages: [], inputPrompt: null, outputImage: null, aspectRatio: "1:1", resolution: "1K", model, useGoogleSearch: false, status: "idle", error: null });
+
+const llmNode = (id: string, data: Record<string, unknown> = {}) =>
+  node(id, "llmGenerate", { inputPrompt: null, outputText: null, provider: "google", model: "mock", temperature: 0, maxTokens: 100, status: "idle", error: null, ...data });
+
+const conditionNode = (id: string, pattern: string) =>
+  node(id, "condition", { inputText: null, mode: "contains", pattern, caseSensitive: false, jsonPath: "", operator: "equals", compareValue: "", question: "", provider: "google", model: "mock", result: null, status: "idle", error: null });
+
+const link = (source: string, sourceHandle: string, target: string, targetHandle: string): WorkflowEdge =>
+  ({ id: `${source}:${sourceHandle}-${target}:${targetHandle}`, source, sourceHandle, target, targetHandle }) as WorkflowEdge;
+
+const runFile = (nodes: WorkflowNode[], edges: WorkflowEdge[], services = createMockServices()) =>
+  runWorkflowFile({ version: 1, name: "test", nodes, edges, edgeStyle: "curved" }, services);
+
+const dataOf = (nodes: WorkflowNode[], id: string) => nodes.find((n) => n.id === id)!.data as Record<string, unknown>;
+
+const prompt = (id: string, text: string, y: number): WorkflowNode =>
+  ({ id, type: "prompt", position: { x: 0, y }, data: { prompt: text } }) as WorkflowNode;
+
+const edge = (source: string, target: string, targetHandle: string): WorkflowEdge =>
+  ({ id: `${source}-${target}-${targetHandle}`, source, target, sourceHandle: "text", targetHandle }) as WorkflowEdge;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("getConnectedInputs", () => {
+  it("joins several texts in connection order, wherever their nodes sit", () => {
+    const nodes = [prompt("style", "watercolor", 500), prompt("subject", "a fox", 0), prompt("target", "", 0)];
+    const edges = [edge("style", "target", "text"), edge("subject", "target", "text")];
+
+    expect(getConnectedInputs("target", nodes, edges).text).toBe("watercolor\n\na fox");
+  });
+
+  it("keeps template inputs apart from the main text", () => {
+    const nodes = [prompt("a", "a fox", 0), prompt("b", "at dawn", 0), prompt("target", "{{subject}}", 0)];
+    const edges = [edge("b", "target", "text:subject"), edge("a", "target", "text:subject")];
+
+    const inputs = getConnectedInputs("target", nodes, edges);
+    expect(inputs.text).toBeNull();
+    expect(inputs.variables).toEqual({ subject: "at dawn\n\na fox" });
+  });
+
+  it("reads LLM field outputs only while the field is in the schema", () => {
+    const schema = JSON.stringify({ type: "object", properties: { subject: { type: "string" } } });
+    const llm = (data: Partial<LLMGenerateNodeData>) =>
+      ({ id: "llm", type: "llmGenerate", position: { x: 0, y: 0 }, data: { outputFields: { subject: "a fox", style: "ink" }, ...data } }) as WorkflowNode;
+    const fieldEdge = (field: string) =>
+      ({ id: field, source: "llm", target: "target", sourceHandle: `field:${field}`, targetHandle: "text" }) as WorkflowEdge;
+    const textFrom = (node: WorkflowNode, field: string) =>
+      getConnectedInputs("target", [node, prompt("target", "", 0)], [fieldEdge(field)]).text;
+
+    expect(textFrom(llm({ outputFormat: "json", outputSchema: schema }), "subject")).toBe("a fox");
+    expect(textFrom(llm({ outputFormat: "json", outputSchema: schema }), "style")).toBeNull();
+    expect(textFrom(llm({ outputFormat: "text", outputSchema: schema }), "subject")).toBeNull();
+  });
+});
+
+describe("runWorkflow condition branches", () => {
+  const branchingWorkflow = (text: string) => ({
+    nodes: [
+      node("prompt", "prompt", { prompt: text }),
+      conditionNode("check", "fox"),
+      generateNode("yes"),
+      generateNode("no"),
+    ],
+    edges: [
+      link("prompt", "text", "check", "text"),
+      link("check", "true", "yes", "text"),
+      link("check", "false", "no", "text"),
+    ],
+  });
+
+  it("runs the taken branch and skips the other", async () => {
+    const { nodes: input, edges } = branchingWorkflow("a red fox");
+    const { nodes, halted } = await runFile(input, edges);
+
+    expect(halted).toBe(false);
+    expect(dataOf(nodes, "check").result).toBe(true);
+    expect(dataOf(nodes, "yes")).toMatchObject({ status: "complete", outputImage: "image(a red fox)" });
+    expect(dataOf(nodes, "no").status).toBe("skipped");
+  });
+
+  it("skips everything downstream of a skipped node", async () => {
+    const { nodes: input, edges } = branchingWorkflow("a grey wolf");
+    const { nodes } = await runFile(
+      [...input, node("out", "output", { image: null })],
+      [...edges, link("yes", "image", "out", "image")]
+    );
+
+    expect(dataOf(nodes, "no").status).toBe("complete");
+    expect(dataOf(nodes, "yes").status).toBe("skipped");
+    expect(dataOf(nodes, "out").image).toBeNull();
+  });
+
+  it("takes neither branch when the condition has no result", async () => {
+    const { nodes: input, edges } = branchingWorkflow("a red fox");
+    // Only the branches run - the condition keeps its empty result
+    const { nodes } = await runWorkflowFile(
+      { version: 1, name: "test", nodes: input, edges, edgeStyle: "curved" },
+      createMockServices(),
+      { nodeIds: ["yes", "no"] }
+    );
+
+    expect(dataOf(nodes, "yes").status).toBe("skipped");
+    expect(dataOf(nodes, "no").status).toBe("skipped");
+  });
+});
+
+describe("runWorkflow loops", () => {
+  const loopNode = (id: string, maxIterations: number) =>
+    node(id, "loop", { maxIterations, iteration: 0, currentImage: null, outputImage: null, status: "idle", error: null });
+
+  it("repeats only the nodes that lead back to the loop", async () => {
+    const services = createMockServices();
+    const calls: string[] = [];
+    const generateImage = services.generateImage;
+    services.generateImage = async (request, options) => {
+      calls.push(request.prompt);
+      return generateImage(request, options);
+    };
+
+    const { nodes, halted } = await runFile(
+      [
+        node("start", "imageInput", { image: "start.png", filename: "start.png", dimensions: null }),
+        node("refine", "prompt", { prompt: "refine" }),
+        node("upscale", "prompt", { prompt: "upscale" }),
+        loopNode("loop", 3),
+        generateNode("step"),
+        generateNode("final"),
+        node("out", "output", { image: null }),
+      ],
+      [
+        link("start", "image", "loop", "image"),
+        link("loop", "body", "step", "image"),
+        link("refine", "text", "step", "text"),
+        link("step", "image", "loop", "feedback"),
+        // Reads from the body without leading back, so it runs once with the last pass
+        link("step", "image", "final", "image"),
+        link("upscale", "text", "final", "text"),
+        link("loop", "image", "out", "image"),
+      ],
+      services
+    );
+
+    const third = "image(refine, image(refine, image(refine, start.png)))";
+    expect(halted).toBe(false);
+    expect(calls).toEqual(["refine", "refine", "refine", "upscale"]);
+    expect(dataOf(nodes, "loop")).toMatchObject({ status: "complete", iteration: 3, outputImage: third });
+    expect(dataOf(nodes, "final").outputImage).toBe(`image(upscale, ${third})`);
+    expect(dataOf(nodes, "out").image).toBe(third);
+  });
+
+  it("re-runs a condition that leads to the stop input and stops when its branch is taken", async () => {
+    const { nodes } = await runFile(
+      [
+        node("start", "imageInput", { image: "start.png", filename: "start.png", dimensions: null }),
+        node("refine", "prompt", { prompt: "refine" }),
+        node("question", "prompt", { prompt: "Is it done?" }),
+        loopNode("loop", 5),
+        generateNode("step"),
+        llmNode("review"),
+        conditionNode("done", "done"),
+      ],
+      [
+        link("start", "image", "loop", "image"),
+        link("loop", "body", "step", "image"),
+        link("refine", "text", "step", "text"),
+        link("step", "image", "loop", "feedback"),
+        link("step", "image", "review", "image"),
+        link("question", "text", "review", "text"),
+        link("review", "text", "done", "text"),
+        link("done", "true", "loop", "stop"),
+      ]
+    );
+
+    expect(dataOf(nodes, "done")).toMatchObject({ status: "complete", result: true });
+    expect(dataOf(nodes, "loop")).toMatchObject({ status: "complete", iteration: 1, outputImage: "image(refine, start.png)" });
+  });
+});
+
+describe("runWorkflow scheduling", () => {
+  // Generate calls that stay in flight until released, counting how many overlap
+  const createHeldServices = () => {
+    const services = createMockServices();
+    const held: (() => void)[] = [];
+    let inFlight = 0;
+    const stats = { maxInFlight: 0, held };
+    services.generateImage = async (request) => {
+      inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, inFlight);
+      await new Promise<void>((resolve) => held.push(resolve));
+      inFlight--;
+      return `image(${request.prompt})`;
+    };
+    return { services, stats };
+  };
+
+  // Releases held calls as they arrive until the run settles
+  const releaseUntilDone = async <T>(run: Promise<T>, held: (() => void)[]) => {
+    let done = false;
+    run.finally(() => { done = true; });
+    while (!done) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      held.splice(0).forEach((release) => release());
+    }
+    return run;
+  };
+
+  const branches = (model: string) => ({
+    nodes: ["a", "b", "c"].flatMap((branch) => [
+      node(`prompt-${branch}`, "prompt", { prompt: `prompt ${branch}` }),
+      generateNode(`generate-${branch}`, model),
+    ]),
+    edges: ["a", "b", "c"].map((branch) => link(`prompt-${branch}`, "text", `generate-${branch}`, "text")),
+  });
+
+  it("runs independent branches at the same time", async () => {
+    const { services, stats } = createHeldServices();
+    const { nodes, edges } = branches("mock");
+
+    const { halted } = await releaseUntilDone(runFile(nodes, edges, services), stats.held);
+
+    expect(halted).toBe(false);
+    expect(stats.maxInFlight).toBe(3);
+  });
+
+  it("keeps each provider under its concurrency limit", async () => {
+    const { services, stats } = createHeldServices();
+    const { nodes, edges } = branches("nano-banana");
+
+    const run = runWorkflowFile(
+      { version: 1, name: "test", nodes, edges, edgeStyle: "curved" },
+      services,
+      { concurrencyLimits: { google: 2 } }
+    );
+    const result = await releaseUntilDone(run, stats.held);
+
+    expect(stats.maxInFlight).toBe(2);
+    expect(result.nodes.filter((n) => n.type === "nanoBanana").map((n) => (n.data as Record<string, unknown>).status))
+      .toEqual(["complete", "complete", "complete"]);
+  });
+});
+
+describe("runWorkflow cancellation", () => {
+  it("cancels the in-flight node and starts nothing after it", async () => {
+    const controller = new AbortController();
+    const services = createMockServices();
+    const prompts: string[] = [];
+    services.generateImage = (request, options) => {
+      prompts.push(request.prompt);
+      controller.abort();
+      return Promise.reject(options?.signal?.reason);
+    };
+
+    const { nodes, halted } = await runWorkflowFile(
+      {
+        version: 1,
+        name: "test",
+        edgeStyle: "curved",
+        nodes: [node("prompt", "prompt", { prompt: "a fox" }), generateNode("first"), generateNode("second")],
+        edges: [
+          link("prompt", "text", "first", "text"),
+          link("prompt", "text", "second", "text"),
+          link("first", "image", "second", "image"),
+        ],
+      },
+      services,
+      { signal: controller.signal }
+    );
+
+    expect(halted).toBe(true);
+    expect(prompts).toEqual(["a fox"]);
+    expect(dataOf(nodes, "first").status).toBe("cancelled");
+    expect(dataOf(nodes, "second").status).toBe("idle");
+  });
+});
+
+describe("withResultCache", () => {
+  const createMemoryCache = (): ResultCacheStore => {
+    const entries = new Map<string, string>();
+    return {
+      get: async (key) => entries.get(key) ?? null,
+      set: async (key, _kind, result) => {
+        entries.set(key, result);
+      },
+    };
+  };
+
+  it("reuses results for unchanged inputs and calls the provider when they change", async () => {
+    const services = createMockServices();
+    const prompts: string[] = [];
+    const generateImage = services.generateImage;
+    services.generateImage = async (request, options) => {
+      prompts.push(request.prompt);
+      return generateImage(request, options);
+    };
+    const cachedServices = withResultCache(services, createMemoryCache());
+    const run = (text: string, forceRegenerate = false) => {
+      const generate = generateNode("generate");
+      return runFile(
+        [node("prompt", "prompt", { prompt: text }), { ...generate, data: { ...generate.data, forceRegenerate } } as WorkflowNode],
+        [link("prompt", "text", "generate", "text")],
+        cachedServices
+      );
+    };
+
+    const first = await run("a fox");
+    const second = await run("a fox");
+    await run("a wolf");
+    await run("a wolf", true);
+
+    expect(prompts).toEqual(["a fox", "a wolf", "a wolf"]);
+    expect(dataOf(second.nodes, "generate").outputImage).toBe(dataOf(first.nodes, "generate").outputImage);
+  });
+});
+
+describe("runWorkflow LLM image inputs", () => {
+  it("sends connected images along with the prompt", async () => {
+    const { nodes } = await runFile(
+      [
+        node("photo", "imageInput", { image: "photo.png", filename: "photo.png", dimensions: null }),
+        node("question", "prompt", { prompt: "What animal is this?" }),
+        llmNode("describe"),
+      ],
+      [link("photo", "image", "describe", "image"), link("question", "text", "describe", "text")]
+    );
+
+    expect(dataOf(nodes, "describe")).toMatchObject({
+      status: "complete",
+      inputImages: ["photo.png"],
+      outputText: "Mock response from google/mock with 1 image:\nWhat animal is this?",
+    });
+  });
+});
+
+describe("runWorkflow text-to-image", () => {
+  it("generates from a prompt alone", async () => {
+    const nodes = [node("prompt", "prompt", { prompt: "a red fox" }), generateNode("generate")];
+    const edges = [link("prompt", "text", "generate", "text")];
+    const requests: GenerateRequest[] = [];
+    const services = createMockServices();
+    services.generateImage = async (request) => {
+      requests.push(request);
+      return "image(a red fox)";
+    };
+
+    expect(validateWorkflow(nodes, edges)).toEqual({ valid: true, errors: [] });
+    const { nodes: result } = await runFile(nodes, edges, services);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].images ?? []).toEqual([]);
+    expect(dataOf(result, "generate")).toMatchObject({ status: "complete", outputImage: "image(a red fox)" });
+  });
+});
+
+describe("runWorkflow prompt templates", () => {
+  it("fills templates from their inputs and joins several texts in connection order", async () => {
+    const prompts: string[] = [];
+    const services = createMockServices();
+    services.generateImage = async (request) => {
+      prompts.push(request.prompt);
+      return "image";
+    };
+
+    await runFile(
+      [
+        node("subject", "prompt", { prompt: "a fox" }),
+        node("template", "prompt", { prompt: "{{subject}} in the style of {{style}}" }),
+        node("lighting", "prompt", { prompt: "soft light" }),
+        generateNode("generate"),
+      ],
+      [
+        link("subject", "text", "template", "text:subject"),
+        link("template", "text", "generate", "text"),
+        link("lighting", "text", "generate", "text"),
+      ],
+      services
+    );
+
+    // Unconnected placeholders are left as written
+    expect(prompts).toEqual(["a fox in the style of {{style}}\n\nsoft light"]);
+  });
+});
+
+describe("runWorkflow structured LLM output", () => {
+  it("splits JSON output into fields that feed other nodes", async () => {
+    const schema = JSON.stringify({ type: "object", properties: { subject: { type: "string" }, count: { type: "integer" } }, required: ["subject"] });
+    const prompts: string[] = [];
+    const services = createMockServices();
+    services.generateImage = async (request) => {
+      prompts.push(request.prompt);
+      return "image";
+    };
+
+    const { nodes } = await runFile(
+      [
+        node("idea", "prompt", { prompt: "Pick an animal" }),
+        llmNode("plan", { outputFormat: "json", outputSchema: schema }),
+        generateNode("generate"),
+      ],
+      [link("idea", "text", "plan", "text"), link("plan", "field:subject", "generate", "text")],
+      services
+    );
+
+    expect(dataOf(nodes, "plan")).toMatchObject({
+      status: "complete",
+      outputFields: { subject: "Mock subject: Pick an animal", count: expect.any(String) },
+    });
+    expect(prompts).toEqual(["Mock subject: Pick an animal"]);
+  });
+});
+
+describe("runWorkflow annotation outputs", () => {
+  const annotationNode = (id: string, data: Record<string, unknown> = {}) =>
+    node(id, "annotation", { sourceImage: null, annotations: [], outputImage: null, ...data });
+
+  const captureRequests = () => {
+    const requests: GenerateRequest[] = [];
+    const services = createMockServices();
+    const generateImage = services.generateImage;
+    services.generateImage = async (request, options) => {
+      requests.push(request);
+      return generateImage(request, options);
+    };
+    return { requests, services };
+  };
+
+  it("sends an inpainting mask along with the image it marks", async () => {
+    const { requests, services } = captureRequests();
+
+    await runFile(
+      [
+        node("photo", "imageInput", { image: "photo.png", filename: "photo.png", dimensions: null }),
+        annotationNode("annotate", { sourceImage: "photo.png", outputImage: "photo.png", outputMask: "mask.png" }),
+        node("prompt", "prompt", { prompt: "replace the sky" }),
+        generateNode("generate"),
+      ],
+      [
+        link("photo", "image", "annotate", "image"),
+        link("annotate", "image", "generate", "image"),
+        link("annotate", "mask", "generate", "mask"),
+        link("prompt", "text", "generate", "text"),
+      ],
+      services
+    );
+
+    expect(requests).toEqual([expect.objectContaining({ images: ["photo.png"], mask: "mask.png", prompt: "replace the sky" })]);
+  });
+
+  it("fails a generate node whose mask has no image to edit", async () => {
+    const { nodes } = await runFile(
+      [
+        annotationNode("annotate", { outputMask: "mask.png" }),
+        node("prompt", "prompt", { prompt: "replace the sky" }),
+        generateNode("generate"),
+      ],
+      [link("annotate", "mask", "generate", "mask"), link("prompt", "text", "generate", "text")]
+    );
+
+    expect(dataOf(nodes, "generate")).toMatchObject({ status: "error", error: "Mask input needs an image to edit" });
+  });
+
+  it("outputs single layers and the overlay on their own handles", async () => {
+    const { requests, services } = captureRequests();
+
+    await runFile(
+      [
+        annotationNode("annotate", {
+          sourceImage: "photo.png",
+          outputImage: "flattened.png",
+          outputOverlay: "overlay.png",
+          layerImages: { "layer-1": "layer-1.png", "layer-2": "layer-2.png" },
+        }),
+        node("prompt", "prompt", { prompt: "follow the sketch" }),
+        generateNode("generate"),
+      ],
+      [
+        link("annotate", "layer:layer-2", "generate", "image"),
+        link("annotate", "overlay", "generate", "image"),
+        link("prompt", "text", "generate", "text"),
+      ],
+      services
+    );
+
+    expect(requests[0].images).toEqual(["layer-2.png", "overlay.png"]);
+  });
+
+  it("sends the annotation description as text", async () => {
+    const { requests, services } = captureRequests();
+
+    await runFile(
+      [
+        annotationNode("annotate", { sourceImage: "photo.png", outputImage: "photo.png", outputDescription: "Region 1 (top, red box): make the sky purple" }),
+        node("prompt", "prompt", { prompt: "Apply these edits" }),
+        generateNode("generate"),
+      ],
+      [
+        link("annotate", "image", "generate", "image"),
+        link("prompt", "text", "generate", "text"),
+        link("annotate", "text", "generate", "text"),
+      ],
+      services
+    );
+
+    expect(requests[0].prompt).toBe("Apply these edits\n\nRegion 1 (top, red box): make the sky purple");
+  });
+
+  it("draws existing annotations onto a new source image with the node's export settings", async () => {
+    const services = createMockServices();
+    const settings: unknown[] = [];
+    services.flattenImage = async (image, overlay, exportSettings) => {
+      settings.push(exportSettings);
+      return `flattened(${image}, ${overlay})`;
+    };
+    const exportSettings = { scale: 0.5, maxDimension: null, format: "jpeg", quality: 0.85 };
+
+    const { nodes } = await runFile(
+      [
+        node("photo", "imageInput", { image: "new.png", filename: "new.png", dimensions: null }),
+        annotationNode("annotate", { sourceImage: "old.png", outputImage: "old-flattened.png", outputOverlay: "overlay.png", exportSettings }),
+      ],
+      [link("photo", "image", "annotate", "image")],
+      services
+    );
+
+    expect(dataOf(nodes, "annotate")).toMatchObject({ sourceImage: "new.png", outputImage: "flattened(new.png, overlay.png)" });
+    expect(settings).toEqual([exportSettings]);
+  });
+
+  it("passes an unannotated image through, encoded with the export settings", async () => {
+    const services = createMockServices();
+    services.exportImage = async (image, { format }) => `${format}(${image})`;
+
+    const { nodes } = await runFile(
+      [
+        node("photo", "imageInput", { image: "photo.png", filename: "photo.png", dimensions: null }),
+        annotationNode("annotate", { exportSettings: { scale: 1, maxDimension: 1024, format: "webp", quality: 0.92 } }),
+      ],
+      [link("photo", "image", "annotate", "image")],
+      services
+    );
+
+    expect(dataOf(nodes, "annotate").outputImage).toBe("webp(photo.png)");
+  });
+
+  it("fails instead of dropping the annotations when they can't be drawn", async () => {
+    const services = createMockServices();
+    services.flattenImage = async () => {
+      throw new Error("Unsupported image format");
+    };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { nodes, halted } = await runFile(
+      [
+        node("photo", "imageInput", { image: "new.png", filename: "new.png", dimensions: null }),
+        annotationNode("annotate", { sourceImage: "old.png", outputImage: "old-flattened.png", outputOverlay: "overlay.png" }),
+        node("out", "output", { image: null }),
+      ],
+      [link("photo", "image", "annotate", "image"), link("annotate", "image", "out", "image")],
+      services
+    );
+
+    expect(halted).toBe(true);
+    expect(dataOf(nodes, "out").image).toBeNull();
+  });
+});
@@ -0,0 +1,1143 @@
+/**
+ * Workflow Engine
+ *
+ * Node execution semantics shared by the canvas (Zustand store) and headless
+ * runs (/api/run). Provider calls are injected as services so the same graph
+ * logic runs against the Next.js API routes in the browser and against
+ * Genkit directly on the server.
+ */
+
+import {
+  WorkflowNode,
+  WorkflowEdge,
+  WorkflowNodeData,
+  ImageInputNodeData,
+  AnnotationNodeData,
+  AnnotationExportSettings,
+  PromptNodeData,
+  NanoBananaNodeData,
+  LLMGenerateNodeData,
+  SplitGridNodeData,
+  ConditionNodeData,
+  LoopNodeData,
+  OutputNodeData,
+  GenerateRequest,
+  JobKind,
+  LLMGenerateRequest,
+  NodeOutput,
+  WorkflowFile,
+  WorkflowParameter,
+} from "@/types";
+import { runScheduled, SchedulerResult } from "@/utils/executionScheduler";
+import { buildJudgePrompt, evaluateCondition, parseJudgeAnswer } from "@/utils/conditionRules";
+import { getTemplateVariableName, renderTemplate } from "@/utils/promptTemplate";
+import { getOutputFieldName, getOutputSchemaFields, parseOutputSchema, parseStructuredOutput } from "@/utils/structuredOutput";
+import { getLayerIdFromHandle } from "@/utils/annotationLayers";
+import { getExportSettings } from "@/utils/annotationExportSettings";
+import { computeCacheKey } from "@/lib/cacheKey";
+import { getImageModel, getImageProvider } from "@/lib/imageProviders";
+import { getLLMProvider } from "@/lib/llmProviders";
+
+export interface SplitImageResult {
+  image: string;
+  dimensions: { width: number; height: number } | null;
+}
+
+export interface ServiceCallOptions {
+  // Calling node (used to key queued jobs)
+  nodeId: string;
+  // Called before each retry with the attempt about to be made
+  onRetry?: (attempt: number, maxAttempts: number) => void;
+  // Called as LLM output streams in, with the text received so far
+  onPartialText?: (text: string) => void;
+  // Aborted when the run is stopped
+  signal?: AbortSignal;
+  // Skip the result cache lookup (the new result is still cached)
+  bypassCache?: boolean;
+  // Called when the result came from the cache instead of the provider
+  onCacheHit?: () => void;
+}
+
+// Provider calls used by node executors - each throws an Error with a user-facing message on failure
+export interface WorkflowServices {
+  generateImage: (request: GenerateRequest, options: ServiceCallOptions) => Promise<string>;
+  generateText: (request: LLMGenerateRequest, options: ServiceCallOptions) => Promise<string>;
+  splitImage: (image: string, rows: number, cols: number) => Promise<SplitImageResult[]>;
+  // Draws an Annotate node's overlay onto a new source image, encoded with its export settings
+  flattenImage: (image: string, overlay: string, settings: AnnotationExportSettings) => Promise<string>;
+  // Re-encodes an image with an Annotate node's export settings
+  exportImage: (image: string, settings: AnnotationExportSettings) => Promise<string>;
+}
+
+export interface ExecutionContext {
+  getNodes: () => WorkflowNode[];
+  getEdges: () => WorkflowEdge[];
+  updateNodeData: (nodeId: string, data: Partial<WorkflowNodeData>) => void;
+  services: WorkflowServices;
+  // Called after a generate node produces a new image
+  onImageGenerated?: (node: WorkflowNode, image: string, prompt: string) => void;
+  // Aborting stops in-flight provider calls; their nodes are marked cancelled
+  signal?: AbortSignal;
+}
+
+export interface ExecuteNodeOptions {
+  // Fall back to the inputs stored on the node when nothing is connected (single-node regenerate)
+  fallbackToStoredInputs?: boolean;
+  // Ignore cached results for this node
+  forceRegenerate?: boolean;
+}
+
+// Persistent store for provider results, keyed by computeCacheKey
+export interface ResultCacheStore {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, kind: JobKind, result: string) => Promise<void>;
+}
+
+export interface RunWorkflowOptions {
+  // Skip every node that sorts before this one
+  startFromNodeId?: string;
+  // Only run these nodes - the rest keep their current outputs
+  nodeIds?: string[];
+  // Nodes that already ran (e.g. before a pause) - they keep their outputs
+  skipNodeIds?: Set<string>;
+  concurrencyLimits: Record<string, number>;
+  // Return false to hold a node and its descendants back (stop button, pause edges)
+  canStart?: (nodeId: string) => boolean;
+  onNodeStart?: (nodeId: string) => void;
+  onNodeEnd?: (nodeId: string, success: boolean) => void;
+}
+
+// Default number of in-flight requests per provider
+export const DEFAULT_CONCURRENCY_LIMITS: Record<string, number> = {
+  google: 4,
+  openai: 4,
+  anthropic: 4,
+  local: 1,  // Self-hosted backends usually run one generation at a time
+};
+
+// Upper bound on a loop node's iterations
+export const MAX_LOOP_ITERATIONS = 20;
+
+// Provider whose concurrency limit applies to a node (null = runs locally, unlimited)
+export const getProviderForNode = (node: WorkflowNode): string | null => {
+  switch (node.type) {
+    case "nanoBanana": {
+      const model = getImageModel((node.data as NanoBananaNodeData).model);
+      return model ? getImageProvider(model.provider).concurrencyKey : "google";
+    }
+    case "llmGenerate":
+      return getLLMProvider((node.data as LLMGenerateNodeData).provider).concurrencyKey;
+    case "condition": {
+      const data = node.data as ConditionNodeData;
+      return data.mode === "llm" ? getLLMProvider(data.provider).concurrencyKey : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Wraps services so generate and LLM calls with the same inputs and settings
+ * as an earlier call return its result instead of calling the provider.
+ * Cache failures never fail the call - they just fall through to the provider.
+ */
+export function withResultCache(services: WorkflowServices, cache: ResultCacheStore): WorkflowServices {
+  const cached = async <T extends GenerateRequest | LLMGenerateRequest>(
+    kind: JobKind,
+    request: T,
+    options: ServiceCallOptions,
+    call: (request: T, options: ServiceCallOptions) => Promise<string>
+  ): Promise<string> => {
+    const key = await computeCacheKey(kind, request).catch(() => null);
+
+    if (key && !options.bypassCache) {
+      const hit = await cache.get(key).catch(() => null);
+      if (hit) {
+        options.onCacheHit?.();
+        return hit;
+      }
+    }
+
+    const result = await call(request, options);
+    if (key) {
+      cache.set(key, kind, result).catch((error) => console.warn("Failed to cache result:", error));
+    }
+    return result;
+  };
+
+  return {
+    ...services,
+    generateImage: (request, options) => cached("generate", request, options, services.generateImage),
+    generateText: (request, options) => cached("llm", request, options, services.generateText),
+  };
+}
+
+/**
+ * Whether an edge feeds a loop's feedback or stop input. These edges close the
+ * loop, so they are ignored when ordering the graph.
+ */
+export function isLoopBackEdge(edge: WorkflowEdge, nodes: WorkflowNode[]): boolean {
+  if (edge.targetHandle !== "feedback" && edge.targetHandle !== "stop") return false;
+  return nodes.find((n) => n.id === edge.target)?.type === "loop";
+}
+
+/**
+ * Returns the nodes a loop re-runs each iteration: those downstream of its
+ * body output that lead back to its feedback or stop input. Branches that
+ * only read from the body (a preview, say) run once, after the loop.
+ */
+export function getLoopBodyNodeIds(loopId: string, edges: WorkflowEdge[]): Set<string> {
+  const walk = (start: string[], next: (nodeId: string) => string[]) => {
+    const visited = new Set<string>();
+    const queue = [...start];
+    while (queue.length > 0) {
+      const nodeId = queue.pop()!;
+      if (nodeId === loopId || visited.has(nodeId)) continue;
+      visited.add(nodeId);
+      queue.push(...next(nodeId));
+    }
+    return visited;
+  };
+
+  const downstream = walk(
+    edges.filter((e) => e.source === loopId && e.sourceHandle === "body").map((e) => e.target),
+    (nodeId) => edges.filter((e) => e.source === nodeId).map((e) => e.target)
+  );
+  const leadsBack = walk(
+    edges
+      .filter((e) => e.target === loopId && (e.targetHandle === "feedback" || e.targetHandle === "stop"))
+      .map((e) => e.source),
+    (nodeId) => edges.filter((e) => e.target === nodeId).map((e) => e.source)
+  );
+
+  return new Set([...downstream].filter((nodeId) => leadsBack.has(nodeId)));
+}
+
+/**
+ * Returns the given nodes plus every node downstream of them.
+ */
+export function getDownstreamNodeIds(nodeIds: Iterable<string>, edges: WorkflowEdge[]): Set<string> {
+  const downstream = new Set<string>();
+  const queue = [...nodeIds];
+
+  while (queue.length > 0) {
+    const nodeId = queue.pop()!;
+    if (downstream.has(nodeId)) continue;
+    downstream.add(nodeId);
+    edges.filter((e) => e.source === nodeId).forEach((e) => queue.push(e.target));
+  }
+
+  return downstream;
+}
+
+/**
+ * Sorts nodes so every node comes after the nodes it depends on.
+ * Throws if the graph contains a cycle other than a loop node's feedback.
+ */
+export function topologicalSort(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowNode[] {
+  const forwardEdges = edges.filter((e) => !isLoopBackEdge(e, nodes));
+  const sorted: WorkflowNode[] = [];
+  const visited = new Set<string>();
+  const visiting = new Set<string>();
+
+  const visit = (nodeId: string) => {
+    if (visited.has(nodeId)) return;
+    if (visiting.has(nodeId)) {
+      throw new Error("Cycle detected in workflow");
+    }
+
+    visiting.add(nodeId);
+
+    // Visit all nodes that this node depends on
+    forwardEdges
+      .filter((e) => e.target === nodeId)
+      .forEach((e) => visit(e.source));
+
+    visiting.delete(nodeId);
+    visited.add(nodeId);
+
+    const node = nodes.find((n) => n.id === nodeId);
+    if (node) sorted.push(node);
+  };
+
+  nodes.forEach((node) => visit(node.id));
+  return sorted;
+}
+
+// Image a node exposes on one of its output handles
+const getOutputImage = (node: WorkflowNode, handleId: string | null | undefined): string | null => {
+  switch (node.type) {
+    case "imageInput":
+      return (node.data as ImageInputNodeData).image;
+    case "annotation": {
+      const data = node.data as AnnotationNodeData;
+      const layerId = getLayerIdFromHandle(handleId);
+      if (layerId) return data.layerImages?.[layerId] ?? null;
+      if (handleId === "overlay") return data.outputOverlay ?? null;
+      return handleId === "mask" ? data.outputMask ?? null : data.outputImage;
+    }
+    case "nanoBanana":
+      return (node.data as NanoBananaNodeData).outputImage;
+    case "loop": {
+      // The body output carries the current iteration's image, the image output the final one
+      const data = node.data as LoopNodeData;
+      return handleId === "body" ? data.currentImage : data.outputImage;
+    }
+    default:
+      return null;
+  }
+};
+
+// Text a node exposes on an output - prompt templates are filled from the prompt's own inputs,
+// an LLM's field outputs carry one field of its JSON output, and an Annotate node describes
+// its annotations
+const getOutputText = (
+  node: WorkflowNode,
+  handleId: string | null | undefined,
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): string | null => {
+  switch (node.type) {
+    case "prompt": {
+      const { prompt } = node.data as PromptNodeData;
+      if (!edges.some((e) => e.target === node.id)) return prompt;
+      return renderTemplate(prompt, getConnectedInputs(node.id, nodes, edges).variables);
+    }
+    case "annotation":
+      return (node.data as AnnotationNodeData).outputDescription ?? null;
+    case "llmGenerate": {
+      const data = node.data as LLMGenerateNodeData;
+      const field = getOutputFieldName(handleId);
+      if (!field) return data.outputText;
+      // A field edge left over from before a schema change reads nothing
+      const fields = data.outputFormat === "json" ? getOutputSchemaFields(data.outputSchema) : [];
+      return fields.includes(field) ? data.outputFields?.[field] ?? null : null;
+    }
+    case "condition":
+      // Both branches pass the condition's input through
+      return (node.data as ConditionNodeData).inputText;
+    default:
+      return null;
+  }
+};
+
+// Separator between text inputs joined on the same handle
+const TEXT_INPUT_SEPARATOR = "\n\n";
+
+// Join texts in the order their edges were connected, so moving nodes never changes the prompt
+const joinTexts = (texts: string[]): string =>
+  texts.filter(Boolean).join(TEXT_INPUT_SEPARATOR);
+
+/**
+ * Collects the images, mask and text flowing into a node from its connected
+ * sources. Several sources on the same text input are joined in the order
+ * they were connected. Text on a prompt's template inputs is returned
+ * per variable.
+ */
+export function getConnectedInputs(
+  nodeId: string,
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): { images: string[]; mask: string | null; text: string | null; variables: Record<string, string> } {
+  const images: string[] = [];
+  let mask: string | null = null;
+  const texts: string[] = [];
+  const variableTexts: Record<string, string[]> = {};
+
+  edges
+    .filter((edge) => edge.target === nodeId)
+    .forEach((edge) => {
+      const sourceNode = nodes.find((n) => n.id === edge.source);
+      if (!sourceNode) return;
+
+      const handleId = edge.targetHandle;
+
+      if (handleId === "image" || !handleId) {
+        // Get image from source node - collect all connected images
+        const sourceImage = getOutputImage(sourceNode, edge.sourceHandle);
+        if (sourceImage) images.push(sourceImage);
+      }
+
+      if (handleId === "mask") {
+        mask ??= getOutputImage(sourceNode, edge.sourceHandle);
+      }
+
+      const variable = getTemplateVariableName(handleId);
+      if (handleId === "text" || variable) {
+        const sourceText = getOutputText(sourceNode, edge.sourceHandle, nodes, edges);
+        if (sourceText === null) return;
+
+        if (variable) {
+          (variableTexts[variable] ??= []).push(sourceText);
+        } else {
+          texts.push(sourceText);
+        }
+      }
+    });
+
+  const variables = Object.fromEntries(
+    Object.entries(variableTexts).map(([name, values]) => [name, joinTexts(values)])
+  );
+  return { images, mask, text: texts.length > 0 ? joinTexts(texts) : null, variables };
+}
+
+/**
+ * Checks that every node has the inputs it needs to run.
+ */
+export function validateWorkflow(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  // Check if there are any nodes
+  if (nodes.length === 0) {
+    errors.push("Workflow is empty");
+    return { valid: false, errors };
+  }
+
+  // Check each Nano Banana node has a prompt (images are optional - without them it's text-to-image)
+  nodes
+    .filter((n) => n.type === "nanoBanana")
+    .forEach((node) => {
+      const textConnected = edges.some(
+        (e) => e.target === node.id && e.targetHandle === "text"
+      );
+
+      if (!textConnected) {
+        errors.push(`Generate node "${node.id}" missing text input`);
+      }
+    });
+
+  // Check annotation nodes have image input (either connected or manually loaded)
+  nodes
+    .filter((n) => n.type === "annotation")
+    .forEach((node) => {
+      const imageConnected = edges.some((e) => e.target === node.id);
+      const hasManualImage = (node.data as AnnotationNodeData).sourceImage !== null;
+      if (!imageConnected && !hasManualImage) {
+        errors.push(`Annotation node "${node.id}" missing image input`);
+      }
+    });
+
+  // Check split grid nodes have a source image to split
+  nodes
+    .filter((n) => n.type === "splitGrid")
+    .forEach((node) => {
+      const imageConnected = edges.some((e) => e.target === node.id);
+      if (!imageConnected) {
+        errors.push(`Split Grid node "${node.id}" missing image input`);
+      }
+    });
+
+  // Check condition nodes have text input
+  nodes
+    .filter((n) => n.type === "condition")
+    .forEach((node) => {
+      const textConnected = edges.some((e) => e.target === node.id);
+      if (!textConnected) {
+        errors.push(`Condition node "${node.id}" missing text input`);
+      }
+    });
+
+  // Check loop nodes have their starting image and feedback inputs
+  nodes
+    .filter((n) => n.type === "loop")
+    .forEach((node) => {
+      const imageConnected = edges.some(
+        (e) => e.target === node.id && e.targetHandle === "image"
+      );
+      const feedbackConnected = edges.some(
+        (e) => e.target === node.id && e.targetHandle === "feedback"
+      );
+
+      if (!imageConnected) {
+        errors.push(`Loop node "${node.id}" missing image input`);
+      }
+      if (!feedbackConnected) {
+        errors.push(`Loop node "${node.id}" missing feedback input`);
+      }
+    });
+
+  // Check output nodes have image input
+  nodes
+    .filter((n) => n.type === "output")
+    .forEach((node) => {
+      const imageConnected = edges.some((e) => e.target === node.id);
+      if (!imageConnected) {
+        errors.push(`Output node "${node.id}" missing image input`);
+      }
+    });
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Lists the prompt and image input nodes marked as workflow parameters.
+ */
+export function getWorkflowParameters(nodes: WorkflowNode[]): WorkflowParameter[] {
+  const parameters: WorkflowParameter[] = [];
+
+  nodes.forEach((node) => {
+    if (node.type !== "prompt" && node.type !== "imageInput") return;
+    const name = (node.data as PromptNodeData | ImageInputNodeData).parameterName?.trim();
+    if (name) {
+      parameters.push({ name, nodeId: node.id, type: node.type });
+    }
+  });
+
+  return parameters;
+}
+
+/**
+ * Returns the value a node currently exposes on its output handle.
+ */
+export function getNodeOutput(node: WorkflowNode): NodeOutput {
+  switch (node.type) {
+    case "imageInput":
+      return { type: node.type, image: (node.data as ImageInputNodeData).image };
+    case "annotation":
+      return { type: node.type, image: (node.data as AnnotationNodeData).outputImage };
+    case "prompt":
+      return { type: node.type, text: (node.data as PromptNodeData).prompt };
+    case "nanoBanana": {
+      const data = node.data as NanoBananaNodeData;
+      return { type: node.type, status: data.status, image: data.outputImage, error: data.error };
+    }
+    case "llmGenerate": {
+      const data = node.data as LLMGenerateNodeData;
+      return { type: node.type, status: data.status, text: data.outputText, fields: data.outputFields, error: data.error };
+    }
+    case "splitGrid": {
+      const data = node.data as SplitGridNodeData;
+      return { type: node.type, status: data.status, error: data.error };
+    }
+    case "condition": {
+      const data = node.data as ConditionNodeData;
+      return { type: node.type, status: data.status, text: data.inputText, result: data.result, error: data.error };
+    }
+    case "loop": {
+      const data = node.data as LoopNodeData;
+      return { type: node.type, status: data.status, image: data.outputImage, error: data.error };
+    }
+    case "output":
+      return { type: node.type, image: (node.data as OutputNodeData).image };
+  }
+}
+
+/**
+ * Executes a single node against the current graph state.
+ * Returns false if the node failed and the run should stop.
+ */
+export async function executeNode(
+  nodeId: string,
+  ctx: ExecutionContext,
+  options: ExecuteNodeOptions = {}
+): Promise<boolean> {
+  const { updateNodeData, services } = ctx;
+  const node = ctx.getNodes().find((n) => n.id === nodeId);
+  if (!node) return true;
+
+  const getInputs = () => getConnectedInputs(node.id, ctx.getNodes(), ctx.getEdges());
+
+  // Show "retrying 2/5" on the node instead of failing on the first transient error
+  const reportRetry = (attempt: number, maxAttempts: number) =>
+    updateNodeData(node.id, { retry: { attempt, maxAttempts } });
+
+  // A stopped run fails its in-flight calls - show those nodes as cancelled rather than errored
+  const wasCancelled = () => {
+    if (!ctx.signal?.aborted) return false;
+    updateNodeData(node.id, { status: "cancelled", error: null, retry: null });
+    return true;
+  };
+
+  switch (node.type) {
+    case "imageInput":
+      // Nothing to execute, data is already set
+      break;
+
+    case "annotation": {
+      // Get connected image and set as source (use first image)
+      const { images } = getInputs();
+      const image = images[0] || null;
+      if (image) {
+        const nodeData = node.data as AnnotationNodeData;
+        updateNodeData(node.id, { sourceImage: image });
+        // A new source image under existing annotations gets the overlay drawn onto it
+        if (nodeData.outputOverlay && image !== nodeData.sourceImage) {
+          try {
+            const outputImage = await services.flattenImage(image, nodeData.outputOverlay, getExportSettings(nodeData.exportSettings));
+            updateNodeData(node.id, { outputImage });
+          } catch (error) {
+            // Passing the bare image on would silently drop the annotations
+            console.error(`Failed to draw the annotations of "${node.id}" onto its new image:`, error);
+            return false;
+          }
+        } else if (!nodeData.outputImage) {
+          // If no annotations, pass through the image, encoded with the node's export settings if it has any
+          let outputImage = image;
+          if (nodeData.exportSettings) {
+            try {
+              outputImage = await services.exportImage(image, nodeData.exportSettings);
+            } catch (error) {
+              console.warn(`Failed to apply export settings to "${node.id}", passing the image through as is:`, error);
+            }
+          }
+          updateNodeData(node.id, { outputImage });
+        }
+      }
+      break;
+    }
+
+    case "prompt":
+      // Nothing to execute, data is already set
+      break;
+
+    case "nanoBanana": {
+      const nodeData = node.data as NanoBananaNodeData;
+      const inputs = getInputs();
+      let images = inputs.images;
+      let text = inputs.text;
+      let mask = inputs.mask;
+
+      if (options.fallbackToStoredInputs) {
+        // Prefer fresh connected inputs, fall back to stored inputs only if not connected
+        images = images.length > 0 ? images : nodeData.inputImages;
+        text = text ?? nodeData.inputPrompt;
+        mask = mask ?? nodeData.inputMask ?? null;
+      }
+
+      if (!text) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Missing text input",
+        });
+        return false;
+      }
+
+      // A connected image source that has nothing yet is a mistake, not a request for text-to-image
+      const imageConnected = ctx.getEdges().some((e) => e.target === node.id && e.targetHandle === "image");
+      if (imageConnected && images.length === 0) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Connected image input has no image",
+        });
+        return false;
+      }
+
+      // The mask marks a region of the first image
+      if (mask && images.length === 0) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Mask input needs an image to edit",
+        });
+        return false;
+      }
+
+      updateNodeData(node.id, {
+        inputImages: images,
+        inputPrompt: text,
+        inputMask: mask,
+        status: "loading",
+        error: null,
+        retry: null,
+      });
+
+      let fromCache = false;
+      try {
+        const image = await services.generateImage({
+          images,
+          prompt: text,
+          aspectRatio: nodeData.aspectRatio,
+          resolution: nodeData.resolution,
+          model: nodeData.model,
+          useGoogleSearch: nodeData.useGoogleSearch,
+          ...(mask && { mask }),
+          ...(nodeData.providerOptions && Object.keys(nodeData.providerOptions).length > 0 && {
+            options: nodeData.providerOptions,
+          }),
+        }, {
+          nodeId: node.id,
+          onRetry: reportRetry,
+          signal: ctx.signal,
+          bypassCache: options.forceRegenerate || nodeData.forceRegenerate,
+          onCacheHit: () => {
+            fromCache = true;
+          },
+        });
+
+        updateNodeData(node.id, {
+          outputImage: image,
+          status: "complete",
+          error: null,
+          retry: null,
+        });
+        // Cached images are already in the history and generations folder
+        if (!fromCache) {
+          ctx.onImageGenerated?.(node, image, text);
+        }
+      } catch (error) {
+        if (wasCancelled()) return false;
+
+        let errorMessage = "Generation failed";
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          errorMessage = "Request timed out. Try reducing image sizes or using a simpler prompt.";
+        } else if (error instanceof TypeError && error.message.includes('NetworkError')) {
+          errorMessage = "Network error. Check your connection and try again.";
+        } else if (error instanceof TypeError) {
+          errorMessage = `Network error: ${error.message}`;
+        } else if (error instanceof Error) {
+          errorMessage = error.message;
+        }
+
+        updateNodeData(node.id, {
+          status: "error",
+          error: errorMessage,
+          retry: null,
+        });
+        return false;
+      }
+      break;
+    }
+
+    case "llmGenerate": {
+      const nodeData = node.data as LLMGenerateNodeData;
+      let { text, images } = getInputs();
+
+      if (options.fallbackToStoredInputs) {
+        // Prefer fresh connected inputs, fall back to stored inputs only if not connected
+        text = text ?? nodeData.inputPrompt;
+        images = images.length > 0 ? images : nodeData.inputImages ?? [];
+      }
+
+      if (!text) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Missing text input",
+        });
+        return false;
+      }
+
+      let outputSchema: ReturnType<typeof parseOutputSchema> | null = null;
+      if (nodeData.outputFormat === "json") {
+        try {
+          outputSchema = parseOutputSchema(nodeData.outputSchema ?? "");
+        } catch (error) {
+          updateNodeData(node.id, {
+            status: "error",
+            error: error instanceof Error ? error.message : "Invalid output schema",
+          });
+          return false;
+        }
+      }
+
+      updateNodeData(node.id, {
+        inputPrompt: text,
+        inputImages: images,
+        status: "loading",
+        error: null,
+        retry: null,
+        partialText: null,
+      });
+
+      try {
+        const outputText = await services.generateText({
+          prompt: text,
+          // Connected images make this a vision request
+          images: images.length > 0 ? images : undefined,
+          provider: nodeData.provider,
+          model: nodeData.model,
+          temperature: nodeData.temperature,
+          maxTokens: nodeData.maxTokens,
+          jsonSchema: outputSchema?.schema,
+        }, {
+          nodeId: node.id,
+          // A retry starts the output over
+          onRetry: (attempt, maxAttempts) =>
+            updateNodeData(node.id, { retry: { attempt, maxAttempts }, partialText: null }),
+          onPartialText: (partialText) => updateNodeData(node.id, { partialText }),
+          signal: ctx.signal,
+          bypassCache: options.forceRegenerate || nodeData.forceRegenerate,
+        });
+
+        // Throws if the model ignored the schema
+        const outputFields = outputSchema ? parseStructuredOutput(outputText, outputSchema.fields) : null;
+
+        updateNodeData(node.id, {
+          outputText,
+          outputFields,
+          status: "complete",
+          error: null,
+          retry: null,
+          partialText: null,
+        });
+      } catch (error) {
+        updateNodeData(node.id, { partialText: null });
+        if (wasCancelled()) return false;
+
+        updateNodeData(node.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "LLM generation failed",
+          retry: null,
+        });
+        return false;
+      }
+      break;
+    }
+
+    case "splitGrid": {
+      const { images } = getInputs();
+      const sourceImage = images[0] || null;
+
+      if (!sourceImage) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "No input image connected",
+        });
+        return false;
+      }
+
+      const nodeData = node.data as SplitGridNodeData;
+
+      if (!nodeData.isConfigured) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Node not configured - open settings first",
+        });
+        return false;
+      }
+
+      updateNodeData(node.id, {
+        sourceImage,
+        status: "loading",
+        error: null,
+      });
+
+      try {
+        const splitImages = await services.splitImage(
+          sourceImage,
+          nodeData.gridRows,
+          nodeData.gridCols
+        );
+
+        // Populate child imageInput nodes with split images
+        nodeData.childNodeIds.forEach((childSet, index) => {
+          const split = splitImages[index];
+          if (!split) return;
+          updateNodeData(childSet.imageInput, {
+            image: split.image,
+            filename: `split-${Math.floor(index / nodeData.gridCols) + 1}-${(index % nodeData.gridCols) + 1}.png`,
+            dimensions: split.dimensions,
+          });
+        });
+
+        updateNodeData(node.id, { status: "complete", error: null });
+      } catch (error) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Failed to split image",
+        });
+        return false;
+      }
+      break;
+    }
+
+    case "condition": {
+      const nodeData = node.data as ConditionNodeData;
+      let { text } = getInputs();
+
+      if (options.fallbackToStoredInputs) {
+        text = text ?? nodeData.inputText;
+      }
+
+      if (text === null) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Missing text input",
+        });
+        return false;
+      }
+
+      updateNodeData(node.id, {
+        inputText: text,
+        status: "loading",
+        error: null,
+        retry: null,
+      });
+
+      try {
+        let result: boolean;
+        if (nodeData.mode === "llm") {
+          if (!nodeData.question.trim()) {
+            throw new Error("Enter a yes/no question");
+          }
+          const answer = await services.generateText({
+            prompt: buildJudgePrompt(nodeData.question, text),
+            provider: nodeData.provider,
+            model: nodeData.model,
+            temperature: 0,
+          }, {
+            nodeId: node.id,
+            onRetry: reportRetry,
+            signal: ctx.signal,
+            bypassCache: options.forceRegenerate,
+          });
+          result = parseJudgeAnswer(answer);
+        } else {
+          result = evaluateCondition(text, nodeData);
+        }
+
+        updateNodeData(node.id, {
+          result,
+          status: "complete",
+          error: null,
+          retry: null,
+        });
+      } catch (error) {
+        if (wasCancelled()) return false;
+
+        updateNodeData(node.id, {
+          result: null,
+          status: "error",
+          error: error instanceof Error ? error.message : "Failed to evaluate condition",
+          retry: null,
+        });
+        return false;
+      }
+      break;
+    }
+
+    case "loop":
+      // Loops re-run their body subgraph, so they are executed by runWorkflow
+      break;
+
+    case "output": {
+      const { images } = getInputs();
+      const image = images[0] || null;
+      if (image) {
+        updateNodeData(node.id, { image });
+      }
+      break;
+    }
+  }
+
+  return true;
+}
+
+// Gives each loop iteration its own queued jobs - jobs are keyed by node, and
+// body nodes call the provider once per iteration
+const withIterationJobKeys = (services: WorkflowServices, iterationKey: string): WorkflowServices => ({
+  ...services,
+  generateImage: (request, options) =>
+    services.generateImage(request, { ...options, nodeId: `${options.nodeId}_${iterationKey}` }),
+  generateText: (request, options) =>
+    services.generateText(request, { ...options, nodeId: `${options.nodeId}_${iterationKey}` }),
+});
+
+/**
+ * Runs a loop node: re-runs its body up to maxIterations times, feeding the
+ * image that reaches the feedback input into the next iteration. A condition
+ * branch connected to the stop input ends the loop early when it is taken.
+ */
+async function runLoop(
+  loop: WorkflowNode,
+  ctx: ExecutionContext,
+  options: RunWorkflowOptions
+): Promise<boolean> {
+  const { updateNodeData } = ctx;
+  const nodeData = loop.data as LoopNodeData;
+  const edges = ctx.getEdges();
+  const body = getLoopBodyNodeIds(loop.id, edges);
+  const feedbackEdge = edges.find((e) => e.target === loop.id && e.targetHandle === "feedback");
+  const stopEdges = edges.filter((e) => e.target === loop.id && e.targetHandle === "stop");
+
+  let image = getConnectedInputs(loop.id, ctx.getNodes(), edges).images[0] || null;
+  if (!image || !feedbackEdge || body.size === 0) {
+    updateNodeData(loop.id, {
+      status: "error",
+      error: !image ? "Missing image input" : "Connect the loop body and its feedback input",
+    });
+    return false;
+  }
+
+  const maxIterations = Math.min(Math.max(Math.round(nodeData.maxIterations) || 1, 1), MAX_LOOP_ITERATIONS);
+  updateNodeData(loop.id, { status: "loading", error: null, iteration: 0 });
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    updateNodeData(loop.id, { iteration, currentImage: image });
+
+    const { halted } = await runWorkflow(
+      { ...ctx, services: withIterationJobKeys(ctx.services, `${loop.id}_${iteration}`) },
+      { ...options, startFromNodeId: undefined, nodeIds: [...body] }
+    );
+    if (halted) {
+      updateNodeData(loop.id, ctx.signal?.aborted
+        ? { status: "cancelled", error: null }
+        : { status: "error", error: `Iteration ${iteration} failed` });
+      return false;
+    }
+
+    const nodes = ctx.getNodes();
+    const stopped = stopEdges.some((edge) => {
+      const source = nodes.find((n) => n.id === edge.source);
+      if (source?.type !== "condition") return false;
+      const { status, result } = source.data as ConditionNodeData;
+      if (status !== "complete" || typeof result !== "boolean") return false;
+      return edge.sourceHandle === (result ? "true" : "false");
+    });
+
+    // A feedback node skipped by a condition produced nothing this iteration
+    const feedbackSource = nodes.find((n) => n.id === feedbackEdge.source);
+    const wasSkipped = feedbackSource && "status" in feedbackSource.data && feedbackSource.data.status === "skipped";
+    const nextImage = feedbackSource && !wasSkipped ? getOutputImage(feedbackSource, feedbackEdge.sourceHandle) : null;
+
+    if (nextImage) {
+      image = nextImage;
+    } else if (!stopped) {
+      updateNodeData(loop.id, { status: "error", error: `No image reached the feedback input in iteration ${iteration}` });
+      return false;
+    }
+
+    if (stopped) break;
+  }
+
+  updateNodeData(loop.id, { outputImage: image, status: "complete", error: null });
+  return true;
+}
+
+/**
+ * Executes a workflow graph, running every node as soon as its upstream
+ * dependencies are complete. Nodes fed by the untaken branch of a condition,
+ * or by a skipped node, are skipped. Throws if the graph contains a cycle.
+ */
+export async function runWorkflow(
+  ctx: ExecutionContext,
+  options: RunWorkflowOptions
+): Promise<SchedulerResult> {
+  const edges = ctx.getEdges();
+  const sorted = topologicalSort(ctx.getNodes(), edges);
+
+  // If starting from a specific node, find its index and skip earlier nodes
+  let startIndex = 0;
+  if (options.startFromNodeId) {
+    const nodeIndex = sorted.findIndex((n) => n.id === options.startFromNodeId);
+    if (nodeIndex !== -1) {
+      startIndex = nodeIndex;
+    }
+  }
+
+  // Nodes before the start node (or outside nodeIds, or skipped) are treated as already complete
+  const onlyNodeIds = options.nodeIds ? new Set(options.nodeIds) : null;
+  const candidates = sorted
+    .slice(startIndex)
+    .filter((n) => !onlyNodeIds || onlyNodeIds.has(n.id))
+    .filter((n) => !options.skipNodeIds?.has(n.id));
+
+  // Loop bodies are run by their loop node, once per iteration
+  const loopBodies = new Map<string, Set<string>>();
+  candidates
+    .filter((n) => n.type === "loop")
+    .forEach((n) => loopBodies.set(n.id, getLoopBodyNodeIds(n.id, edges)));
+  const getLoopOf = (nodeId: string) => [...loopBodies].find(([, body]) => body.has(nodeId))?.[0];
+
+  const runNodes = candidates.filter((n) => !getLoopOf(n.id));
+  const runNodeIds = new Set(runNodes.map((n) => n.id));
+  const forwardEdges = edges.filter((e) => !isLoopBackEdge(e, sorted));
+  const dependencies = new Map<string, string[]>();
+  runNodes.forEach((node) => {
+    // A loop also waits for everything its body reads from outside the loop,
+    // and nodes reading from a loop body wait for the whole loop
+    const body = loopBodies.get(node.id);
+    dependencies.set(
+      node.id,
+      forwardEdges
+        .filter((e) => e.target === node.id || (body?.has(e.target) && !body.has(e.source)))
+        .map((e) => getLoopOf(e.source) ?? e.source)
+        .filter((source) => source !== node.id && runNodeIds.has(source))
+    );
+  });
+
+  // A node is skipped when any of its inputs comes from a skipped node or an untaken condition branch
+  const skippedNodeIds = new Set<string>();
+  const isSkipped = (nodeId: string) =>
+    forwardEdges.some((edge) => {
+      if (edge.target !== nodeId) return false;
+      if (skippedNodeIds.has(edge.source)) return true;
+      const source = ctx.getNodes().find((n) => n.id === edge.source);
+      if (source?.type !== "condition") return false;
+      // A condition without a result (never evaluated) takes neither branch
+      const { result } = source.data as ConditionNodeData;
+      if (typeof result !== "boolean") return true;
+      return edge.sourceHandle !== (result ? "true" : "false");
+    });
+
+  return runScheduled({
+    nodeIds: runNodes.map((n) => n.id),
+    dependencies,
+    getConcurrencyKey: (nodeId) => {
+      const node = runNodes.find((n) => n.id === nodeId);
+      return node ? getProviderForNode(node) : null;
+    },
+    concurrencyLimits: options.concurrencyLimits,
+    canStart: options.canStart || (() => true),
+    runNode: async (nodeId) => {
+      if (isSkipped(nodeId)) {
+        skippedNodeIds.add(nodeId);
+        const node = ctx.getNodes().find((n) => n.id === nodeId);
+        if (node && "status" in node.data) {
+          ctx.updateNodeData(nodeId, { status: "skipped", error: null });
+        }
+        return true;
+      }
+
+      options.onNodeStart?.(nodeId);
+      let success = false;
+      try {
+        const node = runNodes.find((n) => n.id === nodeId);
+        success = node?.type === "loop"
+          ? await runLoop(node, ctx, options)
+          : await executeNode(nodeId, ctx);
+        return success;
+      } finally {
+        options.onNodeEnd?.(nodeId, success);
+      }
+    },
+  });
+}
+
+/**
+ * Runs a saved workflow file outside the canvas and returns the final node
+ * state. Pause edges are ignored - headless runs always go to completion.
+ */
+export async function runWorkflowFile(
+  workflow: WorkflowFile,
+  services: WorkflowServices,
+  { signal, ...options }: Partial<RunWorkflowOptions> & { signal?: AbortSignal } = {}
+): Promise<{ nodes: WorkflowNode[]; halted: boolean }> {
+  // Work on a copy so node updates don't leak into the caller's workflow
+  let nodes: WorkflowNode[] = JSON.parse(JSON.stringify(workflow.nodes));
+  const edges = workflow.edges;
+
+  const { halted } = await runWorkflow(
+    {
+      getNodes: () => nodes,
+      getEdges: () => edges,
+      updateNodeData: (nodeId, data) => {
+        nodes = nodes.map((node) =>
+          node.id === nodeId
+            ? { ...node, data: { ...node.data, ...data } as WorkflowNodeData }
+            : node
+        ) as WorkflowNode[];
+      },
+      services,
+      signal,
+    },
+    {
+      concurrencyLimits: DEFAULT_CONCURRENCY_LIMITS,
+      ...options,
+      canStart: (nodeId) => !signal?.aborted && (options.canStart?.(nodeId) ?? true),
+    }
+  );
+
+  return { nodes, halted };
+}
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { useAnnotationStore } from "@/store/annotationStore";
+import { AnnotationShape, MaskStroke } from "@/types";
+
+const stroke = (id: string): MaskStroke => ({ id, type: "line", erase: false, points: [0, 0, 10, 10], strokeWidth: 32 });
+
+const rect = (id: string) =>
+  ({ id, type: "rectangle", x: 0, y: 0, width: 10, height: 10, stroke: "#000", strokeWidth: 2, opacity: 1, fill: null }) as AnnotationShape;
+
+beforeEach(() => {
+  useAnnotationStore.getState().closeModal();
+});
+
+describe("mask strokes", () => {
+  it("opens with the node's saved strokes and undoes new ones", () => {
+    const store = useAnnotationStore.getState();
+    store.openModal("annotate", "photo.png", [], [stroke("saved")]);
+
+    store.addMaskStroke(stroke("new"));
+    expect(useAnnotationStore.getState().maskStrokes.map((s) => s.id)).toEqual(["saved", "new"]);
+
+    useAnnotationStore.getState().undo();
+    expect(useAnnotationStore.getState().maskStrokes.map((s) => s.id)).toEqual(["saved"]);
+  });
+
+  it("brings a cleared mask back on undo, leaving the annotations alone", () => {
+    const store = useAnnotationStore.getState();
+    store.openModal("annotate", "photo.png", [], [stroke("a"), stroke("b")]);
+
+    store.clearMask();
+    expect(useAnnotationStore.getState().maskStrokes).toEqual([]);
+
+    useAnnotationStore.getState().undo();
+    expect(useAnnotationStore.getState().maskStrokes.map((s) => s.id)).toEqual(["a", "b"]);
+    expect(useAnnotationStore.getState().annotations).toEqual([]);
+  });
+});
+
+describe("layers", () => {
+  it("draws new shapes on the active layer and deletes them with it", () => {
+    const store = useAnnotationStore.getState();
+    store.openModal("annotate", "photo.png");
+    store.addAnnotation(rect("bottom"));
+    store.addLayer();
+    const topId = useAnnotationStore.getState().activeLayerId;
+    useAnnotationStore.getState().addAnnotation(rect("top"));
+
+    expect(useAnnotationStore.getState().annotations.map((s) => [s.id, s.layerId])).toEqual([["bottom", "layer-1"], ["top", topId]]);
+
+    useAnnotationStore.getState().deleteLayer(topId);
+    const { annotations, layers, activeLayerId } = useAnnotationStore.getState();
+    expect(annotations.map((s) => s.id)).toEqual(["bottom"]);
+    expect(layers.map((l) => l.id)).toEqual(["layer-1"]);
+    expect(activeLayerId).toBe("layer-1");
+  });
+
+  it("keeps shapes saved without a layer on their layer when the order changes", () => {
+    const store = useAnnotationStore.getState();
+    store.openModal("annotate", "photo.png", [rect("legacy")]);
+    store.addLayer();
+
+    useAnnotationStore.getState().moveLayer("layer-1", "up");
+
+    const { annotations, layers } = useAnnotationStore.getState();
+    expect(layers.map((l) => l.id)).toEqual(["layer-2", "layer-1"]);
+    expect(annotations[0].layerId).toBe("layer-1");
+  });
+});
@@ -1,5 +1,13 @@
 import { create } from "zustand";
-import { AnnotationShape, ToolType, ToolOptions } from "@/types";
+import { AnnotationLayer, AnnotationShape, EditorLayer, MaskStroke, MaskToolType, ToolType, ToolOptions } from "@/types";
+import { DEFAULT_LAYER, createLayer } from "@/utils/annotationLayers";
+
+// Undo history covers annotations, their layers and the mask
+interface EditorSnapshot {
+  annotations: AnnotationShape[];
+  layers: AnnotationLayer[];
+  maskStrokes: MaskStroke[];
+}
 
 interface AnnotationStore {
   // Modal state
@@ -11,16 +19,31 @@ interface AnnotationStore {
   annotations: AnnotationShape[];
   selectedShapeId: string | null;
 
+  // Annotation layers, bottom first - new shapes go on the active layer
+  layers: AnnotationLayer[];
+  activeLayerId: string;
+
+  // Inpainting mask
+  maskStrokes: MaskStroke[];
+
   // History for undo/redo
-  history: AnnotationShape[][];
+  history: EditorSnapshot[];
   historyIndex: number;
 
-  // Current tool and options
+  // Current layer, tools and options
+  currentLayer: EditorLayer;
   currentTool: ToolType;
+  currentMaskTool: MaskToolType;
   toolOptions: ToolOptions;
 
   // Modal actions
-  openModal: (nodeId: string, image: string, existingAnnotations?: AnnotationShape[]) => void;
+  openModal: (
+    nodeId: string,
+    image: string,
+    existingAnnotations?: AnnotationShape[],
+    existingMaskStrokes?: MaskStroke[],
+    existingLayers?: AnnotationLayer[]
+  ) => void;
   closeModal: () => void;
 
   // Annotation actions
@@ -30,13 +53,26 @@ interface AnnotationStore {
   clearAnnotations: () => void;
   selectShape: (id: string | null) => void;
 
+  // Layer actions
+  addLayer: () => void;
+  deleteLayer: (id: string) => void;
+  updateLayer: (id: string, updates: Partial<Omit<AnnotationLayer, "id">>) => void;
+  moveLayer: (id: string, direction: "up" | "down") => void;
+  setActiveLayer: (id: string) => void;
+
+  // Mask actions
+  addMaskStroke: (stroke: MaskStroke) => void;
+  clearMask: () => void;
+
   // History actions
   undo: () => void;
   redo: () => void;
   pushHistory: () => void;
 
   // Tool actions
+  setCurrentLayer: (layer: EditorLayer) => void;
   setCurrentTool: (tool: ToolType) => void;
+  setCurrentMaskTool: (tool: MaskToolType) => void;
   setToolOptions: (options: Partial<ToolOptions>) => void;
 }
 
@@ -46,28 +82,58 @@ const defaultToolOptions: ToolOptions = {
   fillColor: null,
   fontSize: 24,
   opacity: 1,
+  maskBrushSize: 32,
+  regionEffect: "blur",
 };
 
+const EMPTY_SNAPSHOT: EditorSnapshot = { annotations: [], layers: [DEFAULT_LAYER], maskStrokes: [] };
+
+// State for a history entry, keeping the active layer if it still exists
+const restoreSnapshot = (snapshot: EditorSnapshot, activeLayerId: string) => ({
+  annotations: [...snapshot.annotations],
+  layers: [...snapshot.layers],
+  maskStrokes: [...snapshot.maskStrokes],
+  activeLayerId: snapshot.layers.some((layer) => layer.id === activeLayerId)
+    ? activeLayerId
+    : snapshot.layers[snapshot.layers.length - 1].id,
+});
+
 export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
   isModalOpen: false,
   sourceNodeId: null,
   sourceImage: null,
   annotations: [],
   selectedShapeId: null,
-  history: [[]],
+  layers: [DEFAULT_LAYER],
+  activeLayerId: DEFAULT_LAYER.id,
+  maskStrokes: [],
+  history: [EMPTY_SNAPSHOT],
   historyIndex: 0,
+  currentLayer: "annotations",
   currentTool: "rectangle",
+  currentMaskTool: "brush",
   toolOptions: defaultToolOptions,
 
-  openModal: (nodeId: string, image: string, existingAnnotations: AnnotationShape[] = []) => {
+  openModal: (
+    nodeId: string,
+    image: string,
+    existingAnnotations: AnnotationShape[] = [],
+    existingMaskStrokes: MaskStroke[] = [],
+    existingLayers: AnnotationLayer[] = []
+  ) => {
+    const layers = existingLayers.length > 0 ? existingLayers : [DEFAULT_LAYER];
     set({
       isModalOpen: true,
       sourceNodeId: nodeId,
       sourceImage: image,
       annotations: existingAnnotations,
       selectedShapeId: null,
-      history: [existingAnnotations],
+      layers,
+      activeLayerId: layers[layers.length - 1].id,
+      maskStrokes: existingMaskStrokes,
+      history: [{ annotations: existingAnnotations, layers, maskStrokes: existingMaskStrokes }],
       historyIndex: 0,
+      currentLayer: "annotations",
     });
   },
 
@@ -78,7 +144,10 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
       sourceImage: null,
       annotations: [],
       selectedShapeId: null,
-      history: [[]],
+      layers: [DEFAULT_LAYER],
+      activeLayerId: DEFAULT_LAYER.id,
+      maskStrokes: [],
+      history: [EMPTY_SNAPSHOT],
       historyIndex: 0,
     });
   },
@@ -87,7 +156,7 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
     const { pushHistory } = get();
     pushHistory();
     set((state) => ({
-      annotations: [...state.annotations, shape],
+      annotations: [...state.annotations, { ...shape, layerId: shape.layerId ?? state.activeLayerId }],
     }));
   },
 
@@ -108,12 +177,20 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
     }));
   },
 
+  // Clears the active layer
   clearAnnotations: () => {
     const { pushHistory } = get();
     pushHistory();
-    set({
-      annotations: [],
-      selectedShapeId: null,
+    set((state) => {
+      const isBottom = state.layers[0]?.id === state.activeLayerId;
+      return {
+        annotations: state.annotations.filter((shape) =>
+          isBottom
+            ? state.layers.slice(1).some((layer) => layer.id === shape.layerId)
+            : shape.layerId !== state.activeLayerId
+        ),
+        selectedShapeId: null,
+      };
     });
   },
 
@@ -121,10 +198,92 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
     set({ selectedShapeId: id });
   },
 
+  addLayer: () => {
+    const { pushHistory } = get();
+    pushHistory();
+    set((state) => {
+      const layer = createLayer(state.layers);
+      // New layers go above the active one
+      const index = state.layers.findIndex((l) => l.id === state.activeLayerId) + 1;
+      return {
+        layers: [...state.layers.slice(0, index), layer, ...state.layers.slice(index)],
+        activeLayerId: layer.id,
+      };
+    });
+  },
+
+  deleteLayer: (id: string) => {
+    const { layers, pushHistory } = get();
+    if (layers.length <= 1) return;
+    pushHistory();
+    set((state) => {
+      const index = state.layers.findIndex((layer) => layer.id === id);
+      const remaining = state.layers.filter((layer) => layer.id !== id);
+      // Orphaned shapes would fall onto the bottom layer, so remove them with their layer
+      const shapeIds = new Set(
+        state.annotations
+          .filter((shape) => shape.layerId === id || (index === 0 && !remaining.some((l) => l.id === shape.layerId)))
+          .map((shape) => shape.id)
+      );
+      return {
+        layers: remaining,
+        annotations: state.annotations.filter((shape) => !shapeIds.has(shape.id)),
+        activeLayerId: state.activeLayerId === id ? remaining[Math.max(0, index - 1)].id : state.activeLayerId,
+        selectedShapeId: state.selectedShapeId && shapeIds.has(state.selectedShapeId) ? null : state.selectedShapeId,
+      };
+    });
+  },
+
+  updateLayer: (id: string, updates: Partial<Omit<AnnotationLayer, "id">>) => {
+    const { pushHistory } = get();
+    pushHistory();
+    set((state) => ({
+      layers: state.layers.map((layer) => (layer.id === id ? { ...layer, ...updates } : layer)),
+      // A shape on a layer that was just hidden or locked can't stay selected
+      selectedShapeId: updates.visible === false || updates.locked ? null : state.selectedShapeId,
+    }));
+  },
+
+  moveLayer: (id: string, direction: "up" | "down") => {
+    const { layers, pushHistory } = get();
+    const index = layers.findIndex((layer) => layer.id === id);
+    const target = direction === "up" ? index + 1 : index - 1;
+    if (index < 0 || target < 0 || target >= layers.length) return;
+    pushHistory();
+    set((state) => {
+      const moved = [...state.layers];
+      [moved[index], moved[target]] = [moved[target], moved[index]];
+      // Shapes without a layer ID belong to the bottom layer, so pin them before it changes
+      const bottomId = state.layers[0].id;
+      const annotations = state.annotations.map((shape) =>
+        state.layers.some((layer) => layer.id === shape.layerId) ? shape : { ...shape, layerId: bottomId }
+      );
+      return { layers: moved, annotations };
+    });
+  },
+
+  setActiveLayer: (id: string) => {
+    set({ activeLayerId: id, selectedShapeId: null });
+  },
+
+  addMaskStroke: (stroke: MaskStroke) => {
+    const { pushHistory } = get();
+    pushHistory();
+    set((state) => ({
+      maskStrokes: [...state.maskStrokes, stroke],
+    }));
+  },
+
+  clearMask: () => {
+    const { pushHistory } = get();
+    pushHistory();
+    set({ maskStrokes: [] });
+  },
+
   pushHistory: () => {
     set((state) => {
       const newHistory = state.history.slice(0, state.historyIndex + 1);
-      newHistory.push([...state.annotations]);
+      newHistory.push({ annotations: [...state.annotations], layers: [...state.layers], maskStrokes: [...state.maskStrokes] });
       return {
         history: newHistory,
         historyIndex: newHistory.length - 1,
@@ -138,7 +297,7 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
         const newIndex = state.historyIndex - 1;
         return {
           historyIndex: newIndex,
-          annotations: [...state.history[newIndex]],
+          ...restoreSnapshot(state.history[newIndex], state.activeLayerId),
           selectedShapeId: null,
         };
       }
@@ -152,7 +311,7 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
         const newIndex = state.historyIndex + 1;
         return {
           historyIndex: newIndex,
-          annotations: [...state.history[newIndex]],
+          ...restoreSnapshot(state.history[newIndex], state.activeLayerId),
           selectedShapeId: null,
         };
       }
@@ -160,10 +319,18 @@ export const useAnnotationStore = create<AnnotationStore>((set, get) => ({
     });
   },
 
+  setCurrentLayer: (layer: EditorLayer) => {
+    set({ currentLayer: layer, selectedShapeId: null });
+  },
+
   setCurrentTool: (tool: ToolType) => {
     set({ currentTool: tool, selectedShapeId: null });
   },
 
+  setCurrentMaskTool: (tool: MaskToolType) => {
+    set({ currentMaskTool: tool });
+  },
+
   setToolOptions: (options: Partial<ToolOptions>) => {
     set((state) => ({
       toolOptions: { ...state.toolOptions, ...options },
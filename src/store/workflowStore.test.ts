@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createRun, findInterruptedRun, saveGeneration } from "@/lib/apiClient";
+import { generateMockText } from "@/lib/mockProvider";
+import { WorkflowServices } from "@/lib/workflowEngine";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { NodeType, WorkflowEdge, WorkflowNode, WorkflowNodeData } from "@/types";
+
+// Provider calls are answered locally instead of through the API routes
+const services = vi.hoisted(() => ({}) as WorkflowServices);
+
+vi.mock("@/lib/apiClient", () => ({
+  createBrowserServices: () => services,
+  createJobServices: () => services,
+  createCacheStore: () => ({ get: async () => null, set: async () => {} }),
+  createRun: vi.fn(),
+  findInterruptedRun: vi.fn(),
+  finishRun: vi.fn(),
+  loadParameterImage: async (value: string) => `loaded(${value})`,
+  saveGeneration: vi.fn(),
+}));
+
+const node = (id: string, type: NodeType, data: Record<string, unknown>): WorkflowNode =>
+  ({ id, type, position: { x: 0, y: 0 }, data: data as WorkflowNodeData }) as WorkflowNode;
+
+const link = (source: string, sourceHandle: string, target: string, targetHandle: string): WorkflowEdge =>
+  ({ id: `${source}-${target}`, source, sourceHandle, target, targetHandle }) as WorkflowEdge;
+
+const dataOf = (id: string) =>
+  useWorkflowStore.getState().nodes.find((n) => n.id === id)!.data as Record<string, unknown>;
+
+const generateNode = (id: string) =>
+  node(id, "nanoBanana", { inputImages: [], inputPrompt: null, outputImage: null, aspectRatio: "1:1", resolution: "1K", model: "mock", useGoogleSearch: false, status: "idle", error: null });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  Object.assign(services, {
+    generateImage: vi.fn(async ({ prompt, images = [] }) => `image(${[prompt, ...images].join(", ")})`),
+    generateText: vi.fn(async (request) => generateMockText(request)),
+    splitImage: async () => [],
+    flattenImage: async (image) => image,
+    exportImage: async (image) => image,
+  } satisfies WorkflowServices);
+  useWorkflowStore.setState({
+    nodes: [
+      node("subject", "prompt", { prompt: "a fox", parameterName: "subject" }),
+      node("photo", "imageInput", { image: "photo.png", filename: "photo.png", dimensions: { width: 4, height: 4 }, parameterName: "photo" }),
+      generateNode("generate"),
+      node("out", "output", { image: null }),
+    ],
+    edges: [
+      link("subject", "text", "generate", "text"),
+      link("photo", "image", "generate", "image"),
+      link("generate", "image", "out", "image"),
+    ],
+    generationsPath: "/generations",
+    saveDirectoryPath: null,
+    workflowId: null,
+    staleNodeIds: [],
+    isRunning: false,
+    pausedAtNodeId: null,
+    batchProgress: null,
+  });
+});
+
+describe("runBatch", () => {
+  it("runs once per row and saves each row's outputs", async () => {
+    await useWorkflowStore.getState().runBatch([
+      { subject: "a wolf", photo: "wolf.png" },
+      { subject: "a bear", photo: "bear.png" },
+    ]);
+
+    const saved = vi.mocked(saveGeneration).mock.calls.map(([, image, , name]) => [image, name]);
+    expect(saved).toEqual([
+      ["image(a wolf, loaded(wolf.png))", expect.stringMatching(/_row-1_out$/)],
+      ["image(a bear, loaded(bear.png))", expect.stringMatching(/_row-2_out$/)],
+    ]);
+  });
+
+  it("puts the parameter values back after the batch", async () => {
+    await useWorkflowStore.getState().runBatch([{ subject: "a wolf", photo: "wolf.png" }]);
+
+    expect(dataOf("subject").prompt).toBe("a fox");
+    expect(dataOf("photo")).toMatchObject({ image: "photo.png", filename: "photo.png", dimensions: { width: 4, height: 4 } });
+    expect(useWorkflowStore.getState().batchProgress).toBeNull();
+  });
+
+  it("puts the parameter values back when the batch is stopped", async () => {
+    vi.mocked(saveGeneration).mockImplementationOnce(() => useWorkflowStore.getState().stopWorkflow());
+
+    await useWorkflowStore.getState().runBatch([{ subject: "a wolf" }, { subject: "a bear" }]);
+
+    expect(saveGeneration).toHaveBeenCalledTimes(1);
+    expect(dataOf("subject").prompt).toBe("a fox");
+  });
+});
+
+describe("runChangedNodes", () => {
+  // Two independent prompt -> generate -> output branches
+  const loadBranches = () =>
+    useWorkflowStore.setState({
+      nodes: ["a", "b"].flatMap((branch) => [
+        node(`prompt-${branch}`, "prompt", { prompt: `prompt ${branch}` }),
+        generateNode(`generate-${branch}`),
+        node(`out-${branch}`, "output", { image: null }),
+      ]),
+      edges: ["a", "b"].flatMap((branch) => [
+        link(`prompt-${branch}`, "text", `generate-${branch}`, "text"),
+        link(`generate-${branch}`, "image", `out-${branch}`, "image"),
+      ]),
+    });
+
+  it("re-runs only the nodes downstream of an edit", async () => {
+    loadBranches();
+    const { executeWorkflow, updateNodeData } = useWorkflowStore.getState();
+    await executeWorkflow();
+    expect(useWorkflowStore.getState().staleNodeIds).toEqual([]);
+
+    updateNodeData("prompt-b", { prompt: "a new prompt" });
+    expect([...useWorkflowStore.getState().staleNodeIds].sort()).toEqual(["generate-b", "out-b", "prompt-b"]);
+
+    vi.mocked(services.generateImage).mockClear();
+    await useWorkflowStore.getState().runChangedNodes();
+
+    expect(vi.mocked(services.generateImage).mock.calls.map(([request]) => request.prompt)).toEqual(["a new prompt"]);
+    expect(dataOf("out-b").image).toBe("image(a new prompt)");
+    expect(useWorkflowStore.getState().staleNodeIds).toEqual([]);
+  });
+
+  it("records the nodes on the queued run and resumes only those", async () => {
+    loadBranches();
+    useWorkflowStore.setState({ saveDirectoryPath: "/project", workflowId: "workflow", staleNodeIds: ["generate-b"] });
+    vi.mocked(createRun).mockResolvedValue({ id: "run_1", workflowId: "workflow", status: "running", startFromNodeId: null, createdAt: 1, updatedAt: 1 });
+
+    await useWorkflowStore.getState().runChangedNodes();
+    expect(createRun).toHaveBeenCalledWith("/project", "workflow", null, expect.arrayContaining(["generate-b", "out-b"]));
+    const nodeIds = vi.mocked(createRun).mock.calls[0][3];
+
+    // The tab reloads mid-run - the run is resumed from the project's job queue
+    vi.mocked(services.generateImage).mockClear();
+    vi.mocked(findInterruptedRun).mockResolvedValue({ id: "run_1", workflowId: "workflow", status: "running", startFromNodeId: null, nodeIds, createdAt: 1, updatedAt: 1 });
+    await useWorkflowStore.getState().resumeInterruptedRun();
+
+    expect(vi.mocked(services.generateImage).mock.calls.map(([request]) => request.prompt)).toEqual(["prompt b"]);
+    expect(createRun).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("stopWorkflow", () => {
+  it("aborts in-flight calls and marks their nodes cancelled", async () => {
+    let callSignal: AbortSignal | undefined;
+    vi.mocked(services.generateImage).mockImplementation((_request, options) => {
+      callSignal = options?.signal;
+      return new Promise((_resolve, reject) =>
+        options?.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")))
+      );
+    });
+
+    const run = useWorkflowStore.getState().executeWorkflow();
+    await vi.waitFor(() => expect(services.generateImage).toHaveBeenCalled());
+    useWorkflowStore.getState().stopWorkflow();
+    await run;
+
+    expect(callSignal?.aborted).toBe(true);
+    expect(dataOf("generate")).toMatchObject({ status: "cancelled", error: null });
+    expect(dataOf("out").image).toBeNull();
+    expect(useWorkflowStore.getState().isRunning).toBe(false);
+  });
+});
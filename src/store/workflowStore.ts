@@ -18,27 +18,52 @@ import {
   NanoBananaNodeData,
   LLMGenerateNodeData,
   SplitGridNodeData,
+  ConditionNodeData,
+  LoopNodeData,
   OutputNodeData,
   WorkflowNodeData,
   ImageHistoryItem,
   WorkflowSaveConfig,
   NodeGroup,
   GroupColor,
+  EdgeStyle,
+  WorkflowFile,
+  WorkflowParameterRow,
+  RetryPolicy,
 } from "@/types";
 import { useToast } from "@/components/Toast";
+import {
+  DEFAULT_CONCURRENCY_LIMITS,
+  ExecutionContext,
+  executeNode,
+  RunWorkflowOptions,
+  WorkflowServices,
+  getConnectedInputs,
+  getDownstreamNodeIds,
+  getWorkflowParameters,
+  runWorkflow,
+  validateWorkflow,
+  withResultCache,
+} from "@/lib/workflowEngine";
+import {
+  createBrowserServices,
+  createCacheStore,
+  createJobServices,
+  createRun,
+  findInterruptedRun,
+  finishRun,
+  loadParameterImage,
+  saveGeneration,
+} from "@/lib/apiClient";
+import { resolveRetryPolicy } from "@/lib/retry";
+import {
+  applyLLMProviderSettings,
+  DEFAULT_LLM_PROVIDER_SETTINGS,
+  LLMProviderSettings,
+} from "@/lib/llmProviders";
+import { getOutputFieldName, getOutputSchemaFields } from "@/utils/structuredOutput";
 
-export type EdgeStyle = "angular" | "curved";
-
-// Workflow file format
-export interface WorkflowFile {
-  version: 1;
-  id?: string;  // Optional for backward compatibility with old/shared workflows
-  name: string;
-  nodes: WorkflowNode[];
-  edges: WorkflowEdge[];
-  edgeStyle: EdgeStyle;
-  groups?: Record<string, NodeGroup>;  // Optional for backward compatibility
-}
+export type { EdgeStyle, WorkflowFile };
 
 // Clipboard data structure for copy/paste
 interface ClipboardData {
@@ -85,11 +110,23 @@ interface WorkflowStore {
 
   // Execution
   isRunning: boolean;
-  currentNodeId: string | null;
+  currentNodeIds: string[];
   pausedAtNodeId: string | null;
-  executeWorkflow: (startFromNodeId?: string) => Promise<void>;
+  concurrencyLimits: Record<string, number>;
+  setConcurrencyLimit: (provider: string, limit: number) => void;
+  retryPolicy: RetryPolicy;
+  setRetryPolicy: (policy: Partial<RetryPolicy>) => void;
+  llmProviderSettings: LLMProviderSettings;
+  setLLMProviderSettings: (settings: Partial<LLMProviderSettings>) => void;
+  executeWorkflow: (startFromNodeId?: string, resumeRunId?: string, nodeIds?: string[]) => Promise<void>;
+  resumeInterruptedRun: () => Promise<void>;
+  // Nodes whose settings or upstream outputs changed since they last ran successfully
+  staleNodeIds: string[];
+  runChangedNodes: () => Promise<void>;
   regenerateNode: (nodeId: string) => Promise<void>;
   stopWorkflow: () => void;
+  batchProgress: { current: number; total: number } | null;
+  runBatch: (rows: WorkflowParameterRow[]) => Promise<void>;
 
   // Save/Load
   saveWorkflow: (name?: string) => void;
@@ -98,7 +135,7 @@ interface WorkflowStore {
 
   // Helpers
   getNodeById: (id: string) => WorkflowNode | undefined;
-  getConnectedInputs: (nodeId: string) => { images: string[]; text: string | null };
+  getConnectedInputs: (nodeId: string) => { images: string[]; text: string | null; variables: Record<string, string> };
   validateWorkflow: () => { valid: boolean; errors: string[] };
 
   // Global Image History
@@ -188,6 +225,31 @@ const createDefaultNodeData = (type: NodeType): WorkflowNodeData => {
         status: "idle",
         error: null,
       } as SplitGridNodeData;
+    case "condition":
+      return {
+        inputText: null,
+        mode: "contains",
+        pattern: "",
+        caseSensitive: false,
+        jsonPath: "",
+        operator: "equals",
+        compareValue: "",
+        question: "",
+        provider: "google",
+        model: "gemini-3-flash-preview",
+        result: null,
+        status: "idle",
+        error: null,
+      } as ConditionNodeData;
+    case "loop":
+      return {
+        maxIterations: 3,
+        iteration: 0,
+        currentImage: null,
+        outputImage: null,
+        status: "idle",
+        error: null,
+      } as LoopNodeData;
     case "output":
       return {
         image: null,
@@ -198,6 +260,13 @@ const createDefaultNodeData = (type: NodeType): WorkflowNodeData => {
 let nodeIdCounter = 0;
 let groupIdCounter = 0;
 let autoSaveIntervalId: ReturnType<typeof setInterval> | null = null;
+// Aborts the provider calls of the current run or regenerate when Stop is pressed
+let runAbortController: AbortController | null = null;
+// What a paused run had already done, so resuming it skips the nodes that ran
+let pausedRun: Pick<RunWorkflowOptions, "startFromNodeId" | "nodeIds"> & {
+  completedNodeIds: Set<string>;
+  pausedNodeIds: Set<string>;
+} | null = null;
 
 // Group color palette (dark mode tints)
 export const GROUP_COLORS: Record<GroupColor, string> = {
@@ -248,6 +317,184 @@ export const saveNanoBananaDefaults = (settings: Partial<NanoBananaDefaults>) =>
   localStorage.setItem(NANO_BANANA_DEFAULTS_KEY, JSON.stringify(updated));
 };
 
+// localStorage helpers for per-provider concurrency limits
+const CONCURRENCY_LIMITS_KEY = "node-banana-concurrency-limits";
+
+const loadConcurrencyLimits = (): Record<string, number> => {
+  if (typeof window === "undefined") return { ...DEFAULT_CONCURRENCY_LIMITS };
+  const stored = localStorage.getItem(CONCURRENCY_LIMITS_KEY);
+  if (stored) {
+    try {
+      return { ...DEFAULT_CONCURRENCY_LIMITS, ...JSON.parse(stored) };
+    } catch {
+      return { ...DEFAULT_CONCURRENCY_LIMITS };
+    }
+  }
+  return { ...DEFAULT_CONCURRENCY_LIMITS };
+};
+
+// localStorage helpers for the provider retry policy
+const RETRY_POLICY_KEY = "node-banana-retry-policy";
+
+const loadRetryPolicy = (): RetryPolicy => {
+  if (typeof window === "undefined") return resolveRetryPolicy();
+  const stored = localStorage.getItem(RETRY_POLICY_KEY);
+  if (stored) {
+    try {
+      return resolveRetryPolicy(JSON.parse(stored));
+    } catch {
+      return resolveRetryPolicy();
+    }
+  }
+  return resolveRetryPolicy();
+};
+
+// localStorage helpers for LLM endpoint settings
+const LLM_PROVIDER_SETTINGS_KEY = "node-banana-llm-provider-settings";
+
+const loadLLMProviderSettings = (): LLMProviderSettings => {
+  if (typeof window === "undefined") return { ...DEFAULT_LLM_PROVIDER_SETTINGS };
+  const stored = localStorage.getItem(LLM_PROVIDER_SETTINGS_KEY);
+  if (stored) {
+    try {
+      return { ...DEFAULT_LLM_PROVIDER_SETTINGS, ...JSON.parse(stored) };
+    } catch {
+      return { ...DEFAULT_LLM_PROVIDER_SETTINGS };
+    }
+  }
+  return { ...DEFAULT_LLM_PROVIDER_SETTINGS };
+};
+
+// Node data that doesn't affect a node's result: run state, inputs the engine copies in, and run options
+const UNTRACKED_KEYS = new Set([
+  "status",
+  "error",
+  "retry",
+  "iteration",
+  "partialText",
+  "inputImages",
+  "inputPrompt",
+  "inputMask",
+  "inputText",
+  "sourceImage",
+  "parameterName",
+  "forceRegenerate",
+]);
+
+// Results written by a run - they make downstream nodes stale, not the node itself
+const OUTPUT_KEYS = new Set([
+  "outputImage",
+  "outputOverlay",
+  "layerImages",
+  "outputMask",
+  "outputDescription",
+  "outputText",
+  "outputFields",
+  "result",
+  "currentImage",
+]);
+
+// Adds nodes and everything downstream of them to the stale list
+const addStale = (staleNodeIds: string[], nodeIds: string[], edges: WorkflowEdge[]): string[] => {
+  if (nodeIds.length === 0) return staleNodeIds;
+  const stale = new Set([...staleNodeIds, ...getDownstreamNodeIds(nodeIds, edges)]);
+  return stale.size === staleNodeIds.length ? staleNodeIds : [...stale];
+};
+
+// Nodes made stale by a data update: the node itself for settings or a cleared
+// output, its dependents for a new output
+const getNodesChangedByUpdate = (
+  node: WorkflowNode,
+  data: Partial<WorkflowNodeData>,
+  edges: WorkflowEdge[]
+): string[] => {
+  const current = node.data as Record<string, unknown>;
+  const updates = data as Record<string, unknown>;
+  const changedKeys = Object.keys(updates).filter((key) => current[key] !== updates[key]);
+
+  const isSetting = (key: string) => !UNTRACKED_KEYS.has(key) && !OUTPUT_KEYS.has(key);
+  const isClearedOutput = (key: string) => OUTPUT_KEYS.has(key) && updates[key] === null;
+  if (changedKeys.some((key) => isSetting(key) || isClearedOutput(key))) {
+    return [node.id];
+  }
+  if (changedKeys.some((key) => OUTPUT_KEYS.has(key))) {
+    return edges.filter((e) => e.source === node.id).map((e) => e.target);
+  }
+  return [];
+};
+
+// An LLM node's field outputs after an update, or null if the update leaves them
+// as they are. A schema that doesn't parse (e.g. mid-edit) keeps the current fields.
+const getUpdatedOutputFields = (node: WorkflowNode, data: Partial<WorkflowNodeData>): string[] | null => {
+  if (node.type !== "llmGenerate" || !("outputFormat" in data || "outputSchema" in data)) return null;
+  const getFields = (nodeData: LLMGenerateNodeData) =>
+    nodeData.outputFormat === "json" ? getOutputSchemaFields(nodeData.outputSchema) : [];
+
+  const current = node.data as LLMGenerateNodeData;
+  const updated = { ...current, ...data } as LLMGenerateNodeData;
+  const fields = getFields(updated);
+  if (updated.outputFormat === "json" && fields.length === 0) return null;
+  return fields.join("|") === getFields(current).join("|") ? null : fields;
+};
+
+// After loading, generators without a finished result and empty outputs need a run
+const getInitialStaleNodeIds = (nodes: WorkflowNode[], edges: WorkflowEdge[]): string[] => {
+  const unfinished = nodes
+    .filter((node) => {
+      if (node.type === "output") return !(node.data as OutputNodeData).image;
+      return "status" in node.data && node.data.status !== "complete";
+    })
+    .map((node) => node.id);
+  return addStale([], unfinished, edges);
+};
+
+// Engine context backed by the store - provider calls go through the API routes (or the job queue)
+const createExecutionContext = (
+  get: () => WorkflowStore,
+  signal: AbortSignal,
+  baseServices: WorkflowServices = createBrowserServices(get().retryPolicy)
+): ExecutionContext => {
+  // LLM requests carry the endpoint settings, so they're part of the cache key
+  const { llmProviderSettings } = get();
+  const configuredServices: WorkflowServices = {
+    ...baseServices,
+    generateText: (request, options) =>
+      baseServices.generateText(applyLLMProviderSettings(request, llmProviderSettings), options),
+  };
+
+  // Saved projects reuse the results of unchanged nodes from the project's cache
+  const { saveDirectoryPath } = get();
+  const services = saveDirectoryPath
+    ? withResultCache(configuredServices, createCacheStore(saveDirectoryPath))
+    : configuredServices;
+
+  return {
+    getNodes: () => get().nodes,
+    getEdges: () => get().edges,
+    updateNodeData: (nodeId, data) => get().updateNodeData(nodeId, data),
+    services,
+    signal,
+    onImageGenerated: (node, image, prompt) => {
+      const nodeData = node.data as NanoBananaNodeData;
+
+      // Save the newly generated image to global history
+      get().addToGlobalHistory({
+        image,
+        timestamp: Date.now(),
+        prompt,
+        aspectRatio: nodeData.aspectRatio,
+        model: nodeData.model,
+      });
+
+      // Auto-save to generations folder if configured (batch runs save their outputs per row instead)
+      const genPath = get().generationsPath;
+      if (genPath && !get().batchProgress) {
+        saveGeneration(genPath, image, prompt);
+      }
+    },
+  };
+};
+
 const generateWorkflowId = () =>
   `wf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -273,8 +520,13 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   clipboard: null,
   groups: {},
   isRunning: false,
-  currentNodeId: null,
+  currentNodeIds: [],
   pausedAtNodeId: null,
+  staleNodeIds: [],
+  concurrencyLimits: loadConcurrencyLimits(),
+  retryPolicy: loadRetryPolicy(),
+  llmProviderSettings: loadLLMProviderSettings(),
+  batchProgress: null,
   globalImageHistory: [],
 
   // Auto-save initial state
@@ -302,6 +554,8 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       nanoBanana: { width: 300, height: 300 },
       llmGenerate: { width: 320, height: 360 },
       splitGrid: { width: 300, height: 320 },
+      condition: { width: 300, height: 260 },
+      loop: { width: 300, height: 300 },
       output: { width: 320, height: 320 },
     };
 
@@ -317,6 +571,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
 
     set((state) => ({
       nodes: [...state.nodes, newNode],
+      staleNodeIds: [...state.staleNodeIds, id],
       hasUnsavedChanges: true,
     }));
 
@@ -324,24 +579,53 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   updateNodeData: (nodeId: string, data: Partial<WorkflowNodeData>) => {
-    set((state) => ({
-      nodes: state.nodes.map((node) =>
-        node.id === nodeId
-          ? { ...node, data: { ...node.data, ...data } as WorkflowNodeData }
-          : node
-      ) as WorkflowNode[],
-      hasUnsavedChanges: true,
-    }));
+    set((state) => {
+      const updatedNode = state.nodes.find((n) => n.id === nodeId);
+
+      // Removed LLM fields lose their connections and their last results
+      const outputFields = updatedNode ? getUpdatedOutputFields(updatedNode, data) : null;
+      const nodeUpdate = outputFields ? { ...data, outputFields: null } : data;
+      const removedEdges = outputFields
+        ? state.edges.filter((e) => {
+            const field = e.source === nodeId ? getOutputFieldName(e.sourceHandle) : null;
+            return field !== null && !outputFields.includes(field);
+          })
+        : [];
+      const edges = removedEdges.length > 0 ? state.edges.filter((e) => !removedEdges.includes(e)) : state.edges;
+
+      const changedNodeIds = [
+        ...(updatedNode ? getNodesChangedByUpdate(updatedNode, nodeUpdate, state.edges) : []),
+        ...removedEdges.map((e) => e.target),
+      ];
+
+      return {
+        nodes: state.nodes.map((node) =>
+          node.id === nodeId
+            ? { ...node, data: { ...node.data, ...nodeUpdate } as WorkflowNodeData }
+            : node
+        ) as WorkflowNode[],
+        edges,
+        staleNodeIds: addStale(state.staleNodeIds, changedNodeIds, edges),
+        hasUnsavedChanges: true,
+      };
+    });
   },
 
   removeNode: (nodeId: string) => {
-    set((state) => ({
-      nodes: state.nodes.filter((node) => node.id !== nodeId),
-      edges: state.edges.filter(
+    set((state) => {
+      const edges = state.edges.filter(
         (edge) => edge.source !== nodeId && edge.target !== nodeId
-      ),
-      hasUnsavedChanges: true,
-    }));
+      );
+      // Nodes that lost an input need to run again
+      const dependents = state.edges.filter((e) => e.source === nodeId).map((e) => e.target);
+
+      return {
+        nodes: state.nodes.filter((node) => node.id !== nodeId),
+        edges,
+        staleNodeIds: addStale(state.staleNodeIds.filter((id) => id !== nodeId), dependents, edges),
+        hasUnsavedChanges: true,
+      };
+    });
   },
 
   onNodesChange: (changes: NodeChange<WorkflowNode>[]) => {
@@ -358,44 +642,65 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   onEdgesChange: (changes: EdgeChange<WorkflowEdge>[]) => {
     // Only mark as unsaved for meaningful changes (not selection changes)
     const hasMeaningfulChange = changes.some((c) => c.type !== "select");
-    set((state) => ({
-      edges: applyEdgeChanges(changes, state.edges),
-      ...(hasMeaningfulChange ? { hasUnsavedChanges: true } : {}),
-    }));
+    set((state) => {
+      const edges = applyEdgeChanges(changes, state.edges);
+      // Targets of removed connections lost an input
+      const removedIds = new Set(changes.filter((c) => c.type === "remove").map((c) => c.id));
+      const disconnected = state.edges.filter((e) => removedIds.has(e.id)).map((e) => e.target);
+
+      return {
+        edges,
+        staleNodeIds: addStale(state.staleNodeIds, disconnected, edges),
+        ...(hasMeaningfulChange ? { hasUnsavedChanges: true } : {}),
+      };
+    });
   },
 
   onConnect: (connection: Connection) => {
-    set((state) => ({
-      edges: addEdge(
+    set((state) => {
+      const edges = addEdge(
         {
           ...connection,
           id: `edge-${connection.source}-${connection.target}-${connection.sourceHandle || "default"}-${connection.targetHandle || "default"}`,
         },
         state.edges
-      ),
-      hasUnsavedChanges: true,
-    }));
+      );
+      return {
+        edges,
+        staleNodeIds: addStale(state.staleNodeIds, [connection.target], edges),
+        hasUnsavedChanges: true,
+      };
+    });
   },
 
   addEdgeWithType: (connection: Connection, edgeType: string) => {
-    set((state) => ({
-      edges: addEdge(
+    set((state) => {
+      const edges = addEdge(
         {
           ...connection,
           id: `edge-${connection.source}-${connection.target}-${connection.sourceHandle || "default"}-${connection.targetHandle || "default"}`,
           type: edgeType,
         },
         state.edges
-      ),
-      hasUnsavedChanges: true,
-    }));
+      );
+      return {
+        edges,
+        staleNodeIds: addStale(state.staleNodeIds, [connection.target], edges),
+        hasUnsavedChanges: true,
+      };
+    });
   },
 
   removeEdge: (edgeId: string) => {
-    set((state) => ({
-      edges: state.edges.filter((edge) => edge.id !== edgeId),
-      hasUnsavedChanges: true,
-    }));
+    set((state) => {
+      const edges = state.edges.filter((edge) => edge.id !== edgeId);
+      const disconnected = state.edges.filter((edge) => edge.id === edgeId).map((edge) => edge.target);
+      return {
+        edges,
+        staleNodeIds: addStale(state.staleNodeIds, disconnected, edges),
+        hasUnsavedChanges: true,
+      };
+    });
   },
 
   toggleEdgePause: (edgeId: string) => {
@@ -472,6 +777,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     set({
       nodes: [...updatedNodes, ...newNodes] as WorkflowNode[],
       edges: [...edges, ...newEdges],
+      staleNodeIds: [...get().staleNodeIds, ...newNodes.map((node) => node.id)],
       hasUnsavedChanges: true,
     });
   },
@@ -498,6 +804,8 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       nanoBanana: { width: 300, height: 300 },
       llmGenerate: { width: 320, height: 360 },
       splitGrid: { width: 300, height: 320 },
+      condition: { width: 300, height: 260 },
+      loop: { width: 300, height: 300 },
       output: { width: 320, height: 320 },
     };
 
@@ -632,477 +940,267 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   getConnectedInputs: (nodeId: string) => {
-    const { edges, nodes } = get();
-    const images: string[] = [];
-    let text: string | null = null;
-
-    edges
-      .filter((edge) => edge.target === nodeId)
-      .forEach((edge) => {
-        const sourceNode = nodes.find((n) => n.id === edge.source);
-        if (!sourceNode) return;
-
-        const handleId = edge.targetHandle;
-
-        if (handleId === "image" || !handleId) {
-          // Get image from source node - collect all connected images
-          if (sourceNode.type === "imageInput") {
-            const sourceImage = (sourceNode.data as ImageInputNodeData).image;
-            if (sourceImage) images.push(sourceImage);
-          } else if (sourceNode.type === "annotation") {
-            const sourceImage = (sourceNode.data as AnnotationNodeData).outputImage;
-            if (sourceImage) images.push(sourceImage);
-          } else if (sourceNode.type === "nanoBanana") {
-            const sourceImage = (sourceNode.data as NanoBananaNodeData).outputImage;
-            if (sourceImage) images.push(sourceImage);
-          }
-        }
-
-        if (handleId === "text") {
-          if (sourceNode.type === "prompt") {
-            text = (sourceNode.data as PromptNodeData).prompt;
-          } else if (sourceNode.type === "llmGenerate") {
-            text = (sourceNode.data as LLMGenerateNodeData).outputText;
-          }
-        }
-      });
-
-    return { images, text };
+    const { nodes, edges } = get();
+    return getConnectedInputs(nodeId, nodes, edges);
   },
 
   validateWorkflow: () => {
     const { nodes, edges } = get();
-    const errors: string[] = [];
-
-    // Check if there are any nodes
-    if (nodes.length === 0) {
-      errors.push("Workflow is empty");
-      return { valid: false, errors };
-    }
-
-    // Check each Nano Banana node has required inputs
-    nodes
-      .filter((n) => n.type === "nanoBanana")
-      .forEach((node) => {
-        const imageConnected = edges.some(
-          (e) => e.target === node.id && e.targetHandle === "image"
-        );
-        const textConnected = edges.some(
-          (e) => e.target === node.id && e.targetHandle === "text"
-        );
-
-        if (!imageConnected) {
-          errors.push(`Generate node "${node.id}" missing image input`);
-        }
-        if (!textConnected) {
-          errors.push(`Generate node "${node.id}" missing text input`);
-        }
-      });
-
-    // Check annotation nodes have image input (either connected or manually loaded)
-    nodes
-      .filter((n) => n.type === "annotation")
-      .forEach((node) => {
-        const imageConnected = edges.some((e) => e.target === node.id);
-        const hasManualImage = (node.data as AnnotationNodeData).sourceImage !== null;
-        if (!imageConnected && !hasManualImage) {
-          errors.push(`Annotation node "${node.id}" missing image input`);
-        }
-      });
-
-    // Check output nodes have image input
-    nodes
-      .filter((n) => n.type === "output")
-      .forEach((node) => {
-        const imageConnected = edges.some((e) => e.target === node.id);
-        if (!imageConnected) {
-          errors.push(`Output node "${node.id}" missing image input`);
-        }
-      });
-
-    return { valid: errors.length === 0, errors };
+    return validateWorkflow(nodes, edges);
   },
 
-  executeWorkflow: async (startFromNodeId?: string) => {
-    const { nodes, edges, updateNodeData, getConnectedInputs, isRunning } = get();
+  executeWorkflow: async (startFromNodeId?: string, resumeRunId?: string, nodeIds?: string[]) => {
+    const { edges, isRunning, saveDirectoryPath, workflowId } = get();
 
     if (isRunning) {
       return;
     }
 
-    const isResuming = startFromNodeId === get().pausedAtNodeId;
+    const resumedRun = startFromNodeId && startFromNodeId === get().pausedAtNodeId ? pausedRun : null;
+    pausedRun = null;
     set({ isRunning: true, pausedAtNodeId: null });
+    const abortController = new AbortController();
+    runAbortController = abortController;
+
+    const pausedNodeIds = new Set<string>();
+    let runId: string | null = resumeRunId || null;
 
-    // Topological sort
-    const sorted: WorkflowNode[] = [];
-    const visited = new Set<string>();
-    const visiting = new Set<string>();
+    // A resumed run picks up the paused run's nodes, minus the ones that already ran
+    const runOptions = resumedRun
+      ? { startFromNodeId: resumedRun.startFromNodeId, nodeIds: resumedRun.nodeIds }
+      : { startFromNodeId, nodeIds };
 
-    const visit = (nodeId: string) => {
-      if (visited.has(nodeId)) return;
-      if (visiting.has(nodeId)) {
-        throw new Error("Cycle detected in workflow");
+    try {
+      // Saved projects queue provider calls in the project folder so the run survives a reload
+      if (!runId && saveDirectoryPath && workflowId) {
+        try {
+          const run = await createRun(saveDirectoryPath, workflowId, runOptions.startFromNodeId || null, runOptions.nodeIds ?? null);
+          runId = run.id;
+        } catch (error) {
+          console.error("Failed to create run, continuing without the job queue:", error);
+        }
       }
+      const services = runId && saveDirectoryPath
+        ? createJobServices(saveDirectoryPath, runId, get().retryPolicy)
+        : createBrowserServices(get().retryPolicy);
+
+      const { completed } = await runWorkflow(createExecutionContext(get, abortController.signal, services), {
+        ...runOptions,
+        skipNodeIds: resumedRun?.completedNodeIds,
+        concurrencyLimits: get().concurrencyLimits,
+        canStart: (nodeId) => {
+          if (!get().isRunning) return false;
+
+          // Pause edges hold their node and its descendants back (other branches keep running),
+          // except on the nodes the run is resuming from
+          if (!resumedRun?.pausedNodeIds.has(nodeId)) {
+            const pauseEdge = edges.find((e) => e.target === nodeId && e.data?.hasPause);
+            if (pauseEdge) {
+              pausedNodeIds.add(nodeId);
+              return false;
+            }
+          }
+          return true;
+        },
+        onNodeStart: (nodeId) => {
+          set((state) => ({ currentNodeIds: [...state.currentNodeIds, nodeId] }));
+        },
+        onNodeEnd: (nodeId, success) => {
+          set((state) => ({
+            currentNodeIds: state.currentNodeIds.filter((id) => id !== nodeId),
+            staleNodeIds: success ? state.staleNodeIds.filter((id) => id !== nodeId) : state.staleNodeIds,
+          }));
+        },
+      });
 
-      visiting.add(nodeId);
+      if (pausedNodeIds.size > 0 && get().isRunning) {
+        pausedRun = {
+          ...runOptions,
+          completedNodeIds: new Set([...(resumedRun?.completedNodeIds ?? []), ...completed]),
+          pausedNodeIds,
+        };
+        set({ pausedAtNodeId: [...pausedNodeIds][0], isRunning: false, currentNodeIds: [] });
+        useToast.getState().show("Workflow paused - click Run to continue", "warning");
+        return;
+      }
 
-      // Visit all nodes that this node depends on
-      edges
-        .filter((e) => e.target === nodeId)
-        .forEach((e) => visit(e.source));
+      set({ isRunning: false, currentNodeIds: [] });
+    } catch {
+      set({ isRunning: false, currentNodeIds: [] });
+    } finally {
+      if (runAbortController === abortController) {
+        runAbortController = null;
+      }
+      if (runId && saveDirectoryPath) {
+        finishRun(saveDirectoryPath, runId);
+      }
+    }
+  },
 
-      visiting.delete(nodeId);
-      visited.add(nodeId);
+  resumeInterruptedRun: async () => {
+    const { saveDirectoryPath, workflowId, isRunning } = get();
 
-      const node = nodes.find((n) => n.id === nodeId);
-      if (node) sorted.push(node);
-    };
+    if (!saveDirectoryPath || !workflowId || isRunning) {
+      return;
+    }
 
     try {
-      nodes.forEach((node) => visit(node.id));
-
-      // If starting from a specific node, find its index and skip earlier nodes
-      let startIndex = 0;
-      if (startFromNodeId) {
-        const nodeIndex = sorted.findIndex((n) => n.id === startFromNodeId);
-        if (nodeIndex !== -1) {
-          startIndex = nodeIndex;
-        }
-      }
+      const run = await findInterruptedRun(saveDirectoryPath, workflowId);
+      // Skip if another workflow was loaded in the meantime
+      if (!run || get().workflowId !== workflowId) return;
 
-      // Execute nodes in order, starting from startIndex
-      for (let i = startIndex; i < sorted.length; i++) {
-        const node = sorted[i];
-        if (!get().isRunning) break;
-
-        // Check for pause edges on incoming connections (skip if resuming from this exact node)
-        const isResumingThisNode = isResuming && node.id === startFromNodeId;
-        if (!isResumingThisNode) {
-          const incomingEdges = edges.filter((e) => e.target === node.id);
-          const pauseEdge = incomingEdges.find((e) => e.data?.hasPause);
-          if (pauseEdge) {
-            set({ pausedAtNodeId: node.id, isRunning: false, currentNodeId: null });
-            useToast.getState().show("Workflow paused - click Run to continue", "warning");
-            return;
-          }
-        }
+      useToast.getState().show("Resuming interrupted run", "info");
+      await get().executeWorkflow(run.startFromNodeId || undefined, run.id, run.nodeIds ?? undefined);
+    } catch (error) {
+      console.error("Failed to check for interrupted runs:", error);
+    }
+  },
 
-        set({ currentNodeId: node.id });
-
-        switch (node.type) {
-          case "imageInput":
-            // Nothing to execute, data is already set
-            break;
-
-          case "annotation": {
-            // Get connected image and set as source (use first image)
-            const { images } = getConnectedInputs(node.id);
-            const image = images[0] || null;
-            if (image) {
-              updateNodeData(node.id, { sourceImage: image });
-              // If no annotations, pass through the image
-              const nodeData = node.data as AnnotationNodeData;
-              if (!nodeData.outputImage) {
-                updateNodeData(node.id, { outputImage: image });
-              }
-            }
-            break;
-          }
+  runChangedNodes: async () => {
+    const { staleNodeIds, edges } = get();
 
-          case "prompt":
-            // Nothing to execute, data is already set
-            break;
+    if (staleNodeIds.length === 0) {
+      return;
+    }
 
-          case "nanoBanana": {
-            const { images, text } = getConnectedInputs(node.id);
+    await get().executeWorkflow(undefined, undefined, [...getDownstreamNodeIds(staleNodeIds, edges)]);
+  },
 
-            if (images.length === 0 || !text) {
-              updateNodeData(node.id, {
-                status: "error",
-                error: "Missing image or text input",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              return;
-            }
+  stopWorkflow: () => {
+    runAbortController?.abort();
+    runAbortController = null;
+    set({ isRunning: false, currentNodeIds: [], batchProgress: null });
+  },
 
-            updateNodeData(node.id, {
-              inputImages: images,
-              inputPrompt: text,
-              status: "loading",
-              error: null,
-            });
-
-            try {
-              const nodeData = node.data as NanoBananaNodeData;
-
-              const requestPayload = {
-                images,
-                prompt: text,
-                aspectRatio: nodeData.aspectRatio,
-                resolution: nodeData.resolution,
-                model: nodeData.model,
-                useGoogleSearch: nodeData.useGoogleSearch,
-              };
-
-              const response = await fetch("/api/generate", {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                },
-                body: JSON.stringify(requestPayload),
-              });
+  runBatch: async (rows: WorkflowParameterRow[]) => {
+    const { isRunning, generationsPath, saveDirectoryPath, updateNodeData } = get();
+    const showToast = useToast.getState().show;
 
-              if (!response.ok) {
-                const errorText = await response.text();
-                let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-                try {
-                  const errorJson = JSON.parse(errorText);
-                  errorMessage = errorJson.error || errorMessage;
-                } catch {
-                  if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
-                }
-
-                updateNodeData(node.id, {
-                  status: "error",
-                  error: errorMessage,
-                });
-                set({ isRunning: false, currentNodeId: null });
-                return;
-              }
-
-              const result = await response.json();
-
-              if (result.success && result.image) {
-                // Save the newly generated image to global history
-                get().addToGlobalHistory({
-                  image: result.image,
-                  timestamp: Date.now(),
-                  prompt: text,
-                  aspectRatio: nodeData.aspectRatio,
-                  model: nodeData.model,
-                });
-                updateNodeData(node.id, {
-                  outputImage: result.image,
-                  status: "complete",
-                  error: null,
-                });
-
-                // Auto-save to generations folder if configured
-                const genPath = get().generationsPath;
-                if (genPath) {
-                  fetch("/api/save-generation", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({
-                      directoryPath: genPath,
-                      image: result.image,
-                      prompt: text,
-                    }),
-                  }).catch((err) => {
-                    console.error("Failed to save generation:", err);
-                  });
-                }
-              } else {
-                updateNodeData(node.id, {
-                  status: "error",
-                  error: result.error || "Generation failed",
-                });
-                set({ isRunning: false, currentNodeId: null });
-                return;
-              }
-            } catch (error) {
-              let errorMessage = "Generation failed";
-              if (error instanceof DOMException && error.name === 'AbortError') {
-                errorMessage = "Request timed out. Try reducing image sizes or using a simpler prompt.";
-              } else if (error instanceof TypeError && error.message.includes('NetworkError')) {
-                errorMessage = "Network error. Check your connection and try again.";
-              } else if (error instanceof TypeError) {
-                errorMessage = `Network error: ${error.message}`;
-              } else if (error instanceof Error) {
-                errorMessage = error.message;
-              }
-
-              updateNodeData(node.id, {
-                status: "error",
-                error: errorMessage,
-              });
-              set({ isRunning: false, currentNodeId: null });
-              return;
-            }
-            break;
-          }
+    if (isRunning || rows.length === 0) {
+      return;
+    }
 
-          case "llmGenerate": {
-            const { text } = getConnectedInputs(node.id);
+    if (!generationsPath) {
+      showToast("Set a generations folder in project settings to run a batch", "error");
+      return;
+    }
 
-            if (!text) {
-              updateNodeData(node.id, {
-                status: "error",
-                error: "Missing text input",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              return;
-            }
+    const parameters = getWorkflowParameters(get().nodes);
+    if (!parameters.some((parameter) => parameter.name in rows[0])) {
+      showToast("No columns match a workflow parameter name", "error");
+      return;
+    }
 
-            updateNodeData(node.id, {
-              inputPrompt: text,
-              status: "loading",
-              error: null,
-            });
-
-            try {
-              const nodeData = node.data as LLMGenerateNodeData;
-              const response = await fetch("/api/llm", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  prompt: text,
-                  provider: nodeData.provider,
-                  model: nodeData.model,
-                  temperature: nodeData.temperature,
-                  maxTokens: nodeData.maxTokens,
-                }),
-              });
+    const batchId = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+    const padLength = String(rows.length).length;
+    let savedRows = 0;
 
-              if (!response.ok) {
-                const errorText = await response.text();
-                let errorMessage = `HTTP ${response.status}`;
-                try {
-                  const errorJson = JSON.parse(errorText);
-                  errorMessage = errorJson.error || errorMessage;
-                } catch {
-                  if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
-                }
-                updateNodeData(node.id, {
-                  status: "error",
-                  error: errorMessage,
-                });
-                set({ isRunning: false, currentNodeId: null });
-                return;
-              }
-
-              const result = await response.json();
-
-              if (result.success && result.text) {
-                updateNodeData(node.id, {
-                  outputText: result.text,
-                  status: "complete",
-                  error: null,
-                });
-              } else {
-                updateNodeData(node.id, {
-                  status: "error",
-                  error: result.error || "LLM generation failed",
-                });
-                set({ isRunning: false, currentNodeId: null });
-                return;
-              }
-            } catch (error) {
-              updateNodeData(node.id, {
-                status: "error",
-                error: error instanceof Error ? error.message : "LLM generation failed",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              return;
-            }
-            break;
-          }
+    // Rows write their values into the parameter nodes - the original values are put back afterwards
+    const originals = parameters.map(({ nodeId, type }) => {
+      const data = get().nodes.find((n) => n.id === nodeId)?.data;
+      if (type === "prompt") {
+        return { nodeId, data: { prompt: (data as PromptNodeData).prompt } };
+      }
+      const { image, filename, dimensions } = data as ImageInputNodeData;
+      return { nodeId, data: { image, filename, dimensions } };
+    });
 
-          case "splitGrid": {
-            const { images } = getConnectedInputs(node.id);
-            const sourceImage = images[0] || null;
+    set({ batchProgress: { current: 0, total: rows.length } });
 
-            if (!sourceImage) {
-              updateNodeData(node.id, {
-                status: "error",
-                error: "No input image connected",
+    let stopped = false;
+    try {
+      for (let i = 0; i < rows.length; i++) {
+        // Stop button clears batchProgress
+        if (!get().batchProgress) break;
+        set({ batchProgress: { current: i + 1, total: rows.length } });
+
+        const row = rows[i];
+        try {
+          for (const parameter of parameters) {
+            const value = row[parameter.name];
+            if (value === undefined) continue;
+
+            if (parameter.type === "prompt") {
+              updateNodeData(parameter.nodeId, { prompt: value });
+            } else {
+              updateNodeData(parameter.nodeId, {
+                image: await loadParameterImage(value, saveDirectoryPath),
+                filename: value.startsWith("data:") ? null : value.split(/[\\/]/).pop() || null,
+                dimensions: null,
               });
-              set({ isRunning: false, currentNodeId: null });
-              return;
             }
+          }
+        } catch (error) {
+          console.error(`Batch row ${i + 1}:`, error);
+          continue;
+        }
 
-            const nodeData = node.data as SplitGridNodeData;
+        // Clear outputs so a failed row doesn't save the previous row's images
+        get()
+          .nodes.filter((n) => n.type === "output")
+          .forEach((n) => updateNodeData(n.id, { image: null }));
 
-            if (!nodeData.isConfigured) {
-              updateNodeData(node.id, {
-                status: "error",
-                error: "Node not configured - open settings first",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              return;
-            }
+        await get().executeWorkflow();
 
-            updateNodeData(node.id, {
-              sourceImage,
-              status: "loading",
-              error: null,
-            });
-
-            try {
-              // Import and use the grid splitter
-              const { splitWithDimensions } = await import("@/utils/gridSplitter");
-              const { images: splitImages } = await splitWithDimensions(
-                sourceImage,
-                nodeData.gridRows,
-                nodeData.gridCols
-              );
-
-              // Populate child imageInput nodes with split images
-              for (let index = 0; index < nodeData.childNodeIds.length; index++) {
-                const childSet = nodeData.childNodeIds[index];
-                if (splitImages[index]) {
-                  // Create a promise to get image dimensions
-                  await new Promise<void>((resolve) => {
-                    const img = new Image();
-                    img.onload = () => {
-                      updateNodeData(childSet.imageInput, {
-                        image: splitImages[index],
-                        filename: `split-${Math.floor(index / nodeData.gridCols) + 1}-${(index % nodeData.gridCols) + 1}.png`,
-                        dimensions: { width: img.width, height: img.height },
-                      });
-                      resolve();
-                    };
-                    img.onerror = () => resolve();
-                    img.src = splitImages[index];
-                  });
-                }
-              }
-
-              updateNodeData(node.id, { status: "complete", error: null });
-            } catch (error) {
-              updateNodeData(node.id, {
-                status: "error",
-                error: error instanceof Error ? error.message : "Failed to split image",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              return;
-            }
-            break;
-          }
+        // Pause edges halt the whole batch
+        if (get().pausedAtNodeId) break;
 
-          case "output": {
-            const { images } = getConnectedInputs(node.id);
-            const image = images[0] || null;
-            if (image) {
-              updateNodeData(node.id, { image });
-            }
-            break;
-          }
-        }
+        const rowLabel = `row-${String(i + 1).padStart(padLength, "0")}`;
+        const outputs = get().nodes.filter(
+          (n) => n.type === "output" && (n.data as OutputNodeData).image
+        );
+        outputs.forEach((n) => {
+          saveGeneration(
+            generationsPath,
+            (n.data as OutputNodeData).image as string,
+            "",
+            `batch_${batchId}_${rowLabel}_${n.id}`
+          );
+        });
+        if (outputs.length > 0) savedRows++;
       }
+    } finally {
+      originals.forEach(({ nodeId, data }) => updateNodeData(nodeId, data));
+      stopped = !get().batchProgress;
+      set({ batchProgress: null });
+    }
 
-      set({ isRunning: false, currentNodeId: null });
-    } catch {
-      set({ isRunning: false, currentNodeId: null });
+    if (savedRows === rows.length) {
+      showToast(`Batch complete - saved outputs for ${rows.length} rows`, "success");
+    } else {
+      showToast(
+        `Batch ${stopped ? "stopped" : "finished"} - saved outputs for ${savedRows} of ${rows.length} rows`,
+        "warning"
+      );
     }
   },
 
-  stopWorkflow: () => {
-    set({ isRunning: false, currentNodeId: null });
+  setConcurrencyLimit: (provider: string, limit: number) => {
+    const concurrencyLimits = { ...get().concurrencyLimits, [provider]: Math.max(1, Math.floor(limit)) };
+    set({ concurrencyLimits });
+    if (typeof window !== "undefined") {
+      localStorage.setItem(CONCURRENCY_LIMITS_KEY, JSON.stringify(concurrencyLimits));
+    }
+  },
+
+  setRetryPolicy: (policy: Partial<RetryPolicy>) => {
+    const retryPolicy = resolveRetryPolicy({ ...get().retryPolicy, ...policy });
+    set({ retryPolicy });
+    if (typeof window !== "undefined") {
+      localStorage.setItem(RETRY_POLICY_KEY, JSON.stringify(retryPolicy));
+    }
+  },
+
+  setLLMProviderSettings: (settings: Partial<LLMProviderSettings>) => {
+    const llmProviderSettings = { ...get().llmProviderSettings, ...settings };
+    set({ llmProviderSettings });
+    if (typeof window !== "undefined") {
+      localStorage.setItem(LLM_PROVIDER_SETTINGS_KEY, JSON.stringify(llmProviderSettings));
+    }
   },
 
   regenerateNode: async (nodeId: string) => {
-    const { nodes, updateNodeData, getConnectedInputs, isRunning } = get();
+    const { nodes, isRunning } = get();
 
     if (isRunning) {
       return;
@@ -1113,165 +1211,23 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       return;
     }
 
-    set({ isRunning: true, currentNodeId: nodeId });
-
-    try {
-      if (node.type === "nanoBanana") {
-        const nodeData = node.data as NanoBananaNodeData;
-
-        // Always get fresh connected inputs first, fall back to stored inputs only if not connected
-        const inputs = getConnectedInputs(nodeId);
-        let images = inputs.images.length > 0 ? inputs.images : nodeData.inputImages;
-        let text = inputs.text ?? nodeData.inputPrompt;
-
-        if (!images || images.length === 0 || !text) {
-          updateNodeData(nodeId, {
-            status: "error",
-            error: "Missing image or text input",
-          });
-          set({ isRunning: false, currentNodeId: null });
-          return;
-        }
-
-        updateNodeData(nodeId, {
-          status: "loading",
-          error: null,
-        });
-
-        const response = await fetch("/api/generate", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            images,
-            prompt: text,
-            aspectRatio: nodeData.aspectRatio,
-            resolution: nodeData.resolution,
-            model: nodeData.model,
-            useGoogleSearch: nodeData.useGoogleSearch,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          let errorMessage = `HTTP ${response.status}`;
-          try {
-            const errorJson = JSON.parse(errorText);
-            errorMessage = errorJson.error || errorMessage;
-          } catch {
-            if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
-          }
-          updateNodeData(nodeId, { status: "error", error: errorMessage });
-          set({ isRunning: false, currentNodeId: null });
-          return;
-        }
-
-        const result = await response.json();
-        if (result.success && result.image) {
-          // Save the newly generated image to global history
-          get().addToGlobalHistory({
-            image: result.image,
-            timestamp: Date.now(),
-            prompt: text,
-            aspectRatio: nodeData.aspectRatio,
-            model: nodeData.model,
-          });
-          updateNodeData(nodeId, {
-            outputImage: result.image,
-            status: "complete",
-            error: null,
-          });
-
-          // Auto-save to generations folder if configured
-          const genPath = get().generationsPath;
-          if (genPath) {
-            fetch("/api/save-generation", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                directoryPath: genPath,
-                image: result.image,
-                prompt: text,
-              }),
-            }).catch((err) => {
-              console.error("Failed to save generation:", err);
-            });
-          }
-        } else {
-          updateNodeData(nodeId, {
-            status: "error",
-            error: result.error || "Generation failed",
-          });
-        }
-      } else if (node.type === "llmGenerate") {
-        const nodeData = node.data as LLMGenerateNodeData;
-
-        // Always get fresh connected input first, fall back to stored input only if not connected
-        const inputs = getConnectedInputs(nodeId);
-        const text = inputs.text ?? nodeData.inputPrompt;
-
-        if (!text) {
-          updateNodeData(nodeId, {
-            status: "error",
-            error: "Missing text input",
-          });
-          set({ isRunning: false, currentNodeId: null });
-          return;
-        }
+    set({ isRunning: true, currentNodeIds: [nodeId] });
+    const abortController = new AbortController();
+    runAbortController = abortController;
 
-        updateNodeData(nodeId, {
-          status: "loading",
-          error: null,
-        });
-
-        const response = await fetch("/api/llm", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            prompt: text,
-            provider: nodeData.provider,
-            model: nodeData.model,
-            temperature: nodeData.temperature,
-            maxTokens: nodeData.maxTokens,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          let errorMessage = `HTTP ${response.status}`;
-          try {
-            const errorJson = JSON.parse(errorText);
-            errorMessage = errorJson.error || errorMessage;
-          } catch {
-            if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
-          }
-          updateNodeData(nodeId, { status: "error", error: errorMessage });
-          set({ isRunning: false, currentNodeId: null });
-          return;
-        }
-
-        const result = await response.json();
-        if (result.success && result.text) {
-          updateNodeData(nodeId, {
-            outputText: result.text,
-            status: "complete",
-            error: null,
-          });
-        } else {
-          updateNodeData(nodeId, {
-            status: "error",
-            error: result.error || "LLM generation failed",
-          });
-        }
-      }
+    const success = await executeNode(nodeId, createExecutionContext(get, abortController.signal), {
+      fallbackToStoredInputs: true,
+      forceRegenerate: true,
+    });
 
-      set({ isRunning: false, currentNodeId: null });
-    } catch (error) {
-      updateNodeData(nodeId, {
-        status: "error",
-        error: error instanceof Error ? error.message : "Regeneration failed",
-      });
-      set({ isRunning: false, currentNodeId: null });
+    if (runAbortController === abortController) {
+      runAbortController = null;
     }
+    set((state) => ({
+      isRunning: false,
+      currentNodeIds: [],
+      staleNodeIds: success ? state.staleNodeIds.filter((id) => id !== nodeId) : state.staleNodeIds,
+    }));
   },
 
   saveWorkflow: (name?: string) => {
@@ -1327,10 +1283,11 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     set({
       nodes: workflow.nodes,
       edges: workflow.edges,
+      staleNodeIds: getInitialStaleNodeIds(workflow.nodes, workflow.edges),
       edgeStyle: workflow.edgeStyle || "angular",
       groups: workflow.groups || {},
       isRunning: false,
-      currentNodeId: null,
+      currentNodeIds: [],
       // Restore workflow ID and paths from localStorage if available
       workflowId: workflow.id || null,
       workflowName: workflow.name,
@@ -1339,15 +1296,19 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       lastSavedAt: savedConfig?.lastSavedAt || null,
       hasUnsavedChanges: false,
     });
+
+    // Re-attach to a run that was interrupted by a reload
+    get().resumeInterruptedRun();
   },
 
   clearWorkflow: () => {
     set({
       nodes: [],
       edges: [],
+      staleNodeIds: [],
       groups: {},
       isRunning: false,
-      currentNodeId: null,
+      currentNodeIds: [],
       // Reset auto-save state when clearing workflow
       workflowId: null,
       workflowName: null,
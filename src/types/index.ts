@@ -1,4 +1,5 @@
 import { Node, Edge } from "@xyflow/react";
+import type { IMAGE_MODELS } from "@/lib/imageProviders";
 
 // Node Types
 export type NodeType =
@@ -8,30 +9,45 @@ export type NodeType =
   | "nanoBanana"
   | "llmGenerate"
   | "splitGrid"
+  | "condition"
+  | "loop"
   | "output";
 
-// Aspect Ratios (supported by both Nano Banana and Nano Banana Pro)
+// Aspect Ratios (each image model supports a subset, see imageProviders)
 export type AspectRatio = "1:1" | "2:3" | "3:2" | "3:4" | "4:3" | "4:5" | "5:4" | "9:16" | "16:9" | "21:9";
 
 // Resolution Options (only supported by Nano Banana Pro)
 export type Resolution = "1K" | "2K" | "4K";
 
-// Image Generation Model Options
-export type ModelType = "nano-banana" | "nano-banana-pro";
+// Image Generation Model Options (the keys of IMAGE_MODELS in src/lib/imageProviders.ts)
+export type ModelType = keyof typeof IMAGE_MODELS;
 
-// LLM Provider Options
-export type LLMProvider = "google" | "openai";
+// LLM Provider Options (declared in src/lib/llmProviders.ts)
+export type LLMProvider = "google" | "openai" | "anthropic" | "openaiCompatible";
 
-// LLM Model Options
-export type LLMModelType =
-  | "gemini-2.5-flash"
-  | "gemini-3-flash-preview"
-  | "gemini-3-pro-preview"
-  | "gpt-4.1-mini"
-  | "gpt-4.1-nano";
+// LLM Model ID - fixed per provider for Google and OpenAI, discovered from the endpoint otherwise
+export type LLMModelType = string;
+
+// LLM output: free text, or JSON matching a schema with one output per field
+export type LLMOutputFormat = "text" | "json";
 
 // Node Status
-export type NodeStatus = "idle" | "loading" | "complete" | "error";
+export type NodeStatus = "idle" | "loading" | "complete" | "error" | "cancelled" | "skipped";
+
+// Retry progress shown while a provider call is being retried
+export interface RetryState {
+  attempt: number;      // Attempt in progress (2 = first retry)
+  maxAttempts: number;
+}
+
+// Retry policy for provider calls (429 / 5xx by default)
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;  // Delay before the first retry, doubled on each retry
+  maxDelayMs: number;
+  jitter: number;       // 0-1, randomizes each delay by up to +/- this fraction
+  retryOn: number[];    // HTTP status codes worth retrying
+}
 
 // Base node data - using Record to satisfy React Flow's type constraints
 export interface BaseNodeData extends Record<string, unknown> {
@@ -43,14 +59,25 @@ export interface ImageInputNodeData extends BaseNodeData {
   image: string | null;
   filename: string | null;
   dimensions: { width: number; height: number } | null;
+  parameterName?: string | null;  // Set to expose the image as a workflow parameter for batch runs
 }
 
 // Annotation Shape Types
-export type ShapeType = "rectangle" | "circle" | "arrow" | "freehand" | "text";
+export type ShapeType =
+  | "rectangle"
+  | "circle"
+  | "arrow"
+  | "freehand"
+  | "text"
+  | "polygon"
+  | "highlighter"
+  | "region"
+  | "callout";
 
 export interface BaseShape {
   id: string;
   type: ShapeType;
+  layerId?: string;  // Shapes without a known layer belong to the bottom layer
   x: number;
   y: number;
   stroke: string;
@@ -89,23 +116,107 @@ export interface TextShape extends BaseShape {
   fill: string;
 }
 
+// Closed outline through points relative to x/y
+export interface PolygonShape extends BaseShape {
+  type: "polygon";
+  points: number[];
+  fill: string | null;
+}
+
+// Wide translucent stroke
+export interface HighlighterShape extends BaseShape {
+  type: "highlighter";
+  points: number[];
+}
+
+export type RegionEffect = "blur" | "pixelate";
+
+// Blurs or pixelates the source image under the rectangle
+export interface RegionShape extends BaseShape {
+  type: "region";
+  width: number;
+  height: number;
+  effect: RegionEffect;
+  strength: number;  // Blur radius or pixel block size
+}
+
+// Numbered marker centered on x/y, numbered in the order they're placed
+export interface CalloutShape extends BaseShape {
+  type: "callout";
+  number: number;
+  radius: number;
+  fill: string;
+}
+
 export type AnnotationShape =
   | RectangleShape
   | CircleShape
   | ArrowShape
   | FreehandShape
-  | TextShape;
+  | TextShape
+  | PolygonShape
+  | HighlighterShape
+  | RegionShape
+  | CalloutShape;
+
+// Named annotation layer, drawn bottom to top in array order
+export interface AnnotationLayer {
+  id: string;
+  name: string;
+  visible: boolean;  // Hidden layers are left out of the image and overlay outputs
+  locked: boolean;  // Locked layers can't be drawn on or edited
+  opacity: number;
+}
+
+// Inpainting mask strokes, in image pixels. Brush strokes and rectangles paint
+// the area to edit; eraser strokes clear it again.
+export interface MaskLineStroke {
+  id: string;
+  type: "line";
+  erase: boolean;
+  points: number[];
+  strokeWidth: number;
+}
+
+export interface MaskRectStroke {
+  id: string;
+  type: "rect";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type MaskStroke = MaskLineStroke | MaskRectStroke;
 
 // Annotation Node Data
+export type ExportFormat = "png" | "jpeg" | "webp";
+
+// How an Annotate node's image outputs are encoded
+export interface AnnotationExportSettings {
+  scale: number;                // Multiplier on the source image's size
+  maxDimension: number | null;  // Cap on the longer side in pixels
+  format: ExportFormat;
+  quality: number;              // 0-1, JPEG and WebP only
+}
+
 export interface AnnotationNodeData extends BaseNodeData {
   sourceImage: string | null;
   annotations: AnnotationShape[];
+  layers?: AnnotationLayer[];
   outputImage: string | null;
+  outputOverlay?: string | null;  // Visible layers on a transparent background
+  layerImages?: Record<string, string> | null;  // Source image with a single layer, by layer ID
+  maskStrokes?: MaskStroke[];
+  outputMask?: string | null;  // Black and white PNG, white where the image should change
+  outputDescription?: string | null;  // Text description of the visible annotations
+  exportSettings?: AnnotationExportSettings;
 }
 
 // Prompt Node Data
 export interface PromptNodeData extends BaseNodeData {
   prompt: string;
+  parameterName?: string | null;  // Set to expose the prompt as a workflow parameter for batch runs
 }
 
 // Image History Item (for tracking generated images)
@@ -122,25 +233,36 @@ export interface ImageHistoryItem {
 export interface NanoBananaNodeData extends BaseNodeData {
   inputImages: string[]; // Now supports multiple images
   inputPrompt: string | null;
+  inputMask?: string | null;  // Limits the edit to the mask's white areas
   outputImage: string | null;
   aspectRatio: AspectRatio;
   resolution: Resolution; // Only used by Nano Banana Pro
   model: ModelType;
   useGoogleSearch: boolean; // Only available for Nano Banana Pro
+  providerOptions?: Record<string, string>; // Model-specific options declared by the provider
   status: NodeStatus;
   error: string | null;
+  retry?: RetryState | null;
+  forceRegenerate?: boolean;  // Skip the result cache on every run
 }
 
 // LLM Generate Node Data (Text Generation)
 export interface LLMGenerateNodeData extends BaseNodeData {
   inputPrompt: string | null;
+  inputImages?: string[];  // Images sent along with the prompt
   outputText: string | null;
+  outputFormat?: LLMOutputFormat;
+  outputSchema?: string;  // JSON schema source, used in JSON mode
+  outputFields?: Record<string, string> | null;  // Text per top-level field of JSON output
   provider: LLMProvider;
   model: LLMModelType;
   temperature: number;
   maxTokens: number;
   status: NodeStatus;
   error: string | null;
+  retry?: RetryState | null;
+  partialText?: string | null;  // Output streamed so far while generating
+  forceRegenerate?: boolean;  // Skip the result cache on every run
 }
 
 // Output Node Data
@@ -171,6 +293,39 @@ export interface SplitGridNodeData extends BaseNodeData {
   error: string | null;
 }
 
+// Condition rule types
+export type ConditionMode = "regex" | "contains" | "json" | "llm";
+
+export type ConditionOperator = "equals" | "notEquals" | "greaterThan" | "lessThan" | "exists";
+
+// Condition Node Data (routes execution to its "true" or "false" output)
+export interface ConditionNodeData extends BaseNodeData {
+  inputText: string | null;
+  mode: ConditionMode;
+  pattern: string;              // Regex or substring to look for (regex / contains)
+  caseSensitive: boolean;
+  jsonPath: string;             // Field to compare, e.g. "scores[0].value" (json)
+  operator: ConditionOperator;  // json
+  compareValue: string;         // json
+  question: string;             // Yes/no question about the input (llm)
+  provider: LLMProvider;        // llm
+  model: LLMModelType;          // llm
+  result: boolean | null;       // Branch taken by the last run
+  status: NodeStatus;
+  error: string | null;
+  retry?: RetryState | null;
+}
+
+// Loop Node Data (re-runs the nodes after its "body" output, feeding each result back in)
+export interface LoopNodeData extends BaseNodeData {
+  maxIterations: number;
+  iteration: number;              // Iteration in progress or last run (0 = never run)
+  currentImage: string | null;    // Image sent into the body this iteration
+  outputImage: string | null;     // Image produced by the last iteration
+  status: NodeStatus;
+  error: string | null;
+}
+
 // Union of all node data types
 export type WorkflowNodeData =
   | ImageInputNodeData
@@ -179,6 +334,8 @@ export type WorkflowNodeData =
   | NanoBananaNodeData
   | LLMGenerateNodeData
   | SplitGridNodeData
+  | ConditionNodeData
+  | LoopNodeData
   | OutputNodeData;
 
 // Workflow Node with typed data (extended with optional groupId)
@@ -194,42 +351,194 @@ export interface WorkflowEdgeData extends Record<string, unknown> {
 // Workflow Edge
 export type WorkflowEdge = Edge<WorkflowEdgeData>;
 
+// Edge rendering style
+export type EdgeStyle = "angular" | "curved";
+
+// Workflow parameter exposed by a prompt or image input node
+export interface WorkflowParameter {
+  name: string;
+  nodeId: string;
+  type: "prompt" | "imageInput";
+}
+
+// One batch run's values, keyed by parameter name
+export type WorkflowParameterRow = Record<string, string>;
+
+// Workflow file format
+export interface WorkflowFile {
+  version: 1;
+  id?: string;  // Optional for backward compatibility with old/shared workflows
+  name: string;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  edgeStyle: EdgeStyle;
+  groups?: Record<string, NodeGroup>;  // Optional for backward compatibility
+}
+
 // Handle Types for connections
 export type HandleType = "image" | "text";
 
 // API Request/Response types for Image Generation
 export interface GenerateRequest {
-  images: string[]; // Now supports multiple images
+  images?: string[]; // Reference images - omit for text-to-image
   prompt: string;
   aspectRatio?: AspectRatio;
   resolution?: Resolution; // Only for Nano Banana Pro
   model?: ModelType;
   useGoogleSearch?: boolean; // Only for Nano Banana Pro
+  options?: Record<string, string>; // Model-specific options declared by the provider
+  mask?: string; // Black and white PNG the size of the first image - only white areas are edited
+  retryPolicy?: Partial<RetryPolicy>;
 }
 
 export interface GenerateResponse {
   success: boolean;
   image?: string;
   error?: string;
+  retryable?: boolean;  // Set on failures the retry policy would retry
 }
 
 // API Request/Response types for LLM Text Generation
 export interface LLMGenerateRequest {
   prompt: string;
+  images?: string[];  // Data URLs for vision-capable models
   provider: LLMProvider;
   model: LLMModelType;
   temperature?: number;
   maxTokens?: number;
+  baseUrl?: string;  // OpenAI-compatible server, e.g. http://localhost:11434/v1
+  jsonSchema?: Record<string, unknown>;  // Constrain the output to JSON matching this schema
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface LLMModelsRequest {
+  provider: LLMProvider;
+  baseUrl?: string;  // OpenAI-compatible server, defaults to the server's
+}
+
+export interface LLMModelsResponse {
+  success: boolean;
+  models?: { value: LLMModelType; label: string }[];
+  error?: string;
 }
 
 export interface LLMGenerateResponse {
   success: boolean;
   text?: string;
   error?: string;
+  retryable?: boolean;  // Set on failures the retry policy would retry
+}
+
+// Progress events sent by the streaming generate / LLM routes
+export type GenerationStreamEvent =
+  | { type: "queued" }
+  | { type: "model-called"; model: string; attempt: number }
+  | { type: "retrying"; attempt: number; maxAttempts: number; delayMs: number; error: string }
+  | { type: "token"; text: string }  // Partial LLM output (delta)
+  | { type: "image"; image: string }
+  | { type: "text"; text: string }   // Final LLM output
+  | { type: "error"; error: string; retryable: boolean };
+
+// Output of a single node after a headless run
+export interface NodeOutput {
+  type: NodeType;
+  status?: NodeStatus;
+  image?: string | null;
+  text?: string | null;
+  fields?: Record<string, string> | null;  // LLM Generate nodes with JSON output only
+  result?: boolean | null;  // Condition nodes only
+  error?: string | null;
+}
+
+// API Request/Response types for headless workflow runs
+export type RunWorkflowRequest = WorkflowFile;
+
+export interface RunWorkflowResponse {
+  success: boolean;
+  outputs?: Record<string, NodeOutput>;
+  errors?: string[];
+  error?: string;
+}
+
+// Generation job queue (persisted to the project directory)
+export type JobStatus = "queued" | "running" | "complete" | "error" | "cancelled";
+
+export type JobKind = "generate" | "llm";
+
+export interface GenerationJob {
+  id: string;
+  runId: string;
+  nodeId: string;
+  kind: JobKind;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  result: string | null;  // Image data URL or generated text
+  partialText: string | null;  // LLM output streamed so far
+  error: string | null;
+  nextAttemptAt: number | null;  // Set while waiting to retry
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface JobRun {
+  id: string;
+  workflowId: string;
+  status: "running" | "finished";
+  startFromNodeId: string | null;
+  nodeIds?: string[] | null;  // Nodes a "Run changed nodes" run was limited to (null = every node)
+  createdAt: number;
+  updatedAt: number;
+}
+
+// API Request/Response types for the job queue
+export interface SubmitJobRequest {
+  directoryPath: string;
+  runId: string;
+  nodeId: string;
+  kind: JobKind;
+  request: GenerateRequest | LLMGenerateRequest;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface JobResponse {
+  success: boolean;
+  job?: GenerationJob;
+  error?: string;
+}
+
+// Result cache entry (persisted to the project directory, keyed by a hash of the request)
+export interface CachedResult {
+  key: string;
+  kind: JobKind;
+  result: string;  // Image data URL or generated text
+  createdAt: number;
+}
+
+export interface CacheResponse {
+  success: boolean;
+  entry?: CachedResult | null;
+  error?: string;
+}
+
+export interface JobRunResponse {
+  success: boolean;
+  run?: JobRun | null;
+  error?: string;
 }
 
 // Tool Types for annotation
-export type ToolType = "select" | "rectangle" | "circle" | "arrow" | "freehand" | "text";
+export type ToolType =
+  | "select"
+  | "rectangle"
+  | "circle"
+  | "arrow"
+  | "freehand"
+  | "text"
+  | "polygon"
+  | "highlighter"
+  | "region"
+  | "callout";
 
 // Tool Options
 export interface ToolOptions {
@@ -238,8 +547,15 @@ export interface ToolOptions {
   fillColor: string | null;
   fontSize: number;
   opacity: number;
+  maskBrushSize: number;
+  regionEffect: RegionEffect;
 }
 
+// Annotation editor layers - visible annotations, or the inpainting mask
+export type EditorLayer = "annotations" | "mask";
+
+export type MaskToolType = "brush" | "eraser" | "rectangle";
+
 // Auto-save configuration stored in localStorage
 export interface WorkflowSaveConfig {
   workflowId: string;
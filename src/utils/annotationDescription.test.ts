@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { AnnotationShape } from "@/types";
+import { DEFAULT_LAYER } from "@/utils/annotationLayers";
+import { describeAnnotations } from "@/utils/annotationDescription";
+
+const base = { strokeWidth: 3, opacity: 1 };
+
+const box = (id: string, x: number, y: number, stroke = "#ef4444", layerId?: string) =>
+  ({ ...base, id, type: "rectangle", layerId, x, y, width: 100, height: 80, stroke, fill: null }) as AnnotationShape;
+
+const text = (id: string, x: number, y: number, value: string) =>
+  ({ ...base, id, type: "text", x, y, text: value, fontSize: 20, stroke: "#ef4444", fill: "#ef4444" }) as AnnotationShape;
+
+describe("describeAnnotations", () => {
+  it("attaches text to the nearest shape and names its position and color", () => {
+    const description = describeAnnotations(
+      [box("sky", 20, 20), text("label", 130, 30, "make the\nsky purple"), box("car", 800, 600, "#3b82f6")],
+      undefined,
+      1000,
+      750
+    );
+
+    expect(description).toBe([
+      "Region 1 (top-left, red box): make the sky purple",
+      "Region 2 (bottom-right, blue box)",
+    ].join("\n"));
+  });
+
+  it("keeps callout numbers and lists far-away text as notes", () => {
+    const callout = { ...base, id: "c", type: "callout", x: 500, y: 375, number: 3, radius: 14, stroke: "#ef4444", fill: "#eab308" } as AnnotationShape;
+
+    expect(describeAnnotations([callout, text("note", 900, 700, "warmer light")], undefined, 1000, 750)).toBe([
+      "Callout 3 (center, yellow marker)",
+      "Note (bottom-right): warmer light",
+    ].join("\n"));
+  });
+
+  it("leaves out shapes on hidden layers", () => {
+    const hidden = { ...DEFAULT_LAYER, id: "layer-2", name: "Layer 2", visible: false };
+
+    expect(describeAnnotations([box("a", 20, 20, "#ef4444", "layer-2")], [DEFAULT_LAYER, hidden], 1000, 750)).toBe("");
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Annotation Descriptions
+ *
+ * Turns an Annotate node's shapes into text for its text output, so
+ * instructions written on the image also reach the model as words. Each text
+ * shape is attached to the nearest marked shape, giving lines such as
+ * "Region 1 (top-left, red box): make the sky purple". Callouts keep their own
+ * number, text that isn't near anything becomes a note, and shapes on hidden
+ * layers are left out, as they are from the image.
+ */
+
+import { AnnotationLayer, AnnotationShape } from "@/types";
+import { getAnnotationLayers, groupShapesByLayer } from "@/utils/annotationLayers";
+import { ShapeBounds, getShapeBounds } from "@/utils/annotationShapes";
+
+// Names for the editor's palette - other colors get the closest one
+const COLOR_NAMES: { name: string; rgb: [number, number, number] }[] = [
+  { name: "red", rgb: [239, 68, 68] },
+  { name: "orange", rgb: [249, 115, 22] },
+  { name: "yellow", rgb: [234, 179, 8] },
+  { name: "green", rgb: [34, 197, 94] },
+  { name: "blue", rgb: [59, 130, 246] },
+  { name: "purple", rgb: [139, 92, 246] },
+  { name: "pink", rgb: [236, 72, 153] },
+  { name: "black", rgb: [0, 0, 0] },
+  { name: "gray", rgb: [128, 128, 128] },
+  { name: "white", rgb: [255, 255, 255] },
+];
+
+// A marked shape with the text attached to it
+interface Mark {
+  shape: AnnotationShape;
+  bounds: ShapeBounds;
+  notes: string[];
+}
+
+// Text further than this from every shape is a standalone note, in font sizes
+const ATTACH_DISTANCE = 4;
+
+function getColorName(color: string): string {
+  const hex = color.replace("#", "");
+  const digits = hex.length === 3 ? [...hex].map((d) => d + d).join("") : hex.slice(0, 6);
+  if (!/^[0-9a-f]{6}$/i.test(digits)) return color;
+  const rgb = [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16));
+  const distance = (other: number[]) => other.reduce((sum, value, i) => sum + (value - rgb[i]) ** 2, 0);
+  return COLOR_NAMES.reduce((best, entry) => (distance(entry.rgb) < distance(best.rgb) ? entry : best)).name;
+}
+
+function describeShape(shape: AnnotationShape): string {
+  const color = getColorName(shape.type === "callout" ? shape.fill : shape.stroke);
+  switch (shape.type) {
+    case "rectangle":
+      return `${color} box`;
+    case "circle":
+      return `${color} circle`;
+    case "polygon":
+      return `${color} outline`;
+    case "arrow":
+      return `${color} arrow`;
+    case "freehand":
+      return `${color} scribble`;
+    case "highlighter":
+      return `${color} highlight`;
+    case "region":
+      return shape.effect === "blur" ? "blurred area" : "pixelated area";
+    case "callout":
+      return `${color} marker`;
+    case "text":
+      return `${color} text`;
+  }
+}
+
+// Where a shape points: an arrow's head, otherwise the middle of its box
+function getAnchor(shape: AnnotationShape, bounds: ShapeBounds) {
+  if (shape.type === "arrow" && shape.points.length >= 2) {
+    return { x: shape.x + shape.points[shape.points.length - 2], y: shape.y + shape.points[shape.points.length - 1] };
+  }
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
+
+// "top-left", "center", "bottom" etc. from a point's place in a 3x3 grid
+function describePosition(x: number, y: number, width: number, height: number): string {
+  const column = ["left", "", "right"][Math.min(2, Math.max(0, Math.floor((x / width) * 3)))];
+  const row = ["top", "", "bottom"][Math.min(2, Math.max(0, Math.floor((y / height) * 3)))];
+  return [row, column].filter(Boolean).join("-") || "center";
+}
+
+// Gap between two boxes, zero if they overlap
+function getGap(a: ShapeBounds, b: ShapeBounds): number {
+  const dx = Math.max(0, a.x - (b.x + b.width), b.x - (a.x + a.width));
+  const dy = Math.max(0, a.y - (b.y + b.height), b.y - (a.y + a.height));
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Describes the visible annotations on an image of the given size, one line
+ * per marked shape followed by unattached notes. Empty when nothing is drawn.
+ */
+export function describeAnnotations(
+  annotations: AnnotationShape[],
+  layers: AnnotationLayer[] | undefined,
+  imageWidth: number,
+  imageHeight: number
+): string {
+  const shapes = groupShapesByLayer(annotations, getAnnotationLayers(layers))
+    .filter(({ layer }) => layer.visible)
+    .flatMap(({ shapes }) => shapes);
+
+  const marks: Mark[] = shapes
+    .filter((shape) => shape.type !== "text")
+    .map((shape) => ({ shape, bounds: getShapeBounds(shape), notes: [] }));
+  const looseNotes: { text: string; bounds: ShapeBounds }[] = [];
+
+  shapes.forEach((shape) => {
+    if (shape.type !== "text" || !shape.text.trim()) return;
+    const bounds = getShapeBounds(shape);
+    const text = shape.text.trim().replace(/\s*\n\s*/g, " ");
+
+    const { mark } = marks.reduce<{ mark: Mark | null; gap: number }>(
+      (nearest, candidate) => {
+        const gap = getGap(bounds, candidate.bounds);
+        return gap <= nearest.gap ? { mark: candidate, gap } : nearest;
+      },
+      { mark: null, gap: shape.fontSize * ATTACH_DISTANCE }
+    );
+
+    if (mark) mark.notes.push(text);
+    else looseNotes.push({ text, bounds });
+  });
+
+  let region = 0;
+  const lines = marks.map(({ shape, bounds, notes }) => {
+    const anchor = getAnchor(shape, bounds);
+    const label = shape.type === "callout" ? `Callout ${shape.number}` : `Region ${++region}`;
+    const details = `${describePosition(anchor.x, anchor.y, imageWidth, imageHeight)}, ${describeShape(shape)}`;
+    return notes.length > 0 ? `${label} (${details}): ${notes.join("; ")}` : `${label} (${details})`;
+  });
+
+  looseNotes.forEach(({ text, bounds }) => {
+    const position = describePosition(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2, imageWidth, imageHeight);
+    lines.push(`Note (${position}): ${text}`);
+  });
+
+  return lines.join("\n");
+}
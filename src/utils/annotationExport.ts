@@ -0,0 +1,219 @@
+/**
+ * Annotation Export
+ *
+ * Renders an Annotate node's outputs in the browser with Konva: the composite
+ * image, the transparent overlay, one image per layer and the inpainting mask.
+ * The node's export settings scale the outputs down from the source image's
+ * size and pick the image format, so large sources don't turn into huge data
+ * URLs on their way to the providers.
+ */
+
+import Konva from "konva";
+import {
+  AnnotationExportSettings,
+  AnnotationLayer,
+  AnnotationNodeData,
+  AnnotationShape,
+  CalloutShape,
+  ExportFormat,
+  MaskStroke,
+  RegionShape,
+} from "@/types";
+import { getExportPixelRatio } from "@/utils/annotationExportSettings";
+import { groupShapesByLayer } from "@/utils/annotationLayers";
+import { getCalloutFontSize, getCalloutTextColor, getRegionSource } from "@/utils/annotationShapes";
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+  });
+}
+
+// Draws onto an offscreen stage at the image's size and encodes it
+function renderStage(
+  image: HTMLImageElement,
+  pixelRatio: number,
+  format: ExportFormat,
+  quality: number,
+  draw: (layer: Konva.Layer) => void
+): string {
+  const tempStage = new Konva.Stage({
+    container: document.createElement("div"),
+    width: image.width,
+    height: image.height,
+  });
+
+  const tempLayer = new Konva.Layer();
+  tempStage.add(tempLayer);
+  draw(tempLayer);
+  tempLayer.draw();
+
+  const dataUrl = tempStage.toDataURL({ pixelRatio, mimeType: MIME_TYPES[format], quality });
+  tempStage.destroy();
+  return dataUrl;
+}
+
+/**
+ * Encodes an image with the export settings and nothing drawn on it, for
+ * Annotate nodes that pass their input straight through.
+ */
+export function renderExportedImage(image: HTMLImageElement, settings: AnnotationExportSettings): string {
+  const pixelRatio = getExportPixelRatio(image.width, image.height, settings);
+  return renderStage(image, pixelRatio, settings.format, settings.quality, (tempLayer) => {
+    tempLayer.add(new Konva.Image({ image, width: image.width, height: image.height }));
+  });
+}
+
+/**
+ * Draws a previously exported overlay over a new source image and encodes the
+ * result with the export settings. The overlay is stretched to the image.
+ */
+export function renderFlattenedImage(
+  image: HTMLImageElement,
+  overlay: HTMLImageElement,
+  settings: AnnotationExportSettings
+): string {
+  const pixelRatio = getExportPixelRatio(image.width, image.height, settings);
+  return renderStage(image, pixelRatio, settings.format, settings.quality, (tempLayer) => {
+    tempLayer.add(new Konva.Image({ image, width: image.width, height: image.height }));
+    tempLayer.add(new Konva.Image({ image: overlay, width: image.width, height: image.height }));
+  });
+}
+
+// Blurred or pixelated copy of the image under a region, clipped to the region
+function createRegionNode(region: RegionShape, image: HTMLImageElement): Konva.Group {
+  const group = new Konva.Group({
+    x: region.x,
+    y: region.y,
+    opacity: region.opacity,
+    clip: { x: 0, y: 0, width: region.width, height: region.height },
+  });
+  const source = getRegionSource(region, image.width, image.height);
+  if (source.width === 0 || source.height === 0) return group;
+
+  const patch = new Konva.Image({
+    image,
+    x: source.x - region.x,
+    y: source.y - region.y,
+    width: source.width,
+    height: source.height,
+    crop: source,
+    filters: [region.effect === "blur" ? Konva.Filters.Blur : Konva.Filters.Pixelate],
+    blurRadius: region.strength,
+    pixelSize: region.strength,
+  });
+  group.add(patch);
+  patch.cache();
+  return group;
+}
+
+function createCalloutNode(callout: CalloutShape): Konva.Group {
+  const group = new Konva.Group({ x: callout.x, y: callout.y, opacity: callout.opacity });
+  group.add(new Konva.Circle({ radius: callout.radius, fill: callout.fill }));
+  group.add(new Konva.Text({
+    x: -callout.radius,
+    y: -callout.radius,
+    width: callout.radius * 2,
+    height: callout.radius * 2,
+    text: String(callout.number),
+    fontSize: getCalloutFontSize(callout),
+    fontStyle: "bold",
+    align: "center",
+    verticalAlign: "middle",
+    fill: getCalloutTextColor(callout.fill),
+  }));
+  return group;
+}
+
+function createKonvaNode(shape: AnnotationShape, image: HTMLImageElement): Konva.Shape | Konva.Group | null {
+  switch (shape.type) {
+    case "rectangle":
+      return new Konva.Rect({ x: shape.x, y: shape.y, width: shape.width, height: shape.height, stroke: shape.stroke, strokeWidth: shape.strokeWidth, fill: shape.fill || undefined, opacity: shape.opacity });
+    case "circle":
+      return new Konva.Ellipse({ x: shape.x, y: shape.y, radiusX: shape.radiusX, radiusY: shape.radiusY, stroke: shape.stroke, strokeWidth: shape.strokeWidth, fill: shape.fill || undefined, opacity: shape.opacity });
+    case "arrow":
+      return new Konva.Arrow({ x: shape.x, y: shape.y, points: shape.points, stroke: shape.stroke, strokeWidth: shape.strokeWidth, fill: shape.stroke, opacity: shape.opacity });
+    case "freehand":
+    case "highlighter":
+      return new Konva.Line({ x: shape.x, y: shape.y, points: shape.points, stroke: shape.stroke, strokeWidth: shape.strokeWidth, opacity: shape.opacity, lineCap: "round", lineJoin: "round" });
+    case "text":
+      return new Konva.Text({ x: shape.x, y: shape.y, text: shape.text, fontSize: shape.fontSize, fill: shape.fill, opacity: shape.opacity });
+    case "polygon":
+      return new Konva.Line({ x: shape.x, y: shape.y, points: shape.points, closed: true, stroke: shape.stroke, strokeWidth: shape.strokeWidth, fill: shape.fill || undefined, opacity: shape.opacity, lineJoin: "round" });
+    case "region":
+      return createRegionNode(shape, image);
+    case "callout":
+      return createCalloutNode(shape);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Renders an Annotate node's outputs from its source image. The composite,
+ * overlay and layer images are encoded in the chosen format (the overlay
+ * falls back to PNG for JPEG, which has no transparency). The mask is always
+ * PNG so it stays exactly black and white, at the same size as the image.
+ */
+export function renderAnnotationOutputs(
+  image: HTMLImageElement,
+  annotations: AnnotationShape[],
+  layers: AnnotationLayer[],
+  maskStrokes: MaskStroke[],
+  settings: AnnotationExportSettings
+): Pick<AnnotationNodeData, "outputImage" | "outputOverlay" | "layerImages" | "outputMask"> {
+  const pixelRatio = getExportPixelRatio(image.width, image.height, settings);
+  const groups = groupShapesByLayer(annotations, layers);
+
+  // Layers over the image or on a transparent background
+  const renderLayers = (layerIds: string[], withImage: boolean, format: ExportFormat) =>
+    renderStage(image, pixelRatio, format, settings.quality, (tempLayer) => {
+      if (withImage) {
+        tempLayer.add(new Konva.Image({ image, width: image.width, height: image.height }));
+      }
+      groups
+        .filter(({ layer }) => layerIds.includes(layer.id))
+        .forEach(({ layer, shapes }) => {
+          // Grouped so the layer's opacity applies to its shapes as a whole
+          const group = new Konva.Group({ opacity: layer.opacity });
+          tempLayer.add(group);
+          shapes.forEach((shape) => {
+            const konvaNode = createKonvaNode(shape, image);
+            if (konvaNode) group.add(konvaNode);
+          });
+        });
+    });
+
+  const renderMask = () =>
+    renderStage(image, pixelRatio, "png", 1, (tempLayer) => {
+      tempLayer.add(new Konva.Rect({ x: 0, y: 0, width: image.width, height: image.height, fill: "#000000" }));
+      maskStrokes.forEach((stroke) => {
+        if (stroke.type === "rect") {
+          tempLayer.add(new Konva.Rect({ x: stroke.x, y: stroke.y, width: stroke.width, height: stroke.height, fill: "#ffffff" }));
+        } else {
+          // Erasing paints the background color back
+          tempLayer.add(new Konva.Line({ points: stroke.points, stroke: stroke.erase ? "#000000" : "#ffffff", strokeWidth: stroke.strokeWidth, lineCap: "round", lineJoin: "round" }));
+        }
+      });
+    });
+
+  const visibleIds = layers.filter((layer) => layer.visible).map((layer) => layer.id);
+  return {
+    outputImage: renderLayers(visibleIds, true, settings.format),
+    outputOverlay: renderLayers(visibleIds, false, settings.format === "jpeg" ? "png" : settings.format),
+    // Single layers get their own output once there's more than one
+    layerImages: layers.length > 1
+      ? Object.fromEntries(layers.map((layer) => [layer.id, renderLayers([layer.id], true, settings.format)]))
+      : null,
+    outputMask: maskStrokes.length > 0 ? renderMask() : null,
+  };
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXPORT_SETTINGS, getExportPixelRatio } from "@/utils/annotationExportSettings";
+
+describe("getExportPixelRatio", () => {
+  it("applies the scale, then caps the longer side", () => {
+    expect(getExportPixelRatio(4000, 2000, { ...DEFAULT_EXPORT_SETTINGS, scale: 0.75 })).toBe(0.75);
+    expect(getExportPixelRatio(4000, 2000, { ...DEFAULT_EXPORT_SETTINGS, scale: 0.75, maxDimension: 1000 })).toBe(0.25);
+    expect(getExportPixelRatio(1000, 4000, { ...DEFAULT_EXPORT_SETTINGS, maxDimension: 2048 })).toBe(0.512);
+  });
+
+  it("never enlarges", () => {
+    expect(getExportPixelRatio(500, 300, { ...DEFAULT_EXPORT_SETTINGS, maxDimension: 4096 })).toBe(1);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Annotation Export Settings
+ *
+ * Choices and size math for how an Annotate node's outputs are encoded. Kept
+ * apart from the Konva renderer so the server can apply the same settings.
+ */
+
+import { AnnotationExportSettings, ExportFormat } from "@/types";
+
+export const DEFAULT_EXPORT_SETTINGS: AnnotationExportSettings = {
+  scale: 1,
+  maxDimension: null,
+  format: "png",
+  quality: 0.92,
+};
+
+export const EXPORT_SCALES = [1, 0.75, 0.5, 0.25];
+
+export const EXPORT_MAX_DIMENSIONS = [4096, 2048, 1536, 1024];
+
+export const EXPORT_QUALITIES = [1, 0.92, 0.85, 0.75, 0.6];
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: "png", label: "PNG" },
+  { id: "jpeg", label: "JPEG" },
+  { id: "webp", label: "WebP" },
+];
+
+export const getExportSettings = (settings: AnnotationExportSettings | undefined): AnnotationExportSettings =>
+  settings ?? DEFAULT_EXPORT_SETTINGS;
+
+/**
+ * Ratio between output and source pixels: the scale, reduced further if the
+ * longer side would exceed the max dimension. Never enlarges the image.
+ */
+export function getExportPixelRatio(width: number, height: number, settings: AnnotationExportSettings): number {
+  const cap = settings.maxDimension ? settings.maxDimension / Math.max(width, height) : 1;
+  return Math.min(1, settings.scale, cap);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { AnnotationShape } from "@/types";
+import { DEFAULT_LAYER, createLayer, getLayerHandleId, getLayerIdFromHandle, groupShapesByLayer } from "@/utils/annotationLayers";
+
+const rect = (id: string, layerId?: string) =>
+  ({ id, type: "rectangle", layerId, x: 0, y: 0, width: 10, height: 10, stroke: "#000", strokeWidth: 2, opacity: 1, fill: null }) as AnnotationShape;
+
+describe("groupShapesByLayer", () => {
+  it("groups shapes bottom layer first and puts unknown layers on the bottom", () => {
+    const top = createLayer([DEFAULT_LAYER]);
+
+    const groups = groupShapesByLayer([rect("a", top.id), rect("b"), rect("c", "deleted")], [DEFAULT_LAYER, top]);
+
+    expect(groups.map(({ layer, shapes }) => [layer.id, shapes.map((s) => s.id)])).toEqual([
+      ["layer-1", ["b", "c"]],
+      ["layer-2", ["a"]],
+    ]);
+  });
+});
+
+describe("layer handles", () => {
+  it("round-trips layer IDs and ignores other handles", () => {
+    expect(getLayerIdFromHandle(getLayerHandleId("layer-3"))).toBe("layer-3");
+    expect(getLayerIdFromHandle("overlay")).toBeNull();
+    expect(getLayerIdFromHandle(null)).toBeNull();
+  });
+});
+
+describe("createLayer", () => {
+  it("picks the next free name", () => {
+    expect(createLayer([DEFAULT_LAYER, { ...DEFAULT_LAYER, id: "layer-3" }])).toMatchObject({ id: "layer-4", name: "Layer 4" });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { AnnotationShape, CalloutShape, RegionShape } from "@/types";
+import { getCalloutTextColor, getNextCalloutNumber, getRegionSource, getShapeBounds } from "@/utils/annotationShapes";
+
+const base = { stroke: "#ef4444", strokeWidth: 4, opacity: 1 };
+
+const callout = (id: string, number: number): CalloutShape =>
+  ({ ...base, id, type: "callout", x: 50, y: 50, number, radius: 16, fill: "#ef4444" });
+
+const region = (effect: RegionShape["effect"]): RegionShape =>
+  ({ ...base, id: "region", type: "region", x: 5, y: 5, width: 20, height: 10, effect, strength: 12 });
+
+describe("getNextCalloutNumber", () => {
+  it("counts up from the highest callout, even after one is deleted", () => {
+    expect(getNextCalloutNumber([])).toBe(1);
+    expect(getNextCalloutNumber([callout("a", 1), callout("c", 3)])).toBe(4);
+  });
+});
+
+describe("getCalloutTextColor", () => {
+  it("picks black on light fills and white on dark ones", () => {
+    expect(getCalloutTextColor("#facc15")).toBe("#000000");
+    expect(getCalloutTextColor("#fff")).toBe("#000000");
+    expect(getCalloutTextColor("#1e3a8a")).toBe("#ffffff");
+  });
+});
+
+describe("getRegionSource", () => {
+  it("pads blurred regions by the blur radius, clamped to the image", () => {
+    expect(getRegionSource(region("blur"), 30, 100)).toEqual({ x: 0, y: 0, width: 30, height: 27 });
+    expect(getRegionSource(region("pixelate"), 30, 100)).toEqual({ x: 5, y: 5, width: 20, height: 10 });
+  });
+});
+
+describe("getShapeBounds", () => {
+  it("normalizes rectangles drawn up and to the left", () => {
+    const rect = { ...base, id: "r", type: "rectangle", x: 40, y: 30, width: -20, height: -10, fill: null } as AnnotationShape;
+    expect(getShapeBounds(rect)).toEqual({ x: 20, y: 20, width: 20, height: 10 });
+  });
+
+  it("covers polygon and highlighter points plus half the stroke", () => {
+    const polygon = { ...base, id: "p", type: "polygon", x: 10, y: 10, points: [0, 0, 20, 0, 10, 30], fill: null } as AnnotationShape;
+    expect(getShapeBounds(polygon)).toEqual({ x: 8, y: 8, width: 24, height: 34 });
+
+    const highlighter = { ...base, id: "h", type: "highlighter", x: 0, y: 0, strokeWidth: 20, points: [10, 50, 90, 50] } as AnnotationShape;
+    expect(getShapeBounds(highlighter)).toEqual({ x: 0, y: 40, width: 100, height: 20 });
+  });
+
+  it("centers callouts on their position", () => {
+    expect(getShapeBounds(callout("a", 1))).toEqual({ x: 34, y: 34, width: 32, height: 32 });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Annotation Shape Helpers
+ *
+ * Sizes and geometry shared by the annotation editor and the browser export,
+ * so the newer shape types render the same way in both, plus the shape
+ * bounds used to describe annotations in text.
+ */
+
+import { AnnotationShape, CalloutShape, RegionEffect, RegionShape } from "@/types";
+
+// Highlighter strokes are this many times the selected stroke width
+export const HIGHLIGHTER_WIDTH_SCALE = 5;
+
+export const HIGHLIGHTER_OPACITY = 0.4;
+
+// Blur radius and pixel block size of new regions, in image pixels
+export const REGION_STRENGTH: Record<RegionEffect, number> = {
+  blur: 12,
+  pixelate: 16,
+};
+
+// Callout markers grow with the selected stroke width
+export const getCalloutRadius = (strokeWidth: number) => 8 + strokeWidth * 2;
+
+export const getCalloutFontSize = (callout: CalloutShape) => Math.round(callout.radius * 1.1);
+
+// Numbers keep counting up, so deleting a callout doesn't renumber the others
+export const getNextCalloutNumber = (annotations: AnnotationShape[]) =>
+  annotations.reduce((max, shape) => (shape.type === "callout" ? Math.max(max, shape.number) : max), 0) + 1;
+
+// Black or white, whichever reads better on a hex fill color
+export function getCalloutTextColor(fill: string): string {
+  const hex = fill.replace("#", "");
+  const digits = hex.length === 3 ? [...hex].map((d) => d + d).join("") : hex.slice(0, 6);
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) || 0);
+  return 0.299 * r + 0.587 * g + 0.114 * b > 160 ? "#000000" : "#ffffff";
+}
+
+/**
+ * Part of the source image a region samples: the region itself, plus the
+ * blur radius around it so blurred edges don't fade out. Clamped to the image.
+ */
+export function getRegionSource(region: RegionShape, imageWidth: number, imageHeight: number) {
+  const padding = region.effect === "blur" ? region.strength : 0;
+  const x = Math.max(0, Math.floor(region.x - padding));
+  const y = Math.max(0, Math.floor(region.y - padding));
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(imageWidth, Math.ceil(region.x + region.width + padding)) - x),
+    height: Math.max(0, Math.min(imageHeight, Math.ceil(region.y + region.height + padding)) - y),
+  };
+}
+
+export interface ShapeBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Approximate width of a text character relative to its font size
+const TEXT_CHAR_WIDTH = 0.55;
+
+const boundsOfPoints = (offsetX: number, offsetY: number, points: number[], padding: number): ShapeBounds => {
+  const xs = points.filter((_, i) => i % 2 === 0).map((x) => offsetX + x);
+  const ys = points.filter((_, i) => i % 2 === 1).map((y) => offsetY + y);
+  const left = Math.min(...xs) - padding;
+  const top = Math.min(...ys) - padding;
+  return { x: left, y: top, width: Math.max(...xs) + padding - left, height: Math.max(...ys) + padding - top };
+};
+
+// Box a shape covers in image pixels (text boxes are estimated from the font size)
+export function getShapeBounds(shape: AnnotationShape): ShapeBounds {
+  switch (shape.type) {
+    case "rectangle":
+    case "region":
+      return {
+        x: Math.min(shape.x, shape.x + shape.width),
+        y: Math.min(shape.y, shape.y + shape.height),
+        width: Math.abs(shape.width),
+        height: Math.abs(shape.height),
+      };
+    case "circle":
+      return {
+        x: shape.x - Math.abs(shape.radiusX),
+        y: shape.y - Math.abs(shape.radiusY),
+        width: Math.abs(shape.radiusX) * 2,
+        height: Math.abs(shape.radiusY) * 2,
+      };
+    case "callout":
+      return { x: shape.x - shape.radius, y: shape.y - shape.radius, width: shape.radius * 2, height: shape.radius * 2 };
+    case "text": {
+      const lines = shape.text.split("\n");
+      return {
+        x: shape.x,
+        y: shape.y,
+        width: Math.max(...lines.map((line) => line.length)) * shape.fontSize * TEXT_CHAR_WIDTH,
+        height: lines.length * shape.fontSize,
+      };
+    }
+    default:
+      return shape.points.length >= 2
+        ? boundsOfPoints(shape.x, shape.y, shape.points, shape.strokeWidth / 2)
+        : { x: shape.x, y: shape.y, width: 0, height: 0 };
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildJudgePrompt,
+  ConditionRule,
+  evaluateCondition,
+  getJsonField,
+  JUDGE_INSTRUCTION,
+  parseJudgeAnswer,
+} from "@/utils/conditionRules";
+
+const rule = (overrides: Partial<ConditionRule>): ConditionRule => ({
+  mode: "contains",
+  pattern: "",
+  caseSensitive: false,
+  jsonPath: "",
+  operator: "exists",
+  compareValue: "",
+  ...overrides,
+});
+
+describe("getJsonField", () => {
+  it("follows dotted paths and array indexes", () => {
+    const value = { scores: [{ value: 7 }], meta: { tags: ["fox"] } };
+    expect(getJsonField(value, "scores[0].value")).toBe(7);
+    expect(getJsonField(value, "meta.tags.0")).toBe("fox");
+    expect(getJsonField(value, "")).toBe(value);
+  });
+
+  it("returns undefined for missing steps", () => {
+    expect(getJsonField({ a: null }, "a.b")).toBeUndefined();
+    expect(getJsonField({ a: 1 }, "b[2]")).toBeUndefined();
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("matches contains rules with and without case sensitivity", () => {
+    expect(evaluateCondition("A Red Fox", rule({ pattern: "red fox" }))).toBe(true);
+    expect(evaluateCondition("A Red Fox", rule({ pattern: "red fox", caseSensitive: true }))).toBe(false);
+  });
+
+  it("matches regex rules and rejects invalid patterns", () => {
+    expect(evaluateCondition("score: 8/10", rule({ mode: "regex", pattern: "\\d+/10" }))).toBe(true);
+    expect(evaluateCondition("FOX", rule({ mode: "regex", pattern: "^fox$", caseSensitive: true }))).toBe(false);
+    expect(() => evaluateCondition("fox", rule({ mode: "regex", pattern: "(" }))).toThrow("Invalid regular expression");
+  });
+
+  it("compares JSON fields", () => {
+    const text = JSON.stringify({ verdict: "pass", score: 7, tags: ["a"] });
+    const json = (overrides: Partial<ConditionRule>) => evaluateCondition(text, rule({ mode: "json", ...overrides }));
+
+    expect(json({ jsonPath: "verdict", operator: "exists" })).toBe(true);
+    expect(json({ jsonPath: "missing", operator: "exists" })).toBe(false);
+    expect(json({ jsonPath: "verdict", operator: "equals", compareValue: "pass" })).toBe(true);
+    expect(json({ jsonPath: "tags", operator: "equals", compareValue: '["a"]' })).toBe(true);
+    expect(json({ jsonPath: "missing", operator: "notEquals", compareValue: "pass" })).toBe(true);
+    expect(json({ jsonPath: "score", operator: "greaterThan", compareValue: "5" })).toBe(true);
+    expect(json({ jsonPath: "score", operator: "lessThan", compareValue: "5" })).toBe(false);
+  });
+
+  it("explains JSON rules that can't be evaluated", () => {
+    const json = (text: string, overrides: Partial<ConditionRule>) =>
+      () => evaluateCondition(text, rule({ mode: "json", ...overrides }));
+
+    expect(json("not json", { jsonPath: "a" })).toThrow("Input is not valid JSON");
+    expect(json('{"a":"high"}', { jsonPath: "a", operator: "greaterThan", compareValue: "1" })).toThrow('Field "a" is not a number');
+    expect(json('{"a":1}', { jsonPath: "a", operator: "lessThan", compareValue: "" })).toThrow("Compare value is not a number");
+  });
+
+  it("refuses to evaluate LLM rules locally", () => {
+    expect(() => evaluateCondition("fox", rule({ mode: "llm" }))).toThrow("must be evaluated by a model");
+  });
+});
+
+describe("judge prompts", () => {
+  it("puts the instruction, question and text in the prompt", () => {
+    const prompt = buildJudgePrompt("Is it a fox?", "a red fox");
+    expect(prompt.startsWith(JUDGE_INSTRUCTION)).toBe(true);
+    expect(prompt).toContain("Question: Is it a fox?");
+    expect(prompt.endsWith("Text:\na red fox")).toBe(true);
+  });
+
+  it("reads yes and no answers", () => {
+    expect(parseJudgeAnswer("Yes.")).toBe(true);
+    expect(parseJudgeAnswer("  **no**")).toBe(false);
+    expect(() => parseJudgeAnswer("Maybe")).toThrow('Expected a yes or no answer, got "Maybe"');
+  });
+});
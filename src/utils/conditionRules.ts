@@ -0,0 +1,119 @@
+/**
+ * Condition Rules
+ *
+ * Evaluates a condition node's rule against its input text. Regex, contains
+ * and JSON field rules are evaluated locally; LLM rules ask a model a yes/no
+ * question built by buildJudgePrompt and read the answer with parseJudgeAnswer.
+ */
+
+import { ConditionNodeData } from "@/types";
+
+export type ConditionRule = Pick<
+  ConditionNodeData,
+  "mode" | "pattern" | "caseSensitive" | "jsonPath" | "operator" | "compareValue"
+>;
+
+// Split "a.b[0].c" into ["a", "b", "0", "c"]
+const parsePath = (path: string): string[] =>
+  path
+    .replace(/\[(\w+)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean);
+
+// Read a field from parsed JSON (undefined when any step is missing)
+export function getJsonField(value: unknown, path: string): unknown {
+  return parsePath(path).reduce<unknown>((current, key) => {
+    if (current === null || typeof current !== "object") return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, value);
+}
+
+const toComparable = (value: unknown) =>
+  typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+
+const toNumber = (value: unknown, label: string) => {
+  const number = typeof value === "number" ? value : Number(value);
+  if (typeof value === "boolean" || value === null || value === "" || isNaN(number)) {
+    throw new Error(`${label} is not a number`);
+  }
+  return number;
+};
+
+function evaluateJsonRule(text: string, rule: ConditionRule): boolean {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Input is not valid JSON");
+  }
+
+  const field = getJsonField(parsed, rule.jsonPath);
+  const fieldLabel = `Field "${rule.jsonPath || "(root)"}"`;
+
+  switch (rule.operator) {
+    case "exists":
+      return field !== undefined;
+    case "equals":
+      return field !== undefined && toComparable(field) === rule.compareValue;
+    case "notEquals":
+      return field === undefined || toComparable(field) !== rule.compareValue;
+    case "greaterThan":
+      return toNumber(field, fieldLabel) > toNumber(rule.compareValue, "Compare value");
+    case "lessThan":
+      return toNumber(field, fieldLabel) < toNumber(rule.compareValue, "Compare value");
+  }
+}
+
+/**
+ * Evaluates a regex, contains or JSON rule. Throws an Error with a
+ * user-facing message for an invalid pattern or input. LLM rules can't be
+ * evaluated locally and throw as well.
+ */
+export function evaluateCondition(text: string, rule: ConditionRule): boolean {
+  switch (rule.mode) {
+    case "regex": {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(rule.pattern, rule.caseSensitive ? "" : "i");
+      } catch {
+        throw new Error("Invalid regular expression");
+      }
+      return regex.test(text);
+    }
+    case "contains":
+      return rule.caseSensitive
+        ? text.includes(rule.pattern)
+        : text.toLowerCase().includes(rule.pattern.toLowerCase());
+    case "json":
+      return evaluateJsonRule(text, rule);
+    case "llm":
+      throw new Error("LLM conditions must be evaluated by a model");
+  }
+}
+
+// First line of every judge prompt
+export const JUDGE_INSTRUCTION = "Answer the question about the text below with a single word: yes or no.";
+
+/**
+ * Builds the prompt asking a model to answer a yes/no question about the input.
+ */
+export function buildJudgePrompt(question: string, text: string): string {
+  return [
+    JUDGE_INSTRUCTION,
+    "",
+    `Question: ${question}`,
+    "",
+    "Text:",
+    text,
+  ].join("\n");
+}
+
+/**
+ * Reads a model's yes/no answer. Throws if the answer is neither.
+ */
+export function parseJudgeAnswer(answer: string): boolean {
+  const normalized = answer.trim().toLowerCase().replace(/^[^a-z]+/, "");
+  if (normalized.startsWith("yes")) return true;
+  if (normalized.startsWith("no")) return false;
+  throw new Error(`Expected a yes or no answer, got "${answer.trim().slice(0, 40)}"`);
+}
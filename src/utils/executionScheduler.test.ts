@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { runScheduled, SchedulerOptions } from "@/utils/executionScheduler";
+
+// Resolves once the test calls the returned release function
+const deferred = () => {
+  let release!: (success: boolean) => void;
+  const promise = new Promise<boolean>((resolve) => (release = resolve));
+  return { promise, release };
+};
+
+const schedule = (options: Partial<SchedulerOptions> & Pick<SchedulerOptions, "nodeIds">) =>
+  runScheduled({
+    dependencies: new Map(),
+    getConcurrencyKey: () => null,
+    concurrencyLimits: {},
+    canStart: () => true,
+    runNode: async () => true,
+    ...options,
+  });
+
+describe("runScheduled", () => {
+  it("runs nodes after their dependencies", async () => {
+    const order: string[] = [];
+    const result = await schedule({
+      nodeIds: ["a", "b", "c"],
+      dependencies: new Map([["b", ["a"]], ["c", ["b"]]]),
+      runNode: async (nodeId) => {
+        order.push(nodeId);
+        return true;
+      },
+    });
+
+    expect(order).toEqual(["a", "b", "c"]);
+    expect([...result.completed]).toEqual(["a", "b", "c"]);
+    expect(result.halted).toBe(false);
+  });
+
+  it("starts independent nodes without waiting for each other", async () => {
+    const started: string[] = [];
+    const a = deferred();
+    const run = schedule({
+      nodeIds: ["a", "b"],
+      runNode: (nodeId) => {
+        started.push(nodeId);
+        return nodeId === "a" ? a.promise : Promise.resolve(true);
+      },
+    });
+
+    expect(started).toEqual(["a", "b"]);
+    a.release(true);
+    expect((await run).halted).toBe(false);
+  });
+
+  it("limits how many nodes per concurrency key are in flight", async () => {
+    const inFlight = new Set<string>();
+    let maxInFlight = 0;
+    await schedule({
+      nodeIds: ["a", "b", "c", "d"],
+      getConcurrencyKey: () => "google",
+      concurrencyLimits: { google: 2 },
+      runNode: async (nodeId) => {
+        inFlight.add(nodeId);
+        maxInFlight = Math.max(maxInFlight, inFlight.size);
+        await Promise.resolve();
+        inFlight.delete(nodeId);
+        return true;
+      },
+    });
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("stops starting nodes after a failure but lets running ones finish", async () => {
+    const b = deferred();
+    const ran: string[] = [];
+    const run = schedule({
+      nodeIds: ["a", "b", "c"],
+      dependencies: new Map([["c", ["a"]]]),
+      runNode: async (nodeId) => {
+        ran.push(nodeId);
+        if (nodeId === "a") throw new Error("failed");
+        return nodeId === "b" ? b.promise : true;
+      },
+    });
+
+    await Promise.resolve();
+    b.release(true);
+    const result = await run;
+
+    expect(ran).toEqual(["a", "b"]);
+    expect(result.completed.has("b")).toBe(true);
+    expect(result.halted).toBe(true);
+  });
+
+  it("holds back a refused node and its descendants while other branches run", async () => {
+    const ran: string[] = [];
+    const result = await schedule({
+      nodeIds: ["a", "b", "c", "d"],
+      dependencies: new Map([["b", ["a"]], ["d", ["c"]]]),
+      canStart: (nodeId) => nodeId !== "a",
+      runNode: async (nodeId) => {
+        ran.push(nodeId);
+        return true;
+      },
+    });
+
+    expect(ran).toEqual(["c", "d"]);
+    expect([...result.held]).toEqual(["a"]);
+    expect(result.halted).toBe(true);
+  });
+
+  it("ignores dependencies outside the scheduled nodes", async () => {
+    const result = await schedule({
+      nodeIds: ["b"],
+      dependencies: new Map([["b", ["a"]]]),
+    });
+
+    expect([...result.completed]).toEqual(["b"]);
+  });
+});
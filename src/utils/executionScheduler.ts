@@ -0,0 +1,111 @@
+/**
+ * Execution Scheduler
+ *
+ * Runs workflow nodes as soon as every upstream dependency has completed,
+ * so independent branches (e.g. a Split Grid fan-out) execute concurrently.
+ *
+ * Nodes that call a remote provider are grouped under a concurrency key
+ * (e.g. "google", "openai") and each key has its own limit on how many
+ * nodes may be in flight at once.
+ */
+
+export interface SchedulerOptions {
+  // Node IDs to execute, in topological order (used as the start priority)
+  nodeIds: string[];
+  // Upstream node IDs each node must wait for (IDs outside nodeIds are ignored)
+  dependencies: Map<string, string[]>;
+  // Concurrency key for a node, or null if it is not rate limited
+  getConcurrencyKey: (nodeId: string) => string | null;
+  concurrencyLimits: Record<string, number>;
+  // Called before a node starts - return false to hold it back (its descendants wait with it)
+  canStart: (nodeId: string) => boolean;
+  // Executes a node - resolve false (or throw) to stop scheduling new nodes
+  runNode: (nodeId: string) => Promise<boolean>;
+}
+
+export interface SchedulerResult {
+  completed: Set<string>;
+  // Nodes canStart held back
+  held: Set<string>;
+  halted: boolean;
+}
+
+/**
+ * Executes nodes in dependency order with per-key concurrency limits.
+ * When a node fails, no new nodes are started, but nodes already in flight
+ * are allowed to finish before resolving. A node canStart refuses is held
+ * back with everything downstream of it, and independent branches carry on.
+ */
+export function runScheduled({
+  nodeIds,
+  dependencies,
+  getConcurrencyKey,
+  concurrencyLimits,
+  canStart,
+  runNode,
+}: SchedulerOptions): Promise<SchedulerResult> {
+  const scheduled = new Set(nodeIds);
+  const pending = [...nodeIds];
+  const completed = new Set<string>();
+  const running = new Set<string>();
+  const held = new Set<string>();
+  const activeByKey: Record<string, number> = {};
+  let halted = false;
+
+  const isReady = (nodeId: string) =>
+    (dependencies.get(nodeId) || []).every(
+      (dep) => !scheduled.has(dep) || completed.has(dep)
+    );
+
+  const hasCapacity = (key: string | null) => {
+    if (key === null) return true;
+    const limit = concurrencyLimits[key];
+    if (!limit || limit < 1) return true;
+    return (activeByKey[key] || 0) < limit;
+  };
+
+  return new Promise((resolve) => {
+    const pump = () => {
+      if (!halted) {
+        for (let i = 0; i < pending.length; i++) {
+          const nodeId = pending[i];
+          if (!isReady(nodeId)) continue;
+
+          const key = getConcurrencyKey(nodeId);
+          if (!hasCapacity(key)) continue;
+
+          pending.splice(i, 1);
+          i--;
+
+          // Never completes, so its descendants are never ready
+          if (!canStart(nodeId)) {
+            held.add(nodeId);
+            continue;
+          }
+
+          running.add(nodeId);
+          if (key !== null) activeByKey[key] = (activeByKey[key] || 0) + 1;
+
+          runNode(nodeId)
+            .catch(() => false)
+            .then((success) => {
+              running.delete(nodeId);
+              if (key !== null) activeByKey[key]--;
+              if (success) {
+                completed.add(nodeId);
+              } else {
+                halted = true;
+              }
+              pump();
+            });
+        }
+      }
+
+      if (running.size === 0) {
+        resolve({ completed, held, halted: halted || held.size > 0 || pending.length > 0 });
+      }
+    };
+
+    pump();
+  });
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseParameterRows } from "@/utils/parameterRows";
+
+describe("parseParameterRows", () => {
+  it("reads CSV rows keyed by the header", () => {
+    const csv = "subject,reference\n\"a red fox at dawn\",refs/fox.png\nheron,refs/heron.png\n";
+    expect(parseParameterRows(csv, "rows.csv")).toEqual([
+      { subject: "a red fox at dawn", reference: "refs/fox.png" },
+      { subject: "heron", reference: "refs/heron.png" },
+    ]);
+  });
+
+  it("handles quoted commas, escaped quotes, newlines and CRLF line endings", () => {
+    const csv = 'prompt,style\r\n"fox, at dawn","say ""hi""\nthen wave"\r\n';
+    expect(parseParameterRows(csv, "rows.csv")).toEqual([
+      { prompt: "fox, at dawn", style: 'say "hi"\nthen wave' },
+    ]);
+  });
+
+  it("skips blank lines and fills missing CSV values with empty strings", () => {
+    const csv = "a,b\n\n1\n\n";
+    expect(parseParameterRows(csv, "rows.csv")).toEqual([{ a: "1", b: "" }]);
+  });
+
+  it("reads a JSON array of objects, stringifying values", () => {
+    const json = JSON.stringify([{ subject: "fox", seed: 42, style: null }]);
+    expect(parseParameterRows(json, "Rows.JSON")).toEqual([{ subject: "fox", seed: "42", style: "" }]);
+  });
+
+  it("rejects JSON that isn't an array of objects", () => {
+    expect(() => parseParameterRows('{"subject":"fox"}', "rows.json")).toThrow("must contain an array");
+    expect(() => parseParameterRows('["fox"]', "rows.json")).toThrow("Row 1 is not an object");
+  });
+
+  it("rejects files without rows", () => {
+    expect(() => parseParameterRows("", "rows.csv")).toThrow("CSV file is empty");
+    expect(() => parseParameterRows("subject\n", "rows.csv")).toThrow("No parameter rows found");
+    expect(() => parseParameterRows("[]", "rows.json")).toThrow("No parameter rows found");
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Parameter Rows
+ *
+ * Parses the parameter rows for a batch run from a JSON array of objects or
+ * a CSV file whose header row names the workflow parameters.
+ */
+
+import { WorkflowParameterRow } from "@/types";
+
+// Split CSV text into records, honouring quoted fields ("" escapes a quote)
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function parseCsv(text: string): WorkflowParameterRow[] {
+  const [header, ...records] = parseCsvRecords(text);
+  if (!header) {
+    throw new Error("CSV file is empty");
+  }
+
+  const names = header.map((name) => name.trim());
+  return records.map((record) => {
+    const row: WorkflowParameterRow = {};
+    names.forEach((name, index) => {
+      if (name) row[name] = record[index] ?? "";
+    });
+    return row;
+  });
+}
+
+function parseJson(text: string): WorkflowParameterRow[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error("JSON parameter file must contain an array of rows");
+  }
+
+  return data.map((item, index) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new Error(`Row ${index + 1} is not an object`);
+    }
+    const row: WorkflowParameterRow = {};
+    Object.entries(item).forEach(([name, value]) => {
+      row[name] = value === null || value === undefined ? "" : String(value);
+    });
+    return row;
+  });
+}
+
+/**
+ * Parses parameter rows from a .json or .csv file's contents.
+ * Throws if the file cannot be parsed or contains no rows.
+ */
+export function parseParameterRows(text: string, filename: string): WorkflowParameterRow[] {
+  const rows = filename.toLowerCase().endsWith(".json") ? parseJson(text) : parseCsv(text);
+  if (rows.length === 0) {
+    throw new Error("No parameter rows found");
+  }
+  return rows;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  getTemplateHandleId,
+  getTemplateVariableName,
+  getTemplateVariables,
+  renderTemplate,
+} from "@/utils/promptTemplate";
+
+describe("getTemplateVariables", () => {
+  it("lists each variable once in order of first appearance", () => {
+    expect(getTemplateVariables("{{subject}} in the style of {{ style }}, {{subject}} again")).toEqual(["subject", "style"]);
+  });
+
+  it("ignores braces that aren't valid placeholders", () => {
+    expect(getTemplateVariables("{{}} {{1st}} {single} {{two words}}")).toEqual([]);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("fills every occurrence of a placeholder", () => {
+    expect(renderTemplate("{{a}} and {{ a }}", { a: "fox" })).toBe("fox and fox");
+  });
+
+  it("leaves placeholders without a value as written", () => {
+    expect(renderTemplate("{{subject}} by {{artist}}", { subject: "a fox" })).toBe("a fox by {{artist}}");
+  });
+
+  it("uses empty values and doesn't read inherited properties", () => {
+    expect(renderTemplate("[{{a}}] {{toString}}", { a: "" })).toBe("[] {{toString}}");
+  });
+
+  it("inserts values literally", () => {
+    expect(renderTemplate("{{a}}", { a: "$& {{b}}" })).toBe("$& {{b}}");
+  });
+});
+
+describe("template handles", () => {
+  it("round-trips variable names through handle IDs", () => {
+    expect(getTemplateVariableName(getTemplateHandleId("style"))).toBe("style");
+    expect(getTemplateVariableName("text")).toBeNull();
+    expect(getTemplateVariableName(null)).toBeNull();
+  });
+});
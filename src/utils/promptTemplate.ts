@@ -0,0 +1,38 @@
+/**
+ * Prompt Templates
+ *
+ * Prompt nodes can contain {{variable}} placeholders. Each placeholder becomes
+ * a named text input on the node (handle ID "text:<name>"), and the prompt the
+ * node outputs has every connected placeholder replaced by its input's text.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}/g;
+
+export const TEMPLATE_HANDLE_PREFIX = "text:";
+
+export const getTemplateHandleId = (name: string) => `${TEMPLATE_HANDLE_PREFIX}${name}`;
+
+// Variable name for a template input handle, or null for any other handle
+export const getTemplateVariableName = (handleId: string | null | undefined): string | null =>
+  handleId?.startsWith(TEMPLATE_HANDLE_PREFIX) ? handleId.slice(TEMPLATE_HANDLE_PREFIX.length) : null;
+
+/**
+ * Lists the variables used in a template, in order of first appearance.
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Replaces each placeholder with its value. Placeholders without a value are
+ * left as they are, so a missing connection shows up in the output.
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_OUTPUT_SCHEMA,
+  getFieldHandleId,
+  getOutputFieldName,
+  getOutputSchemaFields,
+  parseOutputSchema,
+  parseStructuredOutput,
+} from "@/utils/structuredOutput";
+
+describe("parseOutputSchema", () => {
+  it("lists the top-level properties of an object schema", () => {
+    expect(parseOutputSchema(DEFAULT_OUTPUT_SCHEMA).fields).toEqual(["subject", "style"]);
+  });
+
+  it("explains schemas it can't use", () => {
+    expect(() => parseOutputSchema("{ nope")).toThrow("Output schema is not valid JSON");
+    expect(() => parseOutputSchema('{"type":"array","items":{}}')).toThrow('must have type "object" and properties');
+    expect(() => parseOutputSchema('{"type":"object","properties":[]}')).toThrow('must have type "object" and properties');
+    expect(() => parseOutputSchema('{"type":"object","properties":{}}')).toThrow("Output schema has no properties");
+  });
+});
+
+describe("getOutputSchemaFields", () => {
+  it("returns no fields for a missing or invalid schema", () => {
+    expect(getOutputSchemaFields(undefined)).toEqual([]);
+    expect(getOutputSchemaFields("{")).toEqual([]);
+    expect(getOutputSchemaFields(DEFAULT_OUTPUT_SCHEMA)).toEqual(["subject", "style"]);
+  });
+});
+
+describe("parseStructuredOutput", () => {
+  it("splits the output into text per field", () => {
+    const output = JSON.stringify({ subject: "a fox", count: 3, tags: ["red"], extra: "ignored" });
+    expect(parseStructuredOutput(output, ["subject", "count", "tags", "missing"])).toEqual({
+      subject: "a fox",
+      count: "3",
+      tags: '["red"]',
+    });
+  });
+
+  it("unwraps JSON in a markdown code fence", () => {
+    expect(parseStructuredOutput('```json\n{"subject":"a fox"}\n```', ["subject"])).toEqual({ subject: "a fox" });
+  });
+
+  it("rejects output that isn't a JSON object", () => {
+    expect(() => parseStructuredOutput("a fox", ["subject"])).toThrow("Model output is not valid JSON");
+    expect(() => parseStructuredOutput("[1, 2]", ["subject"])).toThrow("Model output is not a JSON object");
+  });
+});
+
+describe("field handles", () => {
+  it("round-trips field names through handle IDs", () => {
+    expect(getOutputFieldName(getFieldHandleId("style"))).toBe("style");
+    expect(getOutputFieldName("text")).toBeNull();
+    expect(getOutputFieldName(undefined)).toBeNull();
+  });
+});
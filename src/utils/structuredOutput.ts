@@ -0,0 +1,96 @@
+/**
+ * Structured LLM Output
+ *
+ * LLM Generate nodes in JSON mode constrain the model's output to a JSON
+ * schema. Each top-level property of the schema becomes its own text output
+ * on the node (handle ID "field:<name>") carrying that field's value.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export const FIELD_HANDLE_PREFIX = "field:";
+
+export const getFieldHandleId = (name: string) => `${FIELD_HANDLE_PREFIX}${name}`;
+
+// Field name for a structured output handle, or null for any other handle
+export const getOutputFieldName = (handleId: string | null | undefined): string | null =>
+  handleId?.startsWith(FIELD_HANDLE_PREFIX) ? handleId.slice(FIELD_HANDLE_PREFIX.length) : null;
+
+// Starting schema when a node is switched to JSON output
+export const DEFAULT_OUTPUT_SCHEMA = JSON.stringify(
+  {
+    type: "object",
+    properties: {
+      subject: { type: "string", description: "Main subject of the image" },
+      style: { type: "string", description: "Art style and lighting" },
+    },
+    required: ["subject", "style"],
+  },
+  null,
+  2
+);
+
+/**
+ * Parses a node's output schema and lists its top-level fields. Throws an
+ * Error with a user-facing message if the schema isn't an object schema.
+ */
+export function parseOutputSchema(source: string): { schema: JsonSchema; fields: string[] } {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(source);
+  } catch {
+    throw new Error("Output schema is not valid JSON");
+  }
+
+  const properties = (schema as JsonSchema | null)?.properties;
+  if (
+    typeof schema !== "object" || schema === null || Array.isArray(schema) ||
+    (schema as JsonSchema).type !== "object" ||
+    typeof properties !== "object" || properties === null || Array.isArray(properties)
+  ) {
+    throw new Error('Output schema must have type "object" and properties');
+  }
+
+  const fields = Object.keys(properties);
+  if (fields.length === 0) {
+    throw new Error("Output schema has no properties");
+  }
+  return { schema: schema as JsonSchema, fields };
+}
+
+// Fields of a schema for rendering handles - an invalid schema has none
+export function getOutputSchemaFields(source: string | undefined): string[] {
+  if (!source) return [];
+  try {
+    return parseOutputSchema(source).fields;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Splits the model's JSON output into text per field. String values are used
+ * as they are, other values as JSON. Fields missing from the output are left out.
+ */
+export function parseStructuredOutput(text: string, fields: string[]): Record<string, string> {
+  // Some models wrap JSON in a markdown code fence even when constrained
+  const json = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, "$1");
+
+  let output: unknown;
+  try {
+    output = JSON.parse(json);
+  } catch {
+    throw new Error("Model output is not valid JSON");
+  }
+  if (typeof output !== "object" || output === null || Array.isArray(output)) {
+    throw new Error("Model output is not a JSON object");
+  }
+
+  const values: Record<string, string> = {};
+  fields.forEach((field) => {
+    const value = (output as Record<string, unknown>)[field];
+    if (value === undefined) return;
+    values[field] = typeof value === "string" ? value : JSON.stringify(value);
+  });
+  return values;
+}